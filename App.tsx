@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   format, 
   startOfMonth, 
@@ -9,13 +9,9 @@ import {
   subMonths, 
   isSameMonth, 
   isSameDay,
-  parse,
   startOfWeek,
   endOfWeek,
-  addDays,
-  differenceInDays,
-  isAfter,
-  isBefore
+  formatDistanceToNow
 } from 'date-fns';
 import { 
   ChevronLeft, 
@@ -31,55 +27,298 @@ import {
   List,
   Clock,
   Star,
-  StarOff,
   X,
   Bell,
   BellRing,
   Settings,
-  CheckCircle2
+  CheckCircle2,
+  LayoutGrid,
+  CloudOff,
+  Database,
+  Cpu,
+  FileSpreadsheet,
+  Activity,
+  Sun,
+  CalendarRange,
+  Link2,
+  Pencil,
+  BookOpen
 } from 'lucide-react';
-import { fetchTidePredictions } from './services/noaaService';
+import { fetchPredictionsCached, monthRequest, prefetchStations, PredictionSource } from './services/predictionCache';
+import { isAbort, NoaaError } from './services/noaaClient';
 import { findStationId } from './services/geminiService';
-import { DailyTideData, TideEvent } from './types';
+import { AlertRecord, AlertRule, CurrentEvent, CurrentTarget, DailyTideData, NOAAStation, NotificationSettings, SavedStation, StationPrefs, ThresholdWindow, TideEvent, TidePrediction, TideTarget, Trip, UserSettings, ViewMode } from './types';
+import { formatDuration } from './utils/tideAnalysis';
+import { analyzePredictions } from './utils/tideScan';
+import { eventMeetsTarget, targetBadge, describeTarget, shiftTarget, profileTarget } from './utils/targets';
+import { datumLabel, formatHeight, shortHeight, toUnit } from './utils/units';
+import DayDetail from './components/DayDetail';
+import TargetControl from './components/TargetControl';
+import CompareView from './components/CompareView';
+import HarmonicImport from './components/HarmonicImport';
+import SeriesImport from './components/SeriesImport';
+import CalendarExport from './components/CalendarExport';
+import AlertRules from './components/AlertRules';
+import StationProfileEditor from './components/StationProfileEditor';
+import StationDetails from './components/StationDetails';
+import BackupSettings from './components/BackupSettings';
+import MonthDataExport from './components/MonthDataExport';
+import DaySkyInfo from './components/DaySkyInfo';
+import StationPicker, { StationChoice } from './components/StationPicker';
+import { isAmbiguous, nearestStations, parseCoordinates, searchStations, stationLabel } from './utils/stationSearch';
+import NowPanel from './components/NowPanel';
+import YearView from './components/YearView';
+import NextTargetDays from './components/NextTargetDays';
+import TideQuestion from './components/TideQuestion';
+import TripJournal from './components/TripJournal';
+import CurrentsView from './components/CurrentsView';
+import CurrentTargetControl from './components/CurrentTargetControl';
+import { fetchCurrentPredictions } from './services/currentsService';
+import { searchableStations, stationCapabilities } from './services/tideProviders';
+import { buildCurrentMonth, DEFAULT_CURRENT_TARGET, isCurrentStationId, toCurrentEvents } from './utils/currents';
+import { fetchObservedMonth } from './services/observedService';
+import { loadTrips, saveTrips } from './services/tripService';
+import { replaceImportedSeries, storedSeriesList } from './services/importProvider';
+import { clearAlertHistory, loadAlertHistory, loadAlertRules, runAlertRules, saveAlertRules } from './services/alertService';
+import { fetchCurrentStations, fetchStationDatums, fetchStationInfo, fetchStationTimeZone, datumOffsetFromMllw, DatumUnavailableError } from './services/stationMetadataService';
+import { daySky } from './utils/moon';
+import { overlapsDaylight } from './utils/sun';
+import { summarizeObservedDay } from './utils/observed';
+import { encodeLink, parseLink } from './utils/deepLink';
+import { DEFAULT_NOTIFICATIONS, isCurrentTarget, isFavoriteList, isNotificationSettings, isStationPrefsMap, readStoredJson } from './services/settingsService';
+import { browserTimeZone, fromZonedTime, toZonedTime, zoneAbbreviation } from './utils/timeZones';
 
-interface SavedStation {
-  id: string;
-  name: string;
-}
-
-interface NotificationSettings {
-  enabled: boolean;
-  leadDays: number; // How many days before to notify
-}
+const PREFETCH_MONTHS = 3;
+const ALERT_CHECK_MS = 60 * 60 * 1000;
+const DEFAULT_PREFS: StationPrefs = { datum: 'MLLW', unit: 'ft' };
 
 const App: React.FC = () => {
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [station, setStation] = useState<SavedStation>({ id: '9414290', name: 'San Francisco, CA' });
-  const [threshold, setThreshold] = useState(6.0);
+  // A shared link wins; without one, pick up where the last session left off
+  const [initialLink] = useState(() => parseLink(window.location.search || localStorage.getItem('tidewatch_last_view') || ''));
+  const [currentDate, setCurrentDate] = useState(initialLink.month ?? new Date());
+  const [station, setStation] = useState<SavedStation>(initialLink.station ?? { id: '9414290', name: 'San Francisco, CA' });
+  // Stored in feet above MLLW so it survives datum and unit switches
+  const [canonicalTarget, setCanonicalTarget] = useState<TideTarget>(() => {
+    const profile = profileTarget(station.id, readStoredJson('tidewatch_favorites', [], isFavoriteList));
+    return { ...profile, ...initialLink.target };
+  });
+  const [datumOffsetEntry, setDatumOffsetEntry] = useState<{ key: string; offset: number } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
-  const [dailyData, setDailyData] = useState<DailyTideData[]>([]);
+  const [monthPredictions, setMonthPredictions] = useState<{ month: Date; hilo: TidePrediction[]; curve: TidePrediction[] } | null>(null);
+  const [loadError, setLoadError] = useState<NoaaError | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const [observedMode, setObservedMode] = useState(false);
+  const [stationLocation, setStationLocation] = useState<{ id: string; lat: number; lng: number } | null>(null);
+  const [daylightOnly, setDaylightOnly] = useState(() => localStorage.getItem('tidewatch_daylight_only') === 'true');
+  const [stationZoneEntry, setStationZoneEntry] = useState<{ id: string; timeZone: string } | null>(null);
+  const [useMyTime, setUseMyTime] = useState(() => localStorage.getItem('tidewatch_use_my_time') === 'true');
+  const [observedCurve, setObservedCurve] = useState<TideEvent[]>([]);
+  // Belongs to the overlay, so it goes away with the station or month it was about
+  const [observedError, setObservedError] = useState<string | null>(null);
+  const [dataSource, setDataSource] = useState<{ source: PredictionSource; fetchedAt: number }>({ source: 'network', fetchedAt: 0 });
   const [error, setError] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'calendar' | 'list'>('list');
+  const [viewMode, setViewMode] = useState<ViewMode>(initialLink.view ?? 'list');
   const [showSettings, setShowSettings] = useState(false);
+  const [stationChoices, setStationChoices] = useState<{ title: string; choices: StationChoice[] } | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [editingProfile, setEditingProfile] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [currentEvents, setCurrentEvents] = useState<CurrentEvent[]>([]);
+  const [currentTarget, setCurrentTarget] = useState<CurrentTarget>(() =>
+    readStoredJson('tidewatch_current_target', DEFAULT_CURRENT_TARGET, isCurrentTarget)
+  );
   
   // Notification State
-  const [notifSettings, setNotifSettings] = useState<NotificationSettings>(() => {
-    const saved = localStorage.getItem('tidewatch_notif_settings');
-    return saved ? JSON.parse(saved) : { enabled: false, leadDays: 1 };
-  });
+  const [notifSettings, setNotifSettings] = useState<NotificationSettings>(() =>
+    readStoredJson('tidewatch_notif_settings', DEFAULT_NOTIFICATIONS, isNotificationSettings)
+  );
 
   // Favorites State
-  const [favorites, setFavorites] = useState<SavedStation[]>(() => {
-    const saved = localStorage.getItem('tidewatch_favorites');
-    return saved ? JSON.parse(saved) : [];
+  const [favorites, setFavorites] = useState<SavedStation[]>(() => readStoredJson('tidewatch_favorites', [], isFavoriteList));
+
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertHistory, setAlertHistory] = useState<AlertRecord[]>(loadAlertHistory);
+  const [trips, setTrips] = useState<Trip[]>(loadTrips);
+
+  // Datum and unit choices, per station
+  const [stationPrefs, setStationPrefs] = useState<Record<string, StationPrefs>>(() => {
+    const saved = readStoredJson('tidewatch_station_prefs', {}, isStationPrefsMap);
+    const { station: linked, datum, unit } = initialLink;
+    if (!linked || (!datum && !unit)) return saved;
+    const base = saved[linked.id] ?? DEFAULT_PREFS;
+    return { ...saved, [linked.id]: { datum: datum ?? base.datum, unit: unit ?? base.unit } };
   });
+  const prefs = stationPrefs[station.id] ?? DEFAULT_PREFS;
+  // Current stations predict speed and direction rather than height
+  const isCurrentStation = isCurrentStationId(station.id);
+  const capabilities = stationCapabilities(station.id);
+  // Only water-level favorites can be compared, prefetched or alerted on
+  const tideFavorites = useMemo(() => favorites.filter(f => !isCurrentStationId(f.id)), [favorites]);
+  const updatePrefs = (next: StationPrefs) => setStationPrefs(prev => ({ ...prev, [station.id]: next }));
+
+  // Feet between MLLW and the chosen datum, null while it's still being looked up for this station
+  const datumKey = `${station.id}|${prefs.datum}`;
+  const datumOffset = prefs.datum === 'MLLW' ? 0 : datumOffsetEntry?.key === datumKey ? datumOffsetEntry.offset : null;
+
+  // The target expressed in the station's chosen datum, which is what every comparison runs against
+  const target = useMemo(
+    () => shiftTarget(canonicalTarget, datumOffset ?? 0),
+    [canonicalTarget, datumOffset]
+  );
+  // A favorite keeps whatever target was last set while it was open
+  const setTarget = (next: TideTarget) => {
+    const canonical = shiftTarget(next, -(datumOffset ?? 0));
+    setCanonicalTarget(canonical);
+    setFavorites(prev => prev.map(f => (f.id === station.id ? { ...f, target: canonical } : f)));
+  };
+
+  // Keep the address bar in step so any view can be shared or bookmarked
+  const restoringFromHistory = useRef(false);
+  useEffect(() => {
+    const search = encodeLink({ station, month: currentDate, target: canonicalTarget, view: viewMode, datum: prefs.datum, unit: prefs.unit });
+    localStorage.setItem('tidewatch_last_view', search);
+    const restoring = restoringFromHistory.current;
+    restoringFromHistory.current = false;
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    const shown = parseLink(window.location.search);
+    // Stations and months get their own history entries; target and view tweaks just update the current one
+    const navigated = shown.station?.id !== station.id || !shown.month || !isSameMonth(shown.month, currentDate);
+    if (navigated && window.location.search && !restoring) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [station, currentDate, canonicalTarget, viewMode, prefs.datum, prefs.unit]);
+
+  useEffect(() => {
+    const restore = () => {
+      const link = parseLink(window.location.search);
+      restoringFromHistory.current = true;
+      if (link.station) setStation(link.station);
+      if (link.month) setCurrentDate(link.month);
+      if (link.target) setCanonicalTarget(prev => ({ ...prev, ...link.target }));
+      if (link.view) setViewMode(link.view);
+      const { station: linked, datum, unit } = link;
+      if (linked && (datum || unit)) {
+        setStationPrefs(prev => {
+          const base = prev[linked.id] ?? DEFAULT_PREFS;
+          return { ...prev, [linked.id]: { datum: datum ?? base.datum, unit: unit ?? base.unit } };
+        });
+      }
+    };
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link. Copy it from the address bar instead.');
+    }
+  };
 
   // Persist settings
   useEffect(() => {
     localStorage.setItem('tidewatch_favorites', JSON.stringify(favorites));
     localStorage.setItem('tidewatch_notif_settings', JSON.stringify(notifSettings));
-  }, [favorites, notifSettings]);
+    localStorage.setItem('tidewatch_station_prefs', JSON.stringify(stationPrefs));
+    localStorage.setItem('tidewatch_daylight_only', String(daylightOnly));
+    localStorage.setItem('tidewatch_current_target', JSON.stringify(currentTarget));
+    saveAlertRules(alertRules);
+    saveTrips(trips);
+  }, [favorites, notifSettings, stationPrefs, alertRules, daylightOnly, currentTarget, trips]);
+
+  // Imported series live only in storage, so they're read when a backup is made rather than on every render
+  const collectSettings = (): UserSettings => ({
+    favorites,
+    notifications: notifSettings,
+    stationPrefs,
+    alertRules,
+    daylightOnly,
+    useMyTime,
+    currentTarget,
+    trips,
+    importedSeries: storedSeriesList()
+  });
+
+  const restoreSettings = (next: UserSettings) => {
+    // First, since it's the part that can run out of storage
+    replaceImportedSeries(next.importedSeries);
+    setFavorites(next.favorites);
+    // Permission is per browser, so a restored backup can't switch notifications on by itself
+    setNotifSettings({ ...next.notifications, enabled: next.notifications.enabled && Notification.permission === 'granted' });
+    setStationPrefs(next.stationPrefs);
+    setAlertRules(next.alertRules);
+    setDaylightOnly(next.daylightOnly);
+    setUseMyTime(next.useMyTime);
+    setCurrentTarget(next.currentTarget);
+    setTrips(next.trips);
+  };
+
+  // Resolve how far the chosen datum sits above MLLW before loading anything in it
+  useEffect(() => {
+    if (prefs.datum === 'MLLW' || isCurrentStationId(station.id)) return;
+    let cancelled = false;
+    const key = `${station.id}|${prefs.datum}`;
+    fetchStationDatums(station.id)
+      .then(datums => {
+        if (!cancelled) setDatumOffsetEntry({ key, offset: datumOffsetFromMllw(datums, prefs.datum, station.name) });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof DatumUnavailableError
+          ? err.message
+          : `Could not load datum information for ${station.name}. Switch to MLLW to continue offline.`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [station.id, station.name, prefs.datum]);
+
+  // Coordinates for sunrise and sunset; without them days just show the moon
+  useEffect(() => {
+    let cancelled = false;
+    fetchStationInfo(station.id)
+      .then(info => {
+        if (!cancelled) setStationLocation({ id: station.id, lat: info.lat, lng: info.lng });
+      })
+      .catch(() => {
+        // Daylight stays unknown, which the filter treats as daylight
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [station.id]);
+  const stationCoords = stationLocation?.id === station.id ? stationLocation : undefined;
+
+  // Requests cover the station's days; nothing loads until its zone is known
+  useEffect(() => {
+    let cancelled = false;
+    fetchStationTimeZone(station.id).then(timeZone => {
+      if (!cancelled) setStationZoneEntry({ id: station.id, timeZone });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [station.id]);
+  const stationTimeZone = stationZoneEntry?.id === station.id ? stationZoneEntry.timeZone : null;
+  // The zone the calendar, lists and charts read their times in
+  const displayZone = useMyTime ? browserTimeZone() : stationTimeZone ?? browserTimeZone();
+
+  useEffect(() => {
+    localStorage.setItem('tidewatch_use_my_time', String(useMyTime));
+  }, [useMyTime]);
+
+  // Warm the offline cache for every favorite a few months ahead
+  useEffect(() => {
+    prefetchStations(tideFavorites, startOfMonth(new Date()), PREFETCH_MONTHS, stationPrefs);
+  }, [tideFavorites, stationPrefs]);
 
   // Request Notification Permission
   const requestNotifPermission = async () => {
@@ -92,107 +331,214 @@ const App: React.FC = () => {
     }
   };
 
-  // Logic to process notifications for upcoming tides
-  const checkUpcomingTidesForAlerts = useCallback(async (data: DailyTideData[]) => {
-    if (!notifSettings.enabled || Notification.permission !== 'granted') return;
-
-    const today = new Date();
-    const upcomingCrossings = data.filter(d => 
-      d.meetsThreshold && 
-      isAfter(d.date, today) && 
-      differenceInDays(d.date, today) <= notifSettings.leadDays + 7
-    );
-
-    for (const day of upcomingCrossings) {
-      const diff = differenceInDays(day.date, today);
-      const isLeadTimeMet = diff <= notifSettings.leadDays;
-
-      if (isLeadTimeMet) {
-        // Find the specific peak
-        const maxEvent = day.events.find(e => e.type === 'H' && e.height >= threshold);
-        if (maxEvent) {
-          const alertKey = `alert_${station.id}_${format(day.date, 'yyyyMMdd')}`;
-          if (!localStorage.getItem(alertKey)) {
-            // Send to service worker for display
-            if (navigator.serviceWorker.controller) {
-              navigator.serviceWorker.controller.postMessage({
-                type: 'SHOW_NOTIFICATION',
-                payload: {
-                  title: `🌊 Tide Alert: ${station.name}`,
-                  body: `High tide will reach ${maxEvent.height.toFixed(2)}ft on ${format(day.date, 'EEEE, MMM d')} at ${format(maxEvent.time, 'h:mm a')}.`,
-                  icon: 'https://img.icons8.com/fluency/96/000000/waves.png'
-                }
-              });
-              localStorage.setItem(alertKey, 'sent');
-            }
-          }
-        }
+  // Hands a matched alert to the service worker; false when it can't be shown yet
+  const showNotification = (title: string, body: string): boolean => {
+    if (Notification.permission !== 'granted' || !navigator.serviceWorker.controller) return false;
+    navigator.serviceWorker.controller.postMessage({
+      type: 'SHOW_NOTIFICATION',
+      payload: {
+        title,
+        body,
+        icon: 'https://img.icons8.com/fluency/96/000000/waves.png'
       }
-    }
-  }, [notifSettings, station, threshold]);
+    });
+    return true;
+  };
+
+  // Rules cover stations other than the one on screen, so they run on their own schedule
+  useEffect(() => {
+    if (!notifSettings.enabled) return;
+    const run = () => {
+      runAlertRules(alertRules, tideFavorites, showNotification)
+        .then(sent => {
+          if (sent.length) setAlertHistory(loadAlertHistory());
+        })
+        .catch(() => {
+          // Storage failed mid-run; the next check tries again
+        });
+    };
+    run();
+    const timer = setInterval(run, ALERT_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [notifSettings.enabled, alertRules, tideFavorites]);
 
-  const loadTideData = useCallback(async () => {
+  // Fetching depends only on the station, month and datum; a new target is applied to what's already loaded
+  const monthKey = format(currentDate, 'yyyy-MM');
+  useEffect(() => {
+    if (datumOffset === null || !stationTimeZone || isCurrentStation) return;
+    // Leaving this station or month cancels whatever it was still waiting for
+    const controller = new AbortController();
     setLoading(true);
     setError(null);
-    try {
-      const beginDate = format(startOfMonth(currentDate), 'yyyyMMdd');
-      const endDate = format(endOfMonth(currentDate), 'yyyyMMdd');
-      
-      const hilo = await fetchTidePredictions(station.id, beginDate, endDate, 'predictions', 'MLLW', 'hilo');
-      
-      const days = eachDayOfInterval({
-        start: startOfMonth(currentDate),
-        end: endOfMonth(currentDate),
+    setLoadError(null);
+    const month = startOfMonth(currentDate);
+    Promise.all([
+      fetchPredictionsCached(monthRequest(station.id, month, 'hilo', prefs.datum, stationTimeZone), controller.signal),
+      fetchPredictionsCached(monthRequest(station.id, month, '6', prefs.datum, stationTimeZone), controller.signal)
+    ])
+      .then(([hilo, interval]) => {
+        setMonthPredictions({ month, hilo: hilo.predictions, curve: interval.predictions });
+        // Report the least authoritative of the two sources
+        const source = (['harmonic', 'subordinate', 'cache', 'saved'] as PredictionSource[])
+          .map(s => [hilo, interval].find(r => r.source === s))
+          .find(Boolean) ?? hilo;
+        setDataSource({ source: source.source, fetchedAt: source.fetchedAt });
+      })
+      .catch(err => {
+        if (isAbort(err)) return;
+        setMonthPredictions(null);
+        setLoadError(err instanceof NoaaError ? err : new NoaaError('Could not load tide data for this station.'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
       });
+    return () => controller.abort();
+  }, [station.id, monthKey, datumOffset, prefs.datum, stationTimeZone, isCurrentStation, reloadCount]);
+  const reloadTideData = () => setReloadCount(n => n + 1);
 
-      const processed: DailyTideData[] = days.map(day => {
-        const events: TideEvent[] = hilo
-          .filter(p => isSameDay(parse(p.t, 'yyyy-MM-dd HH:mm', new Date()), day))
-          .map(p => ({
-            time: parse(p.t, 'yyyy-MM-dd HH:mm', new Date()),
-            height: parseFloat(p.v),
-            isPeak: true,
-            type: p.type as 'H' | 'L'
-          }));
-
-        const heights = events.filter(e => e.type === 'H').map(e => e.height);
-        const maxHeight = heights.length ? Math.max(...heights) : 0;
-        
-        return {
-          date: day,
-          events,
-          maxHeight,
-          minHeight: events.length ? Math.min(...events.map(e => e.height)) : 0,
-          meetsThreshold: maxHeight >= threshold
-        };
+  const { days: dailyData, windows: monthWindows } = useMemo(
+    () => monthPredictions && stationTimeZone
+      ? analyzePredictions(
+        { hilo: monthPredictions.hilo, curve: monthPredictions.curve },
+        target,
+        { fromMonth: monthPredictions.month, displayZone }
+      )
+      : { days: [] as DailyTideData[], windows: [] as ThresholdWindow[] },
+    [monthPredictions, target, stationTimeZone, displayZone]
+  );
+
+  // Current stations load their own month; the target is applied afterwards so changing it never refetches
+  useEffect(() => {
+    if (!isCurrentStation || !stationTimeZone) return;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    setLoadError(null);
+    setCurrentEvents([]);
+    fetchCurrentPredictions(station.id, currentDate, stationTimeZone, controller.signal)
+      .then(({ predictions, source, fetchedAt }) => {
+        setCurrentEvents(toCurrentEvents(predictions));
+        setDataSource({ source, fetchedAt });
+      })
+      .catch(err => {
+        if (isAbort(err)) return;
+        setLoadError(err instanceof NoaaError ? err : new NoaaError('Could not load current predictions for this station.'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
       });
+    return () => controller.abort();
+  }, [isCurrentStation, station.id, monthKey, stationTimeZone, reloadCount]);
 
-      setDailyData(processed);
-      checkUpcomingTidesForAlerts(processed);
-      
-    } catch (err) {
-      setError('Could not load tide data for this station. Please try another.');
-    } finally {
-      setLoading(false);
-    }
-  }, [currentDate, station, threshold, checkUpcomingTidesForAlerts]);
+  const currentDays = useMemo(
+    () => (isCurrentStation ? buildCurrentMonth(currentDate, currentEvents, currentTarget, displayZone, stationCoords) : []),
+    [isCurrentStation, currentDate, currentEvents, currentTarget, displayZone, stationCoords]
+  );
 
+  // Observed water levels are loaded separately so target changes never refetch them
   useEffect(() => {
-    loadTideData();
-  }, [loadTideData]);
+    setObservedError(null);
+    if (!observedMode || !stationTimeZone || !capabilities.observed) return;
+    let cancelled = false;
+    setObservedCurve([]);
+    fetchObservedMonth(station.id, currentDate, prefs.datum, stationTimeZone)
+      .then(obs => {
+        if (!cancelled) setObservedCurve(obs.map(o => ({ ...o, time: toZonedTime(o.time, displayZone) })));
+      })
+      .catch(() => {
+        if (!cancelled) setObservedError('Observed water levels are not available for this station.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [observedMode, station.id, currentDate, prefs.datum, stationTimeZone, displayZone, capabilities.observed]);
+
+  const displayData = useMemo(() => {
+    return dailyData.map(d => ({
+      ...d,
+      sky: daySky(d.date, stationCoords, displayZone),
+      observed: observedMode ? summarizeObservedDay(d, observedCurve.filter(o => isSameDay(o.time, d.date)), target) : undefined
+    }));
+  }, [dailyData, observedMode, observedCurve, target, stationCoords, displayZone]);
+
+  // Windows on screen are on the display clock; daylight is worked out on real instants
+  const inDaylight = (w: ThresholdWindow) =>
+    !stationCoords || overlapsDaylight(fromZonedTime(w.start, displayZone), fromZonedTime(w.end, displayZone), stationCoords.lat, stationCoords.lng);
+  const today = toZonedTime(new Date(), displayZone);
+
+  const surpriseDays = displayData.filter(d => d.observed?.surpriseHit);
+
+  const pickStation = (picked: NOAAStation) => {
+    selectStation({ id: picked.id, name: stationLabel(picked) });
+    setStationChoices(null);
+    setSearchQuery('');
+  };
+
+  const showNearest = (point: { lat: number; lng: number }, title: string) => {
+    setStationChoices({
+      title,
+      choices: nearestStations(point, searchableStations()).map(n => ({ station: n.station, detail: `${Math.round(n.distanceKm)} km` }))
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!searchQuery.trim()) return;
-    setLoading(true);
-    const result = await findStationId(searchQuery);
-    if (result && result.stationId) {
-      setStation({ id: result.stationId, name: result.stationName });
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    const point = parseCoordinates(query);
+    if (point) {
+      showNearest(point, `Stations near ${query}`);
+      return;
+    }
+
+    const matches = searchStations(query, searchableStations());
+    if (matches.length && !isAmbiguous(matches)) {
+      pickStation(matches[0].station);
+      return;
+    }
+    if (matches.length) {
+      setStationChoices({ title: `Stations matching "${query}"`, choices: matches.map(m => ({ station: m.station })) });
+      return;
+    }
+    if (/^\d{7}$/.test(query) || isCurrentStationId(query)) {
+      selectStation({ id: query, name: `Station ${query}` });
       setSearchQuery('');
-    } else {
-      setError('Station not found. Try a coastal city or zip code.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const currentMatches = searchStations(query, await fetchCurrentStations());
+      if (currentMatches.length) {
+        setStationChoices({
+          title: `Current stations matching "${query}"`,
+          choices: currentMatches.map(m => ({ station: m.station, detail: 'Currents' }))
+        });
+        return;
+      }
+    } catch {
+      // Fall through to Gemini, which only knows water-level stations
+    } finally {
+      setLoading(false);
+    }
+
+    // Nothing in the catalog, so let Gemini make sense of zip codes and landmarks
+    setLoading(true);
+    try {
+      const result = await findStationId(query);
+      if (result && result.stationId) {
+        selectStation({ id: result.stationId, name: result.stationName });
+        setSearchQuery('');
+      } else {
+        setError('Station not found. Try a coastal city, state or station ID.');
+      }
+    } catch {
+      setError('Station not found. Try a coastal city, state or station ID.');
+    } finally {
+      setLoading(false);
     }
-    setLoading(false);
   };
 
   const toggleFavorite = () => {
@@ -201,26 +547,46 @@ const App: React.FC = () => {
       if (isFav) {
         return prev.filter(f => f.id !== station.id);
       } else {
-        return [...prev, station];
+        return [...prev, { id: station.id, name: station.name, target: canonicalTarget }];
       }
     });
   };
 
-  const isCurrentFavorite = favorites.some(f => f.id === station.id);
+  const currentFavorite = favorites.find(f => f.id === station.id);
+  const isCurrentFavorite = !!currentFavorite;
+
+  // Opening a favorite brings its own target along
+  const selectStation = (next: SavedStation) => {
+    setStation({ id: next.id, name: next.name });
+    const profile = favorites.find(f => f.id === next.id)?.target;
+    if (profile) setCanonicalTarget(profile);
+  };
+
+  const updateProfile = (profile: { nickname?: string; notes?: string }) =>
+    setFavorites(prev => prev.map(f => (f.id === station.id ? { ...f, ...profile } : f)));
 
   const nextMonth = () => setCurrentDate(addMonths(currentDate, 1));
   const prevMonth = () => setCurrentDate(subMonths(currentDate, 1));
 
+  // Jumps from the year view or a search result to that day in the month calendar
+  const openDay = (day: Date) => {
+    setCurrentDate(day);
+    setViewMode('calendar');
+    setSelectedDay(day);
+  };
+
   const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   const calendarStart = startOfWeek(startOfMonth(currentDate));
   const calendarEnd = endOfWeek(endOfMonth(currentDate));
   const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 
-  const thresholdEvents = useMemo(() => {
-    return dailyData
-      .filter(d => d.meetsThreshold)
-      .flatMap(d => d.events.filter(e => e.type === 'H' && e.height >= threshold));
-  }, [dailyData, threshold]);
+  const monthTargetWindows = useMemo(() => {
+    return monthWindows.filter(w => isSameMonth(w.start, currentDate) || isSameMonth(w.end, currentDate));
+  }, [monthWindows, currentDate]);
+  const thresholdWindows = daylightOnly ? monthTargetWindows.filter(inDaylight) : monthTargetWindows;
+  const hiddenAtNight = monthTargetWindows.length - thresholdWindows.length;
+
+  const selectedDayData = selectedDay && !isCurrentStation ? displayData.find(d => isSameDay(d.date, selectedDay)) : undefined;
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-8 pb-32">
@@ -232,7 +598,7 @@ const App: React.FC = () => {
             TideWatch
           </h1>
           <div className="flex items-center gap-3 mt-1">
-            <p className="text-slate-600 font-semibold">{station.name}</p>
+            <p className="text-slate-600 font-semibold" title={currentFavorite?.nickname ? station.name : undefined}>{currentFavorite?.nickname || station.name}</p>
             <div className="flex items-center gap-1.5">
               <button 
                 onClick={toggleFavorite}
@@ -241,6 +607,22 @@ const App: React.FC = () => {
               >
                 <Star size={18} fill={isCurrentFavorite ? "currentColor" : "none"} />
               </button>
+              <button
+                onClick={() => setShowDetails(!showDetails)}
+                className={`p-1.5 rounded-full transition-all ${showDetails ? 'text-blue-500 bg-blue-50' : 'text-slate-300 hover:text-slate-400 bg-slate-100'}`}
+                title="Station details"
+              >
+                <Info size={18} />
+              </button>
+              {currentFavorite && (
+                <button
+                  onClick={() => setEditingProfile(!editingProfile)}
+                  className={`p-1.5 rounded-full transition-all ${editingProfile ? 'text-blue-500 bg-blue-50' : 'text-slate-300 hover:text-slate-400 bg-slate-100'}`}
+                  title="Edit nickname and notes"
+                >
+                  <Pencil size={18} />
+                </button>
+              )}
               <button 
                 onClick={() => setShowSettings(!showSettings)}
                 className={`p-1.5 rounded-full transition-all relative ${notifSettings.enabled ? 'text-blue-500 bg-blue-50' : 'text-slate-300 hover:text-slate-400 bg-slate-100'}`}
@@ -249,6 +631,20 @@ const App: React.FC = () => {
                 {notifSettings.enabled ? <BellRing size={18} /> : <Bell size={18} />}
                 {notifSettings.enabled && <span className="absolute top-1 right-1 w-2 h-2 bg-green-500 rounded-full border border-white"></span>}
               </button>
+              <button
+                onClick={() => setUseMyTime(!useMyTime)}
+                className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-bold transition-all ${useMyTime ? 'text-blue-600 bg-blue-50' : 'text-slate-500 bg-slate-100 hover:text-slate-700'}`}
+                title={useMyTime ? 'Showing times in your time zone. Switch to the station\'s local time' : 'Showing the station\'s local time. Switch to your time zone'}
+              >
+                <Clock size={14} /> {useMyTime ? 'My time' : 'Station time'} · {zoneAbbreviation(new Date(), displayZone)}
+              </button>
+              <button
+                onClick={copyLink}
+                className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-bold transition-all ${linkCopied ? 'text-green-600 bg-green-50' : 'text-slate-500 bg-slate-100 hover:text-slate-700'}`}
+                title="Copy a link to this station, month and target"
+              >
+                {linkCopied ? <CheckCircle2 size={14} /> : <Link2 size={14} />} {linkCopied ? 'Copied' : 'Copy link'}
+              </button>
             </div>
           </div>
         </div>
@@ -257,7 +653,7 @@ const App: React.FC = () => {
           <form onSubmit={handleSearch} className="relative w-full sm:w-64">
             <input
               type="text"
-              placeholder="Search station..."
+              placeholder="Station, state or ID..."
               className="w-full pl-10 pr-4 py-3 rounded-2xl border border-slate-200 focus:ring-2 focus:ring-blue-400 focus:outline-none transition-all bg-white shadow-sm"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
@@ -265,20 +661,24 @@ const App: React.FC = () => {
             <Search className="absolute left-3 top-3.5 text-slate-400 w-5 h-5" />
           </form>
           
-          <div className="flex items-center bg-white border border-slate-200 rounded-2xl px-4 py-2 shadow-sm shrink-0">
-            <span className="text-sm font-semibold text-slate-500 mr-2">Target:</span>
-            <input
-              type="number"
-              step="0.1"
-              value={threshold}
-              onChange={(e) => setThreshold(parseFloat(e.target.value))}
-              className="w-16 bg-blue-50 text-blue-700 font-bold rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-300"
-            />
-            <span className="ml-1 text-sm text-slate-500">ft</span>
-          </div>
+          {isCurrentStation
+            ? <CurrentTargetControl target={currentTarget} onChange={setCurrentTarget} />
+            : <TargetControl target={target} prefs={prefs} onChange={setTarget} onPrefsChange={updatePrefs} />}
         </div>
       </header>
 
+      {currentFavorite?.notes && !editingProfile && (
+        <p className="-mt-6 mb-8 text-sm text-slate-500 whitespace-pre-line">{currentFavorite.notes}</p>
+      )}
+
+      {editingProfile && currentFavorite && (
+        <StationProfileEditor key={currentFavorite.id} favorite={currentFavorite} unit={prefs.unit} onSave={updateProfile} onClose={() => setEditingProfile(false)} />
+      )}
+
+      {showDetails && (
+        <StationDetails stationId={station.id} unit={prefs.unit} onOpen={pickStation} onClose={() => setShowDetails(false)} />
+      )}
+
       {/* Notification Settings Panel */}
       {showSettings && (
         <div className="bg-white border border-slate-200 rounded-3xl p-6 mb-8 shadow-xl animate-in zoom-in-95 duration-200">
@@ -321,19 +721,58 @@ const App: React.FC = () => {
                   <option value="7">1 Week Before</option>
                 </select>
               </div>
-              <p className="text-xs text-slate-500">How many days in advance should we notify you of target crossings?</p>
+              <p className="text-xs text-slate-500">The default for new alert rules and calendar reminders.</p>
             </div>
           </div>
           
           {notifSettings.enabled && (
             <div className="mt-4 flex items-center gap-2 text-green-600 text-xs font-bold bg-green-50 p-2 rounded-xl border border-green-100">
               <CheckCircle2 size={14} />
-              Notifications Active for {station.name}
+              Notifications active for {alertRules.filter(r => r.enabled).length} alert rules
             </div>
           )}
+
+          <div className="mt-6">
+            <AlertRules
+              rules={alertRules}
+              history={alertHistory}
+              station={station}
+              target={canonicalTarget}
+              unit={prefs.unit}
+              defaultLeadDays={notifSettings.leadDays}
+              onChange={setAlertRules}
+              onClearHistory={() => {
+                clearAlertHistory();
+                setAlertHistory([]);
+              }}
+            />
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2 mt-6">
+            <HarmonicImport station={station} onChange={reloadTideData} />
+            <SeriesImport
+              onOpen={pickStation}
+              onRemove={(id) => {
+                setFavorites(prev => prev.filter(f => f.id !== id));
+                if (id === station.id) reloadTideData();
+              }}
+            />
+            <CalendarExport station={station} month={currentDate} target={target} prefs={prefs} leadDays={notifSettings.leadDays} timeZone={stationTimeZone ?? displayZone} />
+            <MonthDataExport station={station} month={currentDate} days={dailyData} target={target} prefs={prefs} timeZone={displayZone} />
+            <BackupSettings getSettings={collectSettings} onRestore={restoreSettings} />
+          </div>
         </div>
       )}
 
+      {stationChoices && (
+        <StationPicker
+          title={stationChoices.title}
+          choices={stationChoices.choices}
+          onPick={pickStation}
+          onClose={() => setStationChoices(null)}
+        />
+      )}
+
       {/* Favorites List */}
       {favorites.length > 0 && (
         <div className="flex flex-wrap gap-2 mb-8 items-center">
@@ -341,7 +780,8 @@ const App: React.FC = () => {
           {favorites.map(fav => (
             <div key={fav.id} className="group relative">
               <button
-                onClick={() => setStation(fav)}
+                onClick={() => selectStation(fav)}
+                title={fav.notes}
                 className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all flex items-center gap-1.5 border shadow-sm ${
                   station.id === fav.id 
                   ? 'bg-blue-600 border-blue-600 text-white' 
@@ -349,7 +789,7 @@ const App: React.FC = () => {
                 }`}
               >
                 <Anchor size={14} className={station.id === fav.id ? 'text-blue-200' : 'text-slate-400'} />
-                {fav.name}
+                {fav.nickname || fav.name}
               </button>
               <button 
                 onClick={(e) => {
@@ -372,6 +812,28 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {loadError && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-r-2xl mb-8 flex gap-3 items-center">
+          <AlertCircle className="text-red-500 shrink-0" />
+          <div className="flex-1">
+            <p className="text-red-800 font-medium">{loadError.message}</p>
+            <p className="text-sm text-red-700">{loadError.suggestion}</p>
+          </div>
+          <button onClick={reloadTideData} className="px-3 py-1.5 bg-white border border-red-200 text-red-700 rounded-lg text-sm font-bold hover:border-red-400 shrink-0">
+            Try again
+          </button>
+        </div>
+      )}
+
+      <TideQuestion
+        station={station}
+        unit={prefs.unit}
+        onSelectDay={(next, day) => {
+          if (next.id !== station.id) selectStation(next);
+          openDay(day);
+        }}
+      />
+
       {/* View Toggle & Navigation */}
       <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-4 px-2">
         <div className="flex items-center gap-4">
@@ -383,24 +845,111 @@ const App: React.FC = () => {
             <button onClick={prevMonth} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"><ChevronLeft /></button>
             <button onClick={nextMonth} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"><ChevronRight /></button>
           </div>
+          {dataSource.source === 'cache' && (
+            <div
+              className="flex items-center gap-1.5 text-xs font-bold text-amber-700 bg-amber-50 border border-amber-100 px-2.5 py-1 rounded-full"
+              title={`Saved ${format(dataSource.fetchedAt, 'MMM d, yyyy h:mm a')}`}
+            >
+              <CloudOff size={14} /> Offline copy · {formatDistanceToNow(dataSource.fetchedAt)} old
+            </div>
+          )}
+          {dataSource.source === 'saved' && (
+            <div
+              className="flex items-center gap-1.5 text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 px-2.5 py-1 rounded-full"
+              title={`Saved ${format(dataSource.fetchedAt, 'MMM d, yyyy h:mm a')}; refreshed from NOAA once it's a month old`}
+            >
+              <Database size={14} /> Saved copy · {formatDistanceToNow(dataSource.fetchedAt)} old
+            </div>
+          )}
+          {dataSource.source === 'harmonic' && (
+            <div
+              className="flex items-center gap-1.5 text-xs font-bold text-violet-700 bg-violet-50 border border-violet-100 px-2.5 py-1 rounded-full"
+              title="Computed from imported harmonic constants"
+            >
+              <Cpu size={14} /> Computed on device
+            </div>
+          )}
+          {dataSource.source === 'subordinate' && (
+            <div
+              className="flex items-center gap-1.5 text-xs font-bold text-violet-700 bg-violet-50 border border-violet-100 px-2.5 py-1 rounded-full"
+              title="Offsets applied to the reference station's highs and lows"
+            >
+              <Anchor size={14} /> Derived from reference
+            </div>
+          )}
+          {dataSource.source === 'import' && (
+            <div
+              className="flex items-center gap-1.5 text-xs font-bold text-violet-700 bg-violet-50 border border-violet-100 px-2.5 py-1 rounded-full"
+              title="Highs and lows found in an imported time series"
+            >
+              <FileSpreadsheet size={14} /> Imported data
+            </div>
+          )}
         </div>
 
-        <div className="inline-flex p-1 bg-slate-100 rounded-xl">
-          <button
-            onClick={() => setViewMode('calendar')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${viewMode === 'calendar' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
-          >
-            <CalendarIcon size={16} /> Calendar
-          </button>
+        <div className="flex items-center gap-2">
+          {capabilities.observed && (
+            <button
+              onClick={() => setObservedMode(!observedMode)}
+              className={`flex items-center gap-2 px-4 py-3 rounded-xl text-sm font-bold transition-all ${observedMode ? 'bg-orange-500 text-white shadow-sm' : 'bg-slate-100 text-slate-500 hover:text-slate-700'}`}
+              title="Overlay observed water levels"
+            >
+              <Activity size={16} /> Observed
+            </button>
+          )}
           <button
-            onClick={() => setViewMode('list')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${viewMode === 'list' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            onClick={() => setDaylightOnly(!daylightOnly)}
+            className={`flex items-center gap-2 px-4 py-3 rounded-xl text-sm font-bold transition-all ${daylightOnly ? 'bg-amber-400 text-white shadow-sm' : 'bg-slate-100 text-slate-500 hover:text-slate-700'}`}
+            title="Only count tide windows between sunrise and sunset"
           >
-            <List size={16} /> List Target
+            <Sun size={16} /> Daylight
           </button>
+          <div className="inline-flex p-1 bg-slate-100 rounded-xl">
+            <button
+              onClick={() => setViewMode('calendar')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${viewMode === 'calendar' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <CalendarIcon size={16} /> Calendar
+            </button>
+            <button
+              onClick={() => setViewMode('list')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${viewMode === 'list' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <List size={16} /> List Target
+            </button>
+            <button
+              onClick={() => setViewMode('compare')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${viewMode === 'compare' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <LayoutGrid size={16} /> Compare
+            </button>
+            <button
+              onClick={() => setViewMode('year')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${viewMode === 'year' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <CalendarRange size={16} /> Year
+            </button>
+            <button
+              onClick={() => setViewMode('trips')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${viewMode === 'trips' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <BookOpen size={16} /> Trips
+            </button>
+          </div>
         </div>
       </div>
 
+      {observedMode && observedError && (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-r-2xl mb-8 flex gap-3 items-center">
+          <Activity className="text-amber-500 shrink-0" />
+          <p className="text-amber-800 font-medium">{observedError}</p>
+        </div>
+      )}
+
+      {observedMode && stationTimeZone && capabilities.observed && isSameMonth(currentDate, today) && (
+        <NowPanel station={station} prefs={prefs} timeZone={stationTimeZone} displayZone={displayZone} today={dailyData.find(d => isSameDay(d.date, today))} />
+      )}
+
       {/* Main Content Area */}
       <div className="bg-white rounded-3xl shadow-xl border border-slate-100 overflow-hidden relative min-h-[500px]">
         {loading && (
@@ -412,32 +961,91 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {viewMode === 'calendar' ? (
+        {viewMode === 'trips' ? (
+          stationTimeZone && (
+            <TripJournal trips={trips} station={station} timeZone={stationTimeZone} target={canonicalTarget} unit={prefs.unit} onChange={setTrips} />
+          )
+        ) : isCurrentStation ? (
+          viewMode === 'calendar' || viewMode === 'list' ? (
+            <CurrentsView days={currentDays} month={currentDate} today={today} target={currentTarget} mode={viewMode} />
+          ) : (
+            <div className="py-20 flex flex-col items-center justify-center text-center">
+              <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mb-4 text-slate-300"><Waves size={40} /></div>
+              <h4 className="text-lg font-bold text-slate-700">Water-level stations only</h4>
+              <p className="text-slate-500 max-w-xs mx-auto">The year and compare views work with tide heights. Switch to the calendar or list to see currents at {station.name}.</p>
+            </div>
+          )
+        ) : viewMode === 'year' ? (
+          stationTimeZone && (
+            <>
+              <YearView
+                stationId={station.id}
+                fromMonth={currentDate}
+                target={target}
+                prefs={prefs}
+                timeZone={stationTimeZone}
+                displayZone={displayZone}
+                onSelectDay={openDay}
+              />
+              <NextTargetDays
+                stationId={station.id}
+                from={today}
+                target={target}
+                prefs={prefs}
+                timeZone={stationTimeZone}
+                displayZone={displayZone}
+                onSelectDay={openDay}
+              />
+            </>
+          )
+        ) : viewMode === 'compare' ? (
+          <CompareView stations={tideFavorites} month={currentDate} target={canonicalTarget} unit={prefs.unit} onSelectStation={selectStation} />
+        ) : viewMode === 'calendar' ? (
           <div className="animate-in fade-in duration-300">
             <div className="grid grid-cols-7 border-b border-slate-100 bg-slate-50/50">
               {weekDays.map(day => <div key={day} className="py-4 text-center text-sm font-bold text-slate-400 uppercase tracking-widest">{day}</div>)}
             </div>
             <div className="grid grid-cols-7">
               {calendarDays.map((day) => {
-                const data = dailyData.find(d => isSameDay(d.date, day));
+                const data = displayData.find(d => isSameDay(d.date, day));
                 const isActiveMonth = isSameMonth(day, currentDate);
                 const isTargetDay = data?.meetsThreshold;
+                const isNightOnly = isTargetDay && daylightOnly && !data!.windows.some(inDaylight);
                 return (
-                  <div key={day.toISOString()} className={`min-h-[140px] p-2 border-r border-b border-slate-100 relative transition-all group hover:bg-blue-50/30 ${!isActiveMonth ? 'bg-slate-50/20 opacity-30' : ''}`}>
+                  <div
+                    key={day.toISOString()}
+                    onClick={() => isActiveMonth && data && setSelectedDay(day)}
+                    className={`min-h-[140px] p-2 border-r border-b border-slate-100 relative transition-all group hover:bg-blue-50/30 ${!isActiveMonth ? 'bg-slate-50/20 opacity-30' : 'cursor-pointer'}`}
+                  >
                     <div className="flex justify-between items-start mb-2">
-                      <span className={`text-lg font-bold w-8 h-8 flex items-center justify-center rounded-full ${isSameDay(day, new Date()) ? 'bg-blue-600 text-white' : 'text-slate-700'}`}>{format(day, 'd')}</span>
+                      <span className={`text-lg font-bold w-8 h-8 flex items-center justify-center rounded-full ${isSameDay(day, today) ? 'bg-blue-600 text-white' : 'text-slate-700'}`}>{format(day, 'd')}</span>
                       {isTargetDay && isActiveMonth && (
-                        <div className="bg-blue-500 text-white px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-tighter flex items-center gap-1 shadow-sm animate-pulse"><Anchor size={10} /> {threshold}ft+</div>
+                        <div
+                          className={`bg-blue-500 text-white px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-tighter flex items-center gap-1 shadow-sm ${isNightOnly ? 'opacity-30' : 'animate-pulse'}`}
+                          title={isNightOnly ? 'Only meets the target in the dark' : undefined}
+                        >
+                          <Anchor size={10} /> {targetBadge(target, prefs.unit)}
+                        </div>
+                      )}
+                      {data?.observed?.surpriseHit && isActiveMonth && (
+                        <div className="bg-red-500 text-white px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-tighter flex items-center gap-1 shadow-sm" title="Observed water met the target even though the prediction didn't"><Activity size={10} /> Surge</div>
                       )}
                     </div>
                     {isActiveMonth && data && (
                       <div className="space-y-1 overflow-hidden">
                         {data.events.slice(0, 3).map((event, idx) => (
-                          <div key={idx} className={`text-[11px] font-medium px-2 py-1 rounded-lg border flex justify-between items-center ${event.type === 'H' ? (event.height >= threshold ? 'bg-blue-100 border-blue-200 text-blue-800' : 'bg-slate-100 border-slate-200 text-slate-600') : 'bg-indigo-50 border-indigo-100 text-indigo-500 opacity-60'}`}>
+                          <div key={idx} className={`text-[11px] font-medium px-2 py-1 rounded-lg border flex justify-between items-center ${eventMeetsTarget(event, target) ? 'bg-blue-100 border-blue-200 text-blue-800' : event.type === 'H' ? 'bg-slate-100 border-slate-200 text-slate-600' : 'bg-indigo-50 border-indigo-100 text-indigo-500 opacity-60'}`}>
                             <span className="flex items-center gap-1">{event.type === 'H' ? 'High' : 'Low'}</span>
-                            <span className="font-bold">{event.height.toFixed(1)}'</span>
+                            <span className="font-bold">{shortHeight(event.height, prefs.unit)}</span>
                           </div>
                         ))}
+                        {data.observed && (
+                          <div className="text-[11px] font-medium px-2 py-1 rounded-lg border flex justify-between items-center bg-orange-50 border-orange-100 text-orange-700">
+                            <span>Obs {shortHeight(data.observed.maxHeight, prefs.unit)}</span>
+                            <span className="font-bold">{data.observed.maxResidual >= 0 ? '+' : ''}{shortHeight(data.observed.maxResidual, prefs.unit)}</span>
+                          </div>
+                        )}
+                        {data.sky && <DaySkyInfo sky={data.sky} compact />}
                       </div>
                     )}
                   </div>
@@ -448,52 +1056,91 @@ const App: React.FC = () => {
         ) : (
           <div className="p-6 animate-in slide-in-from-right-4 fade-in duration-300">
             <div className="flex items-center justify-between mb-6">
-              <h3 className="text-xl font-bold text-slate-800">Days Meeting {threshold}ft+ Target</h3>
-              <div className="text-sm font-medium text-slate-500 bg-slate-100 px-3 py-1 rounded-full">{thresholdEvents.length} occurrences found</div>
+              <h3 className="text-xl font-bold text-slate-800">Days Meeting Target: {describeTarget(target, prefs.unit)} {datumLabel(prefs.datum)}</h3>
+              <div className="text-sm font-medium text-slate-500 bg-slate-100 px-3 py-1 rounded-full">
+                {thresholdWindows.length} windows found{hiddenAtNight > 0 && ` · ${hiddenAtNight} at night hidden`}
+              </div>
             </div>
-            {thresholdEvents.length > 0 ? (
+            {surpriseDays.length > 0 && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-100 rounded-2xl">
+                <h4 className="text-sm font-bold text-red-700 flex items-center gap-2 mb-2"><Activity size={16} /> Observed water beat the prediction</h4>
+                <div className="flex flex-wrap gap-2">
+                  {surpriseDays.map(d => (
+                    <button
+                      key={d.date.toISOString()}
+                      onClick={() => setSelectedDay(d.date)}
+                      className="px-3 py-1 rounded-full bg-white border border-red-200 text-xs font-bold text-red-700 hover:border-red-400"
+                    >
+                      {format(d.date, 'MMM d')} · {formatHeight(d.observed!.maxHeight, prefs.unit)} ({d.observed!.maxResidual >= 0 ? '+' : ''}{formatHeight(d.observed!.maxResidual, prefs.unit)})
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {thresholdWindows.length > 0 ? (
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                {thresholdEvents.map((event, idx) => (
-                  <div key={idx} className="flex flex-col p-4 bg-white border border-slate-200 rounded-2xl hover:border-blue-400 hover:shadow-md transition-all group shadow-sm">
-                    <div className="flex items-center justify-between mb-3">
-                      <div className="flex flex-col">
-                        <span className="text-xs font-bold text-blue-500 uppercase tracking-wider">{format(event.time, 'EEEE')}</span>
-                        <span className="text-lg font-extrabold text-slate-800">{format(event.time, 'MMM d, yyyy')}</span>
+                {thresholdWindows.map((w, idx) => {
+                  const sky = displayData.find(d => isSameDay(d.date, w.start))?.sky;
+                  return (
+                    <div
+                      key={idx}
+                      onClick={() => setSelectedDay(w.start)}
+                      className="flex flex-col p-4 bg-white border border-slate-200 rounded-2xl hover:border-blue-400 hover:shadow-md transition-all group shadow-sm cursor-pointer"
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="flex flex-col">
+                          <span className="text-xs font-bold text-blue-500 uppercase tracking-wider">{format(w.start, 'EEEE')}</span>
+                          <span className="text-lg font-extrabold text-slate-800">{format(w.start, 'MMM d, yyyy')}</span>
+                        </div>
+                        <div className="w-12 h-12 rounded-2xl bg-blue-50 flex items-center justify-center text-blue-600 group-hover:bg-blue-600 group-hover:text-white transition-colors"><Waves size={24} /></div>
+                      </div>
+                      <div className="flex items-center justify-between mb-3 text-sm">
+                        <span className="font-bold text-slate-700">{format(w.start, 'h:mm a')} – {format(w.end, 'h:mm a')}</span>
+                        <span className="font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full">{formatDuration(w.durationMinutes)}</span>
+                      </div>
+                      {sky && <div className="mb-3"><DaySkyInfo sky={sky} /></div>}
+                      <div className="flex items-center justify-between p-3 bg-slate-50 rounded-xl mt-auto border border-slate-100">
+                        <div className="flex items-center gap-2"><Clock size={16} className="text-slate-400" /><span className="text-sm font-bold text-slate-700">Peak {format(w.peak.time, 'h:mm a')}</span></div>
+                        <div className="flex items-center gap-1"><span className="text-2xl font-black text-blue-600">{toUnit(w.peak.height, prefs.unit).toFixed(2)}</span><span className="text-xs font-bold text-slate-400 uppercase">{prefs.unit}</span></div>
                       </div>
-                      <div className="w-12 h-12 rounded-2xl bg-blue-50 flex items-center justify-center text-blue-600 group-hover:bg-blue-600 group-hover:text-white transition-colors"><Waves size={24} /></div>
-                    </div>
-                    <div className="flex items-center justify-between p-3 bg-slate-50 rounded-xl mt-auto border border-slate-100">
-                      <div className="flex items-center gap-2"><Clock size={16} className="text-slate-400" /><span className="text-sm font-bold text-slate-700">{format(event.time, 'h:mm a')}</span></div>
-                      <div className="flex items-center gap-1"><span className="text-2xl font-black text-blue-600">{event.height.toFixed(2)}</span><span className="text-xs font-bold text-slate-400 uppercase">FT</span></div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             ) : (
               <div className="py-20 flex flex-col items-center justify-center text-center">
                 <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mb-4 text-slate-300"><Anchor size={40} /></div>
                 <h4 className="text-lg font-bold text-slate-700">No matching tides this month</h4>
-                <p className="text-slate-500 max-w-xs mx-auto">None of the high tide peaks are predicted to reach {threshold}ft in {format(currentDate, 'MMMM')}. Try lowering your target.</p>
+                <p className="text-slate-500 max-w-xs mx-auto">
+                  {target.mode === 'high' && <>None of the high tide peaks are predicted to reach {formatHeight(target.high, prefs.unit)} in {format(currentDate, 'MMMM')}. Try lowering your target.</>}
+                  {target.mode === 'low' && <>None of the low tides are predicted to drop below {formatHeight(target.low, prefs.unit)} in {format(currentDate, 'MMMM')}. Try raising your target.</>}
+                  {target.mode === 'range' && <>The water is never predicted to sit between {formatHeight(target.low, prefs.unit)} and {formatHeight(target.high, prefs.unit)} in {format(currentDate, 'MMMM')}. Try widening the range.</>}
+                </p>
               </div>
             )}
           </div>
         )}
       </div>
 
+      {selectedDayData && (
+        <DayDetail
+          data={selectedDayData}
+          target={target}
+          prefs={prefs}
+          stationName={station.name}
+          onClose={() => setSelectedDay(null)}
+        />
+      )}
+
       {/* Floating Action Button for Location */}
       <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-20">
         <button 
           onClick={() => {
             if ("geolocation" in navigator) {
-              navigator.geolocation.getCurrentPosition(async (position) => {
-                setLoading(true);
-                const query = `${position.coords.latitude}, ${position.coords.longitude}`;
-                const result = await findStationId(query);
-                if (result) {
-                  setStation({ id: result.stationId, name: result.stationName });
-                }
-                setLoading(false);
-              });
+              navigator.geolocation.getCurrentPosition(
+                (position) => showNearest({ lat: position.coords.latitude, lng: position.coords.longitude }, 'Stations near you'),
+                () => setError('Could not get your location. Search for a station instead.')
+              );
             }
           }}
           className="bg-slate-900 text-white px-6 py-4 rounded-full shadow-2xl hover:scale-105 active:scale-95 transition-all flex items-center gap-3 font-bold border-4 border-white"
@@ -503,7 +1150,7 @@ const App: React.FC = () => {
       </div>
 
       <footer className="mt-12 text-center text-slate-400 text-sm">
-        <p>Predictions based on NOAA MLLW Datum. Always consult local warnings before coastal activities.</p>
+        <p>Predictions based on NOAA {datumLabel(prefs.datum)} Datum, in {prefs.unit === 'm' ? 'meters' : 'feet'}. Always consult local warnings before coastal activities.</p>
         <p className="mt-1">Built with React, Gemini, and NOAA CO-OPS API.</p>
       </footer>
     </div>
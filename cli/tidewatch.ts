@@ -0,0 +1,198 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { addMonths, endOfMonth, format, isValid, parse, startOfMonth } from 'date-fns';
+import { requestPredictions } from '../services/noaaClient';
+import { catalogTimeZone } from '../data/stationCatalog';
+import { Datum, LengthUnit, TidePrediction, TideTarget } from '../types';
+import { DATUMS, fromUnit } from '../utils/units';
+import { describeTarget } from '../utils/targets';
+import { isValidTimeZone } from '../utils/timeZones';
+import { analyzePredictions, qualifyingDays } from '../utils/tideScan';
+import { dayRecordCells, dayRecordColumns, DayRecord, dayRecordsToCsv, toDayRecord } from '../utils/dataExport';
+
+const USAGE = `Usage: tidewatch scan --station <id> [options]
+
+Lists the days a station meets a tide target.
+
+Target (exactly one):
+  --min-high <h>       high tides at or above h
+  --max-low <h>        low tides at or below h
+  --between <lo,hi>    water between lo and hi
+
+Options:
+  --from <yyyy-MM>     first month, default this month
+  --months <n>         months to scan, default 1
+  --datum <datum>      ${DATUMS.map(d => d.id).join(', ')}; default MLLW
+  --units <ft|m>       for the target and the output, default ft
+  --tz <zone>          station time zone, default from the bundled catalog
+  --windows            also load six-minute predictions and report target windows
+  --all                list every day, not only those that meet the target
+  --format <f>         table, csv or json; default table
+  --fixtures <dir>     read predictions from <dir>/<station>/<yyyy-MM>-<interval>-<datum>.json,
+                       saving anything fetched there for next time
+  --offline            never use the network; a missing fixture is an error
+`;
+
+class UsageError extends Error {}
+
+type OutputFormat = 'table' | 'csv' | 'json';
+
+const number = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) throw new UsageError(`${flag} expects a number, got "${value}"`);
+  return parsed;
+};
+
+const parseTarget = (values: { 'min-high'?: string; 'max-low'?: string; between?: string }, unit: LengthUnit): TideTarget => {
+  const given = [values['min-high'], values['max-low'], values.between].filter(v => v !== undefined);
+  if (given.length !== 1) throw new UsageError('Give exactly one of --min-high, --max-low or --between');
+
+  if (values['min-high'] !== undefined) {
+    const high = fromUnit(number(values['min-high'], '--min-high'), unit);
+    return { mode: 'high', high, low: high };
+  }
+  if (values['max-low'] !== undefined) {
+    const low = fromUnit(number(values['max-low'], '--max-low'), unit);
+    return { mode: 'low', high: low, low };
+  }
+  const [lo, hi] = values.between!.split(',').map(v => fromUnit(number(v, '--between'), unit));
+  if (hi === undefined || lo > hi) throw new UsageError('--between expects lo,hi with lo at most hi');
+  return { mode: 'range', high: hi, low: lo };
+};
+
+// Accepts a bare TidePrediction[] or a saved NOAA response with a `predictions` array, stamped in GMT
+const readFixture = async (file: string): Promise<TidePrediction[] | null> => {
+  try {
+    const doc = JSON.parse(await readFile(file, 'utf8'));
+    return Array.isArray(doc) ? doc : doc.predictions ?? [];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`Could not read fixture ${file}: ${(err as Error).message}`);
+  }
+};
+
+const loadMonth = async (
+  stationId: string,
+  month: Date,
+  interval: string,
+  datum: Datum,
+  timeZone: string,
+  fixtures: string | undefined,
+  offline: boolean
+): Promise<TidePrediction[]> => {
+  const file = fixtures && path.join(fixtures, stationId, `${format(month, 'yyyy-MM')}-${interval}-${datum}.json`);
+  if (file) {
+    const saved = await readFixture(file);
+    if (saved) return saved;
+  }
+  if (offline) throw new Error(`No fixture for ${stationId} ${format(month, 'yyyy-MM')} (${interval}, ${datum})${file ? ` at ${file}` : ''}`);
+
+  const predictions = await requestPredictions({
+    stationId,
+    beginDate: format(startOfMonth(month), 'yyyyMMdd'),
+    endDate: format(endOfMonth(month), 'yyyyMMdd'),
+    product: 'predictions',
+    datum,
+    interval,
+    timeZone
+  });
+  if (file) {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(predictions));
+  }
+  return predictions;
+};
+
+const render = (records: DayRecord[], outputFormat: OutputFormat, unit: LengthUnit, header: Record<string, unknown>): string => {
+  if (outputFormat === 'json') return JSON.stringify({ ...header, days: records }, null, 2);
+  if (outputFormat === 'csv') return dayRecordsToCsv(records, unit).trimEnd();
+
+  const columns = dayRecordColumns(unit);
+  const values = records.map(dayRecordCells);
+  const widths = columns.map((c, i) => Math.max(c.length, ...values.map(v => String(v[i]).length)));
+  const line = (cells: (string | number)[]) => cells.map((c, i) => String(c).padEnd(widths[i])).join('  ').trimEnd();
+  return [line(columns), line(widths.map(w => '-'.repeat(w))), ...values.map(line)].join('\n');
+};
+
+const scan = async (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      station: { type: 'string' },
+      from: { type: 'string' },
+      months: { type: 'string', default: '1' },
+      'min-high': { type: 'string' },
+      'max-low': { type: 'string' },
+      between: { type: 'string' },
+      datum: { type: 'string', default: 'MLLW' },
+      units: { type: 'string', default: 'ft' },
+      tz: { type: 'string' },
+      windows: { type: 'boolean', default: false },
+      all: { type: 'boolean', default: false },
+      format: { type: 'string', default: 'table' },
+      fixtures: { type: 'string' },
+      offline: { type: 'boolean', default: false }
+    }
+  });
+
+  const stationId = values.station;
+  if (!stationId || !/^\d{7}$/.test(stationId)) throw new UsageError('--station expects a seven-digit NOAA station ID');
+
+  const fromMonth = values.from ? parse(values.from, 'yyyy-MM', new Date()) : startOfMonth(new Date());
+  if (!isValid(fromMonth)) throw new UsageError(`--from expects yyyy-MM, got "${values.from}"`);
+  const months = number(values.months!, '--months');
+  if (!Number.isInteger(months) || months < 1 || months > 24) throw new UsageError('--months expects a whole number from 1 to 24');
+
+  const datum = values.datum as Datum;
+  if (!DATUMS.some(d => d.id === datum)) throw new UsageError(`Unknown datum "${values.datum}"`);
+  const unit = values.units as LengthUnit;
+  if (unit !== 'ft' && unit !== 'm') throw new UsageError('--units expects ft or m');
+  const outputFormat = values.format as OutputFormat;
+  if (!['table', 'csv', 'json'].includes(outputFormat)) throw new UsageError('--format expects table, csv or json');
+  const timeZone = values.tz ?? catalogTimeZone(stationId);
+  if (!isValidTimeZone(timeZone)) throw new UsageError(`Unknown time zone "${timeZone}"`);
+
+  const target = parseTarget(values, unit);
+
+  // One month per request, which keeps six-minute data inside NOAA's range limit
+  const hilo: TidePrediction[] = [];
+  const curve: TidePrediction[] = [];
+  for (let i = 0; i < months; i++) {
+    const month = addMonths(fromMonth, i);
+    hilo.push(...await loadMonth(stationId, month, 'hilo', datum, timeZone, values.fixtures, values.offline!));
+    if (values.windows) curve.push(...await loadMonth(stationId, month, '6', datum, timeZone, values.fixtures, values.offline!));
+  }
+
+  const { days } = analyzePredictions({ hilo, curve }, target, { fromMonth, months, displayZone: timeZone });
+  const records = (values.all ? days : qualifyingDays(days)).map(d => toDayRecord(d, target, unit));
+
+  console.log(render(records, outputFormat, unit, {
+    station: stationId,
+    datum,
+    unit,
+    timeZone,
+    target: describeTarget(target, unit),
+    generatedAt: new Date().toISOString()
+  }));
+};
+
+const main = async () => {
+  const [command, ...rest] = process.argv.slice(2);
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'scan') throw new UsageError(`Unknown command "${command}"`);
+  await scan(rest);
+};
+
+main().catch(err => {
+  if (err instanceof UsageError || (err as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`tidewatch: ${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    console.error(`tidewatch: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the CLI for Node; dependencies stay external and load from node_modules
+export default defineConfig({
+  build: {
+    ssr: 'cli/tidewatch.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'tidewatch.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
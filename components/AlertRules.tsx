@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { BellRing, History, Pencil, Plus, Trash2 } from 'lucide-react';
+import { AlertRecord, AlertRule, LengthUnit, SavedStation, TargetMode, TideTarget } from '../types';
+import { ALL_WEEKDAYS, describeRule, newAlertRule } from '../utils/alertRules';
+import { fromUnit, roundedHeight } from '../utils/units';
+
+interface AlertRulesProps {
+  rules: AlertRule[];
+  history: AlertRecord[];
+  station: SavedStation;
+  target: TideTarget; // feet above MLLW, where a rule given its own target starts from
+  unit: LengthUnit;
+  defaultLeadDays: number;
+  onChange: (rules: AlertRule[]) => void;
+  onClearHistory: () => void;
+}
+
+const inputClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-bold text-blue-600';
+const HOURS = Array.from({ length: 25 }, (_, h) => h);
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const hourLabel = (h: number) => (h === 24 ? 'midnight' : format(new Date(2000, 0, 1, h), 'ha').toLowerCase());
+
+const AlertRules: React.FC<AlertRulesProps> = ({ rules, history, station, target, unit, defaultLeadDays, onChange, onClearHistory }) => {
+  const [draft, setDraft] = useState<AlertRule | null>(null);
+
+  const stationsLabel = (rule: AlertRule) =>
+    rule.stations === 'favorites' ? 'Any favorite' : rule.stations.map(s => s.name).join(', ');
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const named = { ...draft, name: draft.name.trim() || stationsLabel(draft) };
+    const exists = rules.some(r => r.id === named.id);
+    onChange(exists ? rules.map(r => (r.id === named.id ? named : r)) : [...rules, named]);
+    setDraft(null);
+  };
+
+  const setBound = (key: 'high' | 'low', raw: string) => {
+    const value = parseFloat(raw);
+    if (draft?.target && !Number.isNaN(value)) setDraft({ ...draft, target: { ...draft.target, [key]: fromUnit(value, draft.unit) } });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!draft) return;
+    const weekdays = draft.weekdays.includes(day) ? draft.weekdays.filter(d => d !== day) : [...draft.weekdays, day].sort();
+    if (weekdays.length) setDraft({ ...draft, weekdays });
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-bold text-slate-700 flex items-center gap-2"><BellRing size={16} className="text-blue-500" /> Alert Rules</span>
+        {!draft && (
+          <button
+            onClick={() => setDraft({ ...newAlertRule(station, defaultLeadDays), unit })}
+            className="flex items-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg"
+          >
+            <Plus size={14} /> New rule
+          </button>
+        )}
+      </div>
+
+      {!rules.length && !draft && (
+        <p className="text-xs text-slate-500">No rules yet. Add one to get notified ahead of tides that match, for this station or all your favorites.</p>
+      )}
+
+      <div className="space-y-2">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center gap-3 bg-white border border-slate-200 rounded-xl px-3 py-2">
+            <button
+              onClick={() => onChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)))}
+              className={`relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors ${rule.enabled ? 'bg-blue-600' : 'bg-slate-300'}`}
+              title={rule.enabled ? 'Pause rule' : 'Resume rule'}
+            >
+              <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${rule.enabled ? 'translate-x-5' : 'translate-x-1'}`} />
+            </button>
+            <div className="flex flex-col min-w-0 flex-1">
+              <span className="text-sm font-bold text-slate-700 truncate">{rule.name}</span>
+              <span className="text-xs text-slate-500 truncate">{stationsLabel(rule)} · {describeRule(rule)}</span>
+            </div>
+            <button onClick={() => setDraft(rule)} className="text-slate-400 hover:text-blue-600" title="Edit rule"><Pencil size={14} /></button>
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-slate-400 hover:text-red-500" title="Delete rule"><Trash2 size={14} /></button>
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="mt-3 bg-white border border-blue-200 rounded-xl p-3 space-y-3">
+          <input
+            type="text"
+            placeholder="Rule name, e.g. Weekend kayaking"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 text-sm font-semibold text-slate-700"
+          />
+          <div className="flex flex-wrap items-center gap-2 text-xs font-semibold text-slate-500">
+            <select
+              value={draft.stations === 'favorites' ? 'favorites' : 'stations'}
+              onChange={(e) => setDraft({ ...draft, stations: e.target.value === 'favorites' ? 'favorites' : [station] })}
+              className={inputClass}
+            >
+              <option value="stations">{draft.stations === 'favorites' ? station.name : stationsLabel(draft)}</option>
+              <option value="favorites">Any favorite</option>
+            </select>
+            <select
+              value={draft.target?.mode ?? 'profile'}
+              onChange={(e) => setDraft({
+                ...draft,
+                target: e.target.value === 'profile' ? null : { ...(draft.target ?? target), mode: e.target.value as TargetMode }
+              })}
+              className={inputClass}
+            >
+              <option value="profile">Each station's own target</option>
+              <option value="high">High above</option>
+              <option value="low">Low below</option>
+              <option value="range">Between</option>
+            </select>
+            {draft.target && draft.target.mode !== 'high' && (
+              <input type="number" step="0.1" value={roundedHeight(draft.target.low, draft.unit)} onChange={(e) => setBound('low', e.target.value)} className={`w-20 ${inputClass}`} />
+            )}
+            {draft.target?.mode === 'range' && <span>–</span>}
+            {draft.target && draft.target.mode !== 'low' && (
+              <input type="number" step="0.1" value={roundedHeight(draft.target.high, draft.unit)} onChange={(e) => setBound('high', e.target.value)} className={`w-20 ${inputClass}`} />
+            )}
+            {draft.target && <span>{draft.unit} MLLW</span>}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs font-semibold text-slate-500">
+            <span>Between</span>
+            <select
+              value={draft.fromHour}
+              onChange={(e) => {
+                const fromHour = parseInt(e.target.value);
+                setDraft({ ...draft, fromHour, toHour: Math.max(draft.toHour, fromHour + 1) });
+              }}
+              className={inputClass}
+            >
+              {HOURS.slice(0, 24).map(h => <option key={h} value={h}>{hourLabel(h)}</option>)}
+            </select>
+            <span>and</span>
+            <select value={draft.toHour} onChange={(e) => setDraft({ ...draft, toHour: parseInt(e.target.value) })} className={inputClass}>
+              {HOURS.slice(1).filter(h => h > draft.fromHour).map(h => <option key={h} value={h}>{hourLabel(h)}</option>)}
+            </select>
+            <label className="flex items-center gap-1.5 ml-2">
+              <input type="checkbox" checked={draft.daylightOnly} onChange={(e) => setDraft({ ...draft, daylightOnly: e.target.checked })} />
+              Daylight only
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs font-semibold text-slate-500">
+            {ALL_WEEKDAYS.map(day => (
+              <button
+                key={day}
+                onClick={() => toggleWeekday(day)}
+                className={`w-7 h-7 rounded-full font-bold ${draft.weekdays.includes(day) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}
+              >
+                {WEEKDAY_LETTERS[day]}
+              </button>
+            ))}
+            <select value={draft.leadDays} onChange={(e) => setDraft({ ...draft, leadDays: parseInt(e.target.value) })} className={`ml-2 ${inputClass}`}>
+              <option value="0">Same Day</option>
+              <option value="1">1 Day Before</option>
+              <option value="2">2 Days Before</option>
+              <option value="3">3 Days Before</option>
+              <option value="7">1 Week Before</option>
+            </select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="text-xs font-bold text-slate-500 hover:text-slate-700 px-3 py-1.5">Cancel</button>
+            <button onClick={saveDraft} className="text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg">Save rule</button>
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1.5"><History size={12} /> Sent alerts</span>
+            <button onClick={onClearHistory} className="text-xs font-bold text-slate-400 hover:text-red-500">Clear</button>
+          </div>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {history.map(record => (
+              <div key={record.key} className="text-xs px-3 py-2 rounded-xl bg-white border border-slate-100">
+                <div className="flex justify-between font-bold text-slate-600">
+                  <span>{record.ruleName} · {record.stationName}</span>
+                  <span className="text-slate-400">{format(new Date(record.sentAt), 'MMM d, h:mm a')}</span>
+                </div>
+                <p className="text-slate-500">{record.body}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertRules;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, HardDrive, Upload } from 'lucide-react';
+import { UserSettings } from '../types';
+import { buildBackup, ImportMode, mergeSettings, parseBackup } from '../services/settingsService';
+import { downloadFile } from '../services/exportService';
+
+interface BackupSettingsProps {
+  getSettings: () => UserSettings;
+  onRestore: (settings: UserSettings) => void;
+}
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ getSettings, onRestore }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleExport = () => {
+    const backup = buildBackup(getSettings());
+    downloadFile(`tidewatch-settings-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseBackup(await file.text());
+      onRestore(mode === 'merge' ? mergeSettings(getSettings(), imported) : imported);
+      setMessage({
+        ok: true,
+        text: `${mode === 'merge' ? 'Merged' : 'Restored'} ${imported.favorites.length} favorites, ${imported.alertRules.length} alert rules, ` +
+          `${imported.trips.length} trips and ${imported.importedSeries.length} imported stations.`
+      });
+    } catch (err) {
+      setMessage({ ok: false, text: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100">
+      <span className="font-bold text-slate-700 flex items-center gap-2 mb-2"><HardDrive size={16} className="text-blue-500" /> Backup & Restore</span>
+      <p className="text-xs text-slate-500 mb-3">
+        Save favorites, alert rules, trips, imported stations, station preferences and notification settings to a file, then load it on another device.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={handleExport} className="flex items-center gap-1.5 text-xs font-bold text-blue-600 bg-white border border-slate-200 hover:border-blue-400 px-3 py-1.5 rounded-lg">
+          <Download size={14} /> Export settings
+        </button>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as ImportMode)}
+          className="ml-auto bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-blue-600"
+          title="Merge keeps what's here and adds what's new; replace overwrites it"
+        >
+          <option value="merge">Merge with mine</option>
+          <option value="replace">Replace mine</option>
+        </select>
+        <label className="cursor-pointer flex items-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg">
+          <Upload size={14} /> Import
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+      {message && (
+        <p className={`mt-2 text-xs font-bold ${message.ok ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { addMonths, endOfMonth, format, isAfter, parseISO, startOfMonth } from 'date-fns';
+import { CalendarPlus, Download, Loader2 } from 'lucide-react';
+import { SavedStation, StationPrefs, TideTarget } from '../types';
+import { buildTideCalendar } from '../utils/ical';
+import { downloadFile, loadWindowsForRange } from '../services/exportService';
+
+interface CalendarExportProps {
+  station: SavedStation;
+  month: Date;
+  target: TideTarget; // in prefs.datum
+  prefs: StationPrefs;
+  leadDays: number;
+  // The station's zone; the date range is read on its clock
+  timeZone: string;
+}
+
+const dateInputClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-bold text-blue-600';
+
+const CalendarExport: React.FC<CalendarExportProps> = ({ station, month, target, prefs, leadDays, timeZone }) => {
+  const [from, setFrom] = useState(format(startOfMonth(month), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(endOfMonth(addMonths(month, 2)), 'yyyy-MM-dd'));
+  const [withAlarm, setWithAlarm] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleExport = async () => {
+    const start = parseISO(from);
+    const end = parseISO(to);
+    if (isAfter(start, end)) {
+      setMessage({ ok: false, text: 'The start date must come before the end date.' });
+      return;
+    }
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const windows = await loadWindowsForRange(station.id, start, end, target, prefs.datum, timeZone);
+      if (!windows.length) {
+        setMessage({ ok: false, text: 'No target windows in that range, so there is nothing to export.' });
+        return;
+      }
+      const ics = buildTideCalendar(windows, {
+        station,
+        target,
+        unit: prefs.unit,
+        datum: prefs.datum,
+        alarmDays: withAlarm ? leadDays : null,
+        timeZone
+      });
+      downloadFile(`tidewatch-${station.id}-${from}-${to}.ics`, ics, 'text/calendar;charset=utf-8');
+      setMessage({ ok: true, text: `Exported ${windows.length} windows.` });
+    } catch {
+      setMessage({ ok: false, text: 'Could not load predictions for the whole range.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100">
+      <span className="font-bold text-slate-700 flex items-center gap-2 mb-2"><CalendarPlus size={16} className="text-blue-500" /> Add to Calendar</span>
+      <p className="text-xs text-slate-500 mb-3">
+        Download the target windows for {station.name} as an .ics file. Importing a newer file updates the same events instead of duplicating them.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={dateInputClass} />
+        <span className="text-sm text-slate-400">–</span>
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={dateInputClass} />
+        <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-500">
+          <input type="checkbox" checked={withAlarm} onChange={(e) => setWithAlarm(e.target.checked)} />
+          Reminder {leadDays > 0 ? `${leadDays} day${leadDays > 1 ? 's' : ''} before` : 'an hour before'}
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={busy}
+          className="ml-auto flex items-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-3 py-1.5 rounded-lg"
+        >
+          {busy ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Export .ics
+        </button>
+      </div>
+      {message && (
+        <p className={`mt-2 text-xs font-bold ${message.ok ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default CalendarExport;
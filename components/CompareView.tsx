@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay } from 'date-fns';
+import { AlertCircle, Anchor, ArrowUpDown, Loader2 } from 'lucide-react';
+import { fetchPredictionsCached, monthRequest } from '../services/predictionCache';
+import { fetchStationTimeZone } from '../services/stationMetadataService';
+import { DailyTideData, LengthUnit, SavedStation, TidePrediction, TideTarget } from '../types';
+import { analyzePredictions } from '../utils/tideScan';
+import { targetHeight, targetMargin, describeTarget } from '../utils/targets';
+import { formatHeight, toUnit } from '../utils/units';
+
+interface CompareViewProps {
+  stations: SavedStation[];
+  month: Date;
+  // In MLLW, since each favorite has its own datum preference; for favorites without a target of their own
+  target: TideTarget;
+  unit: LengthUnit;
+  onSelectStation: (station: SavedStation) => void;
+}
+
+// What was fetched, kept apart from the target so editing it never refetches
+type StationLoad =
+  | { status: 'loading' }
+  | { status: 'ok'; timeZone: string; predictions: TidePrediction[] }
+  | { status: 'error'; message: string };
+
+type StationResult =
+  | { status: 'loading' }
+  | { status: 'ok'; days: DailyTideData[] }
+  | { status: 'error'; message: string };
+
+type SortKey = 'date' | 'height' | 'station';
+
+const CompareView: React.FC<CompareViewProps> = ({ stations, month, target, unit, onSelectStation }) => {
+  const [loads, setLoads] = useState<Record<string, StationLoad>>({});
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  // Every favorite is judged by its own profile
+  const targetFor = (s: SavedStation) => s.target ?? target;
+  // Favorites get a new array whenever a profile changes; only the set of stations matters for loading
+  const stationIds = stations.map(s => s.id).join('|');
+  // Picking another day in the same month hands over a new Date, which shouldn't refetch anything
+  const monthKey = format(month, 'yyyy-MM');
+
+  // Each station loads on its own, filling in its row as soon as it arrives, so one slow or bad ID only holds up itself
+  useEffect(() => {
+    let cancelled = false;
+    const ids = stationIds ? stationIds.split('|') : [];
+    setLoads(Object.fromEntries(ids.map(id => [id, { status: 'loading' } as StationLoad])));
+
+    ids.forEach(async id => {
+      let load: StationLoad;
+      try {
+        // Every station's days are its own local days, like the single-station calendar
+        const timeZone = await fetchStationTimeZone(id);
+        const result = await fetchPredictionsCached(monthRequest(id, month, 'hilo', 'MLLW', timeZone));
+        load = { status: 'ok', timeZone, predictions: result.predictions };
+      } catch {
+        load = { status: 'error', message: 'Could not load predictions' };
+      }
+      if (!cancelled) setLoads(prev => ({ ...prev, [id]: load }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stationIds, monthKey]);
+
+  const results = useMemo(() => {
+    const next: Record<string, StationResult> = {};
+    stations.forEach(s => {
+      const load = loads[s.id];
+      if (!load) return;
+      next[s.id] = load.status === 'ok'
+        ? { status: 'ok', days: analyzePredictions({ hilo: load.predictions }, targetFor(s), { fromMonth: month, displayZone: load.timeZone }).days }
+        : load;
+    });
+    return next;
+  }, [stations, loads, monthKey, target]);
+
+  const monthDays = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+
+  const bestDays = useMemo(() => {
+    const entries = stations.flatMap(s => {
+      const result = results[s.id];
+      if (result?.status !== 'ok') return [];
+      return result.days
+        .filter(d => d.meetsThreshold)
+        .map(d => ({ station: s, date: d.date, height: targetHeight(d, targetFor(s)), margin: targetMargin(d, targetFor(s)) ?? 0 }));
+    });
+
+    // Targets differ between stations, so rank by how far each day clears its own
+    const byHeight = (a: typeof entries[number], b: typeof entries[number]) => b.margin - a.margin;
+
+    return entries.sort((a, b) => {
+      if (sortKey === 'height') return byHeight(a, b);
+      if (sortKey === 'station') return a.station.name.localeCompare(b.station.name) || a.date.getTime() - b.date.getTime();
+      return a.date.getTime() - b.date.getTime() || byHeight(a, b);
+    });
+  }, [stations, results, sortKey, target]);
+
+  if (!stations.length) {
+    return (
+      <div className="py-20 flex flex-col items-center justify-center text-center">
+        <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mb-4 text-slate-300"><Anchor size={40} /></div>
+        <h4 className="text-lg font-bold text-slate-700">No favorites to compare</h4>
+        <p className="text-slate-500 max-w-xs mx-auto">Star a few stations and they will show up here side by side.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-slate-800">Favorites, each at its own target</h3>
+        <div className="text-sm font-medium text-slate-500 bg-slate-100 px-3 py-1 rounded-full">{stations.length} stations</div>
+      </div>
+
+      <div className="overflow-x-auto border border-slate-100 rounded-2xl">
+        <table className="text-[11px] border-collapse">
+          <thead>
+            <tr className="bg-slate-50/50">
+              <th className="sticky left-0 bg-slate-50 px-3 py-2 text-left text-xs font-bold text-slate-400 uppercase tracking-widest min-w-[160px]">Station</th>
+              {monthDays.map(day => (
+                <th key={day.toISOString()} className={`px-1 py-2 font-bold min-w-[36px] ${isSameDay(day, new Date()) ? 'text-blue-600' : 'text-slate-400'}`}>
+                  <div>{format(day, 'EEEEE')}</div>
+                  <div className="text-slate-600">{format(day, 'd')}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {stations.map(s => {
+              const result = results[s.id];
+              return (
+                <tr key={s.id} className="border-t border-slate-100">
+                  <td className="sticky left-0 bg-white px-3 py-2">
+                    <button onClick={() => onSelectStation(s)} className="text-sm font-bold text-slate-700 hover:text-blue-600 text-left">
+                      {s.nickname || s.name}
+                    </button>
+                    <div className="text-[10px] font-medium text-slate-400">{describeTarget(targetFor(s), unit)} MLLW</div>
+                  </td>
+                  {result?.status === 'ok' && result.days.map(d => (
+                    <td key={d.date.toISOString()} className="p-0.5 text-center">
+                      <div
+                        className={`rounded-md py-1 font-bold ${d.meetsThreshold ? 'bg-blue-500 text-white' : 'bg-slate-50 text-slate-400'}`}
+                        title={`${format(d.date, 'MMM d')}: ${formatHeight(targetHeight(d, targetFor(s)), unit)}`}
+                      >
+                        {toUnit(targetHeight(d, targetFor(s)), unit).toFixed(1)}
+                      </div>
+                    </td>
+                  ))}
+                  {result?.status === 'error' && (
+                    <td colSpan={monthDays.length} className="px-3 py-2 text-red-600 font-medium">
+                      <span className="flex items-center gap-1.5"><AlertCircle size={14} /> {result.message} for station {s.id}.</span>
+                    </td>
+                  )}
+                  {(!result || result.status === 'loading') && (
+                    <td colSpan={monthDays.length} className="px-3 py-2 text-slate-400">
+                      <span className="flex items-center gap-1.5"><Loader2 size={14} className="animate-spin" /> Loading…</span>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-8 mb-4">
+        <h3 className="text-lg font-bold text-slate-800">Best days across all my spots</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <ArrowUpDown size={14} className="text-slate-400" />
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-bold text-blue-600"
+          >
+            <option value="date">By date</option>
+            <option value="height">By margin</option>
+            <option value="station">By station</option>
+          </select>
+        </div>
+      </div>
+
+      {bestDays.length > 0 ? (
+        <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+          {bestDays.map(entry => (
+            <button
+              key={`${entry.station.id}_${entry.date.toISOString()}`}
+              onClick={() => onSelectStation(entry.station)}
+              className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-xl hover:border-blue-400 transition-all text-left"
+            >
+              <div className="flex flex-col">
+                <span className="text-xs font-bold text-blue-500 uppercase tracking-wider">{format(entry.date, 'EEE, MMM d')}</span>
+                <span className="text-sm font-bold text-slate-700">{entry.station.nickname || entry.station.name}</span>
+              </div>
+              <span className="text-lg font-black text-blue-600">{toUnit(entry.height, unit).toFixed(2)}<span className="text-xs text-slate-400 ml-0.5 uppercase">{unit}</span></span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">None of your favorites meet the target this month.</p>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
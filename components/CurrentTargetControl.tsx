@@ -0,0 +1,65 @@
+import React from 'react';
+import { CurrentEventType, CurrentTarget, SunMark } from '../types';
+
+interface CurrentTargetControlProps {
+  target: CurrentTarget;
+  onChange: (target: CurrentTarget) => void;
+}
+
+const numberInputClass = 'w-16 bg-blue-50 text-blue-700 font-bold rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-300';
+const selectClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-bold text-blue-600';
+
+const CurrentTargetControl: React.FC<CurrentTargetControlProps> = ({ target, onChange }) => {
+  const setKnots = (key: 'maxKnots' | 'minKnots', raw: string) => {
+    const value = parseFloat(raw);
+    onChange({ ...target, [key]: Number.isNaN(value) ? null : Math.max(0, value) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white border border-slate-200 rounded-2xl px-4 py-2 shadow-sm shrink-0">
+      <span className="text-sm font-semibold text-slate-500">Target:</span>
+      <select
+        value={target.event}
+        onChange={(e) => onChange({ ...target, event: e.target.value as CurrentEventType })}
+        className={selectClass}
+      >
+        <option value="slack">Slack</option>
+        <option value="flood">Max flood</option>
+        <option value="ebb">Max ebb</option>
+      </select>
+      {target.event !== 'slack' && (
+        <>
+          <input type="number" step="0.1" min={0} placeholder="min" value={target.minKnots ?? ''} onChange={(e) => setKnots('minKnots', e.target.value)} className={numberInputClass} title="At least this many knots" />
+          <span className="text-sm text-slate-400">–</span>
+          <input type="number" step="0.1" min={0} placeholder="max" value={target.maxKnots ?? ''} onChange={(e) => setKnots('maxKnots', e.target.value)} className={numberInputClass} title="At most this many knots" />
+          <span className="text-sm font-semibold text-slate-500">kn</span>
+        </>
+      )}
+      <select
+        value={target.nearSun ?? 'any'}
+        onChange={(e) => onChange({ ...target, nearSun: e.target.value === 'any' ? null : e.target.value as SunMark })}
+        className={selectClass}
+        title="Time of day"
+      >
+        <option value="any">Any time</option>
+        <option value="sunrise">Near sunrise</option>
+        <option value="sunset">Near sunset</option>
+      </select>
+      {target.nearSun && (
+        <select
+          value={target.withinMinutes}
+          onChange={(e) => onChange({ ...target, withinMinutes: parseInt(e.target.value, 10) })}
+          className={selectClass}
+          title={`How close to ${target.nearSun}`}
+        >
+          <option value="30">± 30 min</option>
+          <option value="60">± 1 hour</option>
+          <option value="90">± 90 min</option>
+          <option value="120">± 2 hours</option>
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default CurrentTargetControl;
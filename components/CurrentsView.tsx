@@ -0,0 +1,113 @@
+import React from 'react';
+import { eachDayOfInterval, endOfMonth, endOfWeek, format, isSameDay, isSameMonth, startOfMonth, startOfWeek } from 'date-fns';
+import { ArrowDownLeft, ArrowUpRight, Pause, Wind } from 'lucide-react';
+import { CurrentDay, CurrentEvent, CurrentTarget } from '../types';
+import { compassPoint, currentEventLabel, describeCurrentTarget, formatKnots } from '../utils/currents';
+import DaySkyInfo from './DaySkyInfo';
+
+interface CurrentsViewProps {
+  days: CurrentDay[]; // on the display clock
+  month: Date;
+  today: Date;
+  target: CurrentTarget;
+  mode: 'calendar' | 'list';
+}
+
+const WEEK_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EventIcon: React.FC<{ event: CurrentEvent; size: number }> = ({ event, size }) =>
+  event.type === 'slack' ? <Pause size={size} /> : event.type === 'flood' ? <ArrowUpRight size={size} /> : <ArrowDownLeft size={size} />;
+
+const eventClass = (event: CurrentEvent, matches: boolean) =>
+  matches
+    ? 'bg-blue-100 border-blue-200 text-blue-800'
+    : event.type === 'slack'
+      ? 'bg-slate-100 border-slate-200 text-slate-600'
+      : 'bg-indigo-50 border-indigo-100 text-indigo-500 opacity-60';
+
+const CurrentsView: React.FC<CurrentsViewProps> = ({ days, month, today, target, mode }) => {
+  if (mode === 'calendar') {
+    const calendarDays = eachDayOfInterval({ start: startOfWeek(startOfMonth(month)), end: endOfWeek(endOfMonth(month)) });
+    return (
+      <div className="animate-in fade-in duration-300">
+        <div className="grid grid-cols-7 border-b border-slate-100 bg-slate-50/50">
+          {WEEK_DAYS.map(day => <div key={day} className="py-4 text-center text-sm font-bold text-slate-400 uppercase tracking-widest">{day}</div>)}
+        </div>
+        <div className="grid grid-cols-7">
+          {calendarDays.map(day => {
+            const data = days.find(d => isSameDay(d.date, day));
+            const isActiveMonth = isSameMonth(day, month);
+            return (
+              <div
+                key={day.toISOString()}
+                className={`min-h-[140px] p-2 border-r border-b border-slate-100 ${!isActiveMonth ? 'bg-slate-50/20 opacity-30' : ''}`}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <span className={`text-lg font-bold w-8 h-8 flex items-center justify-center rounded-full ${isSameDay(day, today) ? 'bg-blue-600 text-white' : 'text-slate-700'}`}>{format(day, 'd')}</span>
+                  {isActiveMonth && !!data?.matches.length && (
+                    <div className="bg-blue-500 text-white px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-tighter flex items-center gap-1 shadow-sm">
+                      <Wind size={10} /> {data.matches.length}
+                    </div>
+                  )}
+                </div>
+                {isActiveMonth && data && (
+                  <div className="space-y-1 overflow-hidden">
+                    {data.events.map((event, idx) => (
+                      <div key={idx} className={`text-[11px] font-medium px-2 py-1 rounded-lg border flex justify-between items-center ${eventClass(event, data.matches.includes(event))}`}>
+                        <span className="flex items-center gap-1"><EventIcon event={event} size={10} />{format(event.time, 'h:mm')}</span>
+                        <span className="font-bold">{event.type === 'slack' ? 'Slack' : event.speed.toFixed(1)}</span>
+                      </div>
+                    ))}
+                    <DaySkyInfo sky={data.sky} compact />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  const matches = days.flatMap(d => d.matches.map(event => ({ day: d, event })));
+  return (
+    <div className="p-6 animate-in slide-in-from-right-4 fade-in duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-slate-800">Currents Meeting Target: {describeCurrentTarget(target)}</h3>
+        <div className="text-sm font-medium text-slate-500 bg-slate-100 px-3 py-1 rounded-full">{matches.length} found</div>
+      </div>
+      {matches.length > 0 ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {matches.map(({ day, event }) => (
+            <div key={event.time.toISOString()} className="flex flex-col p-4 bg-white border border-slate-200 rounded-2xl shadow-sm">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex flex-col">
+                  <span className="text-xs font-bold text-blue-500 uppercase tracking-wider">{format(event.time, 'EEEE')}</span>
+                  <span className="text-lg font-extrabold text-slate-800">{format(event.time, 'MMM d, yyyy')}</span>
+                </div>
+                <div className="w-12 h-12 rounded-2xl bg-blue-50 flex items-center justify-center text-blue-600"><EventIcon event={event} size={24} /></div>
+              </div>
+              <div className="mb-3"><DaySkyInfo sky={day.sky} /></div>
+              <div className="flex items-center justify-between p-3 bg-slate-50 rounded-xl mt-auto border border-slate-100">
+                <span className="text-sm font-bold text-slate-700">{currentEventLabel(event.type)} {format(event.time, 'h:mm a')}</span>
+                {event.type !== 'slack' && (
+                  <span className="text-lg font-black text-blue-600">
+                    {formatKnots(event.speed)}{event.direction !== null && <span className="text-xs font-bold text-slate-400 ml-1">{compassPoint(event.direction)}</span>}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="py-20 flex flex-col items-center justify-center text-center">
+          <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mb-4 text-slate-300"><Wind size={40} /></div>
+          <h4 className="text-lg font-bold text-slate-700">No matching currents this month</h4>
+          <p className="text-slate-500 max-w-xs mx-auto">Nothing in {format(month, 'MMMM')} meets "{describeCurrentTarget(target)}". Try a looser speed or a wider time around the sun.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurrentsView;
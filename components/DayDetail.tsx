@@ -0,0 +1,100 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { X, Clock, Waves } from 'lucide-react';
+import TideChart from './TideChart';
+import DaySkyInfo from './DaySkyInfo';
+import { DailyTideData, StationPrefs, TideTarget } from '../types';
+import { formatDuration } from '../utils/tideAnalysis';
+import { describeTarget } from '../utils/targets';
+import { datumLabel, formatHeight } from '../utils/units';
+
+interface DayDetailProps {
+  data: DailyTideData;
+  target: TideTarget;
+  prefs: StationPrefs;
+  stationName: string;
+  onClose: () => void;
+}
+
+const DayDetail: React.FC<DayDetailProps> = ({ data, target, prefs, stationName, onClose }) => (
+  <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+    <div
+      className="bg-white rounded-3xl shadow-2xl border border-slate-100 w-full max-w-3xl p-6 animate-in zoom-in-95 duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <span className="text-xs font-bold text-blue-500 uppercase tracking-wider">{format(data.date, 'EEEE')}</span>
+          <h3 className="text-2xl font-extrabold text-slate-800">{format(data.date, 'MMMM d, yyyy')}</h3>
+          <p className="text-sm text-slate-500 font-medium">{stationName} · heights above {datumLabel(prefs.datum)}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+      </div>
+
+      {data.sky && (
+        <div className="mb-4">
+          <DaySkyInfo sky={data.sky} />
+        </div>
+      )}
+
+      <TideChart
+        day={data.date}
+        curve={data.curve}
+        events={data.events}
+        windows={data.windows}
+        target={target}
+        unit={prefs.unit}
+        observed={data.observed?.curve}
+      />
+
+      {data.observed && (
+        <div className="flex flex-wrap gap-2 mt-4 text-xs font-bold">
+          <span className="px-3 py-1.5 rounded-full bg-orange-50 border border-orange-100 text-orange-700">
+            Observed {formatHeight(data.observed.minHeight, prefs.unit)} – {formatHeight(data.observed.maxHeight, prefs.unit)}
+          </span>
+          <span className="px-3 py-1.5 rounded-full bg-slate-50 border border-slate-100 text-slate-600">
+            Surge {data.observed.minResidual >= 0 ? '+' : ''}{formatHeight(data.observed.minResidual, prefs.unit)} to {data.observed.maxResidual >= 0 ? '+' : ''}{formatHeight(data.observed.maxResidual, prefs.unit)}
+          </span>
+          {data.observed.surpriseHit && (
+            <span className="px-3 py-1.5 rounded-full bg-red-50 border border-red-100 text-red-700">
+              Observed water met the target even though the prediction didn't
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2 mt-6">
+        <div>
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Highs &amp; Lows</h4>
+          <div className="space-y-1">
+            {data.events.map((event, idx) => (
+              <div key={idx} className="flex justify-between items-center text-sm px-3 py-2 rounded-xl bg-slate-50 border border-slate-100">
+                <span className="font-semibold text-slate-600">{event.type === 'H' ? 'High' : 'Low'} · {format(event.time, 'h:mm a')}</span>
+                <span className="font-bold text-slate-800">{formatHeight(event.height, prefs.unit)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{describeTarget(target, prefs.unit)}</h4>
+          {data.windows.length > 0 ? (
+            <div className="space-y-1">
+              {data.windows.map((w, idx) => (
+                <div key={idx} className="flex justify-between items-center text-sm px-3 py-2 rounded-xl bg-blue-50 border border-blue-100 text-blue-800">
+                  <span className="flex items-center gap-1.5 font-semibold"><Clock size={14} />{format(w.start, 'h:mm a')} – {format(w.end, 'h:mm a')}</span>
+                  <span className="flex items-center gap-1.5 font-bold"><Waves size={14} />{formatDuration(w.durationMinutes)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">The water never meets the target on this day.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default DayDetail;
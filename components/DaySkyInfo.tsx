@@ -0,0 +1,55 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Sun, Sunrise, Sunset } from 'lucide-react';
+import { DaySky } from '../types';
+import { moonEmoji } from '../utils/moon';
+
+interface DaySkyInfoProps {
+  sky: DaySky;
+  compact?: boolean;
+}
+
+const shortTime = (date: Date) => format(date, 'h:mma').replace(':00', '').toLowerCase().slice(0, -1);
+
+const CycleTag: React.FC<{ cycle: DaySky['cycle'] }> = ({ cycle }) =>
+  cycle ? (
+    <span className={`px-1.5 rounded-full font-bold uppercase tracking-tighter ${cycle === 'spring' ? 'bg-teal-50 text-teal-700' : 'bg-slate-100 text-slate-500'}`}>
+      {cycle}
+    </span>
+  ) : null;
+
+const DaySkyInfo: React.FC<DaySkyInfoProps> = ({ sky, compact = false }) => {
+  const { sun, moon, cycle } = sky;
+
+  if (compact) {
+    return (
+      <div className="flex items-center justify-between gap-1 text-[10px] text-slate-400 font-medium mt-1">
+        <span title={moon.name}>{moonEmoji(moon.phase)}</span>
+        {sun?.sunrise && sun.sunset && <span>{shortTime(sun.sunrise)}–{shortTime(sun.sunset)}</span>}
+        <CycleTag cycle={cycle} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500 font-medium">
+      {sun?.sunrise && sun.sunset && (
+        <>
+          <span className="flex items-center gap-1" title={sun.dawn ? `Civil dawn ${format(sun.dawn, 'h:mm a')}` : undefined}>
+            <Sunrise size={14} className="text-amber-500" /> {format(sun.sunrise, 'h:mm a')}
+          </span>
+          <span className="flex items-center gap-1" title={sun.dusk ? `Civil dusk ${format(sun.dusk, 'h:mm a')}` : undefined}>
+            <Sunset size={14} className="text-orange-500" /> {format(sun.sunset, 'h:mm a')}
+          </span>
+        </>
+      )}
+      {sun?.polar && (
+        <span className="flex items-center gap-1"><Sun size={14} className="text-amber-500" /> {sun.polar === 'day' ? 'Sun up all day' : 'Sun down all day'}</span>
+      )}
+      <span>{moonEmoji(moon.phase)} {moon.name} · {Math.round(moon.illumination * 100)}%</span>
+      <CycleTag cycle={cycle} />
+    </div>
+  );
+};
+
+export default DaySkyInfo;
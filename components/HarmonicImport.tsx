@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Cpu, Upload, Trash2 } from 'lucide-react';
+import { SavedStation } from '../types';
+import { getHarmonicModel, importHarcon, removeHarmonicModel } from '../services/harmonicService';
+
+interface HarmonicImportProps {
+  station: SavedStation;
+  onChange: () => void;
+}
+
+const HarmonicImport: React.FC<HarmonicImportProps> = ({ station, onChange }) => {
+  const [datumOffset, setDatumOffset] = useState('0');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const model = getHarmonicModel(station.id);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importHarcon(station.id, await file.text(), parseFloat(datumOffset) || 0);
+      setMessage({ ok: true, text: `Imported ${imported.constituents.length} constituents.` });
+      onChange();
+    } catch (err) {
+      setMessage({ ok: false, text: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-bold text-slate-700 flex items-center gap-2"><Cpu size={16} className="text-blue-500" /> Offline Predictions</span>
+        {model && (
+          <button
+            onClick={() => {
+              removeHarmonicModel(station.id);
+              setMessage(null);
+              onChange();
+            }}
+            className="text-slate-400 hover:text-red-500"
+            title="Remove harmonic constants"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        {model
+          ? `${model.constituents.length} harmonic constituents stored for ${station.name}. Predictions are computed on this device past NOAA's range or when NOAA is unreachable.`
+          : `Import NOAA's harcon.json for ${station.name} to compute tides on this device past NOAA's range or when NOAA is unreachable.`}
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs font-semibold text-slate-500">MSL above MLLW</label>
+        <input
+          type="number"
+          step="0.01"
+          value={datumOffset}
+          onChange={(e) => setDatumOffset(e.target.value)}
+          className="w-20 bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-bold text-blue-600"
+        />
+        <span className="text-xs text-slate-500">ft</span>
+        <label className="ml-auto cursor-pointer flex items-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg">
+          <Upload size={14} /> {model ? 'Replace' : 'Import'} harcon.json
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+      {message && (
+        <p className={`mt-2 text-xs font-bold ${message.ok ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default HarmonicImport;
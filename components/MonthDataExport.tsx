@@ -0,0 +1,51 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { FileSpreadsheet } from 'lucide-react';
+import { DailyTideData, SavedStation, StationPrefs, TideTarget } from '../types';
+import { downloadFile } from '../services/exportService';
+import { dayRecordsToCsv, toDayRecord } from '../utils/dataExport';
+import { describeTarget } from '../utils/targets';
+
+interface MonthDataExportProps {
+  station: SavedStation;
+  month: Date;
+  days: DailyTideData[];
+  target: TideTarget; // in prefs.datum
+  prefs: StationPrefs;
+  timeZone: string; // the zone the days are on the clock of
+}
+
+const MonthDataExport: React.FC<MonthDataExportProps> = ({ station, month, days, target, prefs, timeZone }) => {
+  const baseName = `tidewatch-${station.id}-${format(month, 'yyyy-MM')}`;
+  const records = () => days.map(d => toDayRecord(d, target, prefs.unit));
+
+  const exportCsv = () => downloadFile(`${baseName}.csv`, dayRecordsToCsv(records(), prefs.unit), 'text/csv;charset=utf-8');
+
+  const exportJson = () => {
+    const doc = {
+      station,
+      month: format(month, 'yyyy-MM'),
+      datum: prefs.datum,
+      unit: prefs.unit,
+      timeZone,
+      target: describeTarget(target, prefs.unit),
+      days: records()
+    };
+    downloadFile(`${baseName}.json`, JSON.stringify(doc, null, 2), 'application/json');
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100">
+      <span className="font-bold text-slate-700 flex items-center gap-2 mb-2"><FileSpreadsheet size={16} className="text-blue-500" /> Month Data</span>
+      <p className="text-xs text-slate-500 mb-3">
+        Download {format(month, 'MMMM yyyy')} at {station.name}: each day's highs, lows and target windows, for spreadsheets or scripts.
+      </p>
+      <div className="flex items-center gap-2">
+        <button onClick={exportCsv} disabled={!days.length} className="text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-3 py-1.5 rounded-lg">CSV</button>
+        <button onClick={exportJson} disabled={!days.length} className="text-xs font-bold text-blue-600 bg-white border border-slate-200 hover:border-blue-400 disabled:opacity-50 px-3 py-1.5 rounded-lg">JSON</button>
+      </div>
+    </div>
+  );
+};
+
+export default MonthDataExport;
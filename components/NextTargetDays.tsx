@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Search, X } from 'lucide-react';
+import { findQualifyingDays, MAX_SEARCH_MONTHS } from '../services/seasonService';
+import { DailyTideData, StationPrefs, TideTarget } from '../types';
+import { qualifyingEvents } from '../utils/tideScan';
+import { shortHeight } from '../utils/units';
+
+interface NextTargetDaysProps {
+  stationId: string;
+  from: Date; // today on the display clock
+  target: TideTarget; // in prefs.datum
+  prefs: StationPrefs;
+  timeZone: string;
+  displayZone: string;
+  onSelectDay: (day: Date) => void;
+}
+
+const NextTargetDays: React.FC<NextTargetDaysProps> = ({ stationId, from, target, prefs, timeZone, displayZone, onSelectDay }) => {
+  const [count, setCount] = useState(10);
+  const [results, setResults] = useState<DailyTideData[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failed, setFailed] = useState(false);
+  const search = useRef<AbortController | null>(null);
+
+  // A new station or target makes old results meaningless
+  useEffect(() => {
+    search.current?.abort();
+    setResults(null);
+    setProgress(null);
+    return () => search.current?.abort();
+  }, [stationId, target, prefs.datum, displayZone]);
+
+  const runSearch = async () => {
+    search.current?.abort();
+    const controller = new AbortController();
+    search.current = controller;
+    setResults(null);
+    setFailed(false);
+    setProgress({ done: 0, total: count });
+    try {
+      const found = await findQualifyingDays(stationId, from, count, target, {
+        datum: prefs.datum,
+        timeZone,
+        displayZone,
+        signal: controller.signal,
+        onProgress: (done, total) => {
+          if (!controller.signal.aborted) setProgress({ done, total });
+        }
+      });
+      if (!controller.signal.aborted) setResults(found);
+    } catch {
+      if (!controller.signal.aborted) setFailed(true);
+    } finally {
+      if (search.current === controller) setProgress(null);
+    }
+  };
+
+  const stop = () => {
+    search.current?.abort();
+    setProgress(null);
+  };
+
+  return (
+    <div className="p-6 border-t border-slate-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800">Next days that meet my target</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-slate-500 font-medium">Find</span>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={count}
+            onChange={(e) => setCount(Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-bold text-blue-600"
+          />
+          {progress === null ? (
+            <button onClick={runSearch} className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 transition-all">
+              <Search size={14} /> Search
+            </button>
+          ) : (
+            <button onClick={stop} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg font-bold hover:bg-slate-200 transition-all">
+              <X size={14} /> Stop
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress !== null && (
+        <div className="mb-4">
+          <p className="text-xs font-medium text-slate-500 mb-1 flex items-center gap-1.5">
+            <Loader2 size={12} className="animate-spin" /> Found {progress.done} of {progress.total} days, looking up to {MAX_SEARCH_MONTHS} months ahead…
+          </p>
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {failed && <p className="text-sm text-red-600 font-medium">Could not load predictions far enough ahead. Try again later.</p>}
+
+      {results && (results.length ? (
+        <>
+          {results.length < count && (
+            <p className="text-sm text-slate-500 mb-3">Only {results.length} days in the next {MAX_SEARCH_MONTHS} months meet the target.</p>
+          )}
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {results.map(d => (
+              <button
+                key={d.date.toISOString()}
+                onClick={() => onSelectDay(d.date)}
+                className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-xl hover:border-blue-400 transition-all text-left"
+              >
+                <span className="text-sm font-bold text-slate-700">{format(d.date, 'EEE, MMM d, yyyy')}</span>
+                <span className="text-xs font-bold text-blue-600">
+                  {qualifyingEvents(d, target).map(e => `${format(e.time, 'h:mm a')} ${shortHeight(e.height, prefs.unit)}`).join(' · ')}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-slate-500">No day in the next {MAX_SEARCH_MONTHS} months meets the target.</p>
+      ))}
+    </div>
+  );
+};
+
+export default NextTargetDays;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { format, isAfter } from 'date-fns';
+import { Activity, ArrowDown, ArrowUp, Loader2 } from 'lucide-react';
+import { fetchRecentObserved } from '../services/observedService';
+import { DailyTideData, SavedStation, StationPrefs, TideEvent } from '../types';
+import { interpolateHeight } from '../utils/tideAnalysis';
+import { toZonedTime } from '../utils/timeZones';
+import { shortHeight, toUnit } from '../utils/units';
+
+interface NowPanelProps {
+  station: SavedStation;
+  prefs: StationPrefs;
+  // The station's own zone, which NOAA reports in
+  timeZone: string;
+  // The zone `today` is on the clock of
+  displayZone: string;
+  today?: DailyTideData;
+}
+
+// NOAA publishes a new observation every six minutes
+const REFRESH_MS = 6 * 60 * 1000;
+
+const NowPanel: React.FC<NowPanelProps> = ({ station, prefs, timeZone, displayZone, today }) => {
+  const [recent, setRecent] = useState<TideEvent[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      fetchRecentObserved(station.id, 3, prefs.datum, timeZone)
+        .then(obs => {
+          if (cancelled) return;
+          setRecent(obs.map(o => ({ ...o, time: toZonedTime(o.time, displayZone) })));
+          setFailed(false);
+        })
+        .catch(() => {
+          if (!cancelled) setFailed(true);
+        });
+    };
+
+    setRecent(null);
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [station.id, prefs.datum, timeZone, displayZone]);
+
+  const latest = recent?.[recent.length - 1];
+  const previous = recent && recent.length > 1 ? recent[recent.length - 2] : undefined;
+  const predicted = latest && today ? interpolateHeight(today.curve, latest.time) : null;
+  const residual = latest && predicted !== null ? latest.height - predicted : null;
+  const rising = latest && previous ? latest.height >= previous.height : undefined;
+  const nextEvent = today?.events.find(e => isAfter(e.time, toZonedTime(new Date(), displayZone)));
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-5 mb-8 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2"><Activity size={18} className="text-orange-500" /> Right now at {station.name}</h3>
+        {latest && <span className="text-xs font-medium text-slate-400">Observed {format(latest.time, 'h:mm a')}</span>}
+      </div>
+
+      {failed && <p className="text-sm text-slate-500">This station isn't reporting observed water levels right now.</p>}
+      {!failed && !recent && <p className="text-sm text-slate-400 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Fetching latest reading…</p>}
+      {!failed && recent && !latest && <p className="text-sm text-slate-500">No observations in the last few hours.</p>}
+
+      {latest && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="p-3 bg-orange-50 rounded-xl border border-orange-100">
+            <span className="text-xs font-bold text-orange-600 uppercase tracking-wider">Observed</span>
+            <div className="flex items-center gap-1 text-2xl font-black text-orange-700">
+              {toUnit(latest.height, prefs.unit).toFixed(2)}<span className="text-xs text-orange-400 uppercase">{prefs.unit}</span>
+              {rising !== undefined && (rising ? <ArrowUp size={18} /> : <ArrowDown size={18} />)}
+            </div>
+          </div>
+          <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Predicted</span>
+            <div className="text-2xl font-black text-slate-700">{predicted !== null ? toUnit(predicted, prefs.unit).toFixed(2) : '—'}<span className="text-xs text-slate-400 uppercase">{prefs.unit}</span></div>
+          </div>
+          <div className={`p-3 rounded-xl border ${residual !== null && Math.abs(residual) >= 0.5 ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-100'}`}>
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Surge</span>
+            <div className={`text-2xl font-black ${residual !== null && Math.abs(residual) >= 0.5 ? 'text-red-600' : 'text-slate-700'}`}>
+              {residual !== null ? `${residual >= 0 ? '+' : ''}${toUnit(residual, prefs.unit).toFixed(2)}` : '—'}<span className="text-xs text-slate-400 uppercase">{prefs.unit}</span>
+            </div>
+          </div>
+          <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Next {nextEvent?.type === 'L' ? 'Low' : 'High'}</span>
+            <div className="text-lg font-black text-slate-700">
+              {nextEvent ? `${format(nextEvent.time, 'h:mm a')} · ${shortHeight(nextEvent.height, prefs.unit)}` : '—'}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NowPanel;
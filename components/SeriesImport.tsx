@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, MapPin, Trash2, Upload } from 'lucide-react';
+import { LengthUnit, NOAAStation } from '../types';
+import { importSeries, listImportedStations, removeImportedSeries } from '../services/importProvider';
+import { columnsOf, ColumnMapping, guessMapping, readRows, toSeries } from '../utils/seriesImport';
+import { browserTimeZone, isValidTimeZone } from '../utils/timeZones';
+
+interface SeriesImportProps {
+  onOpen: (station: NOAAStation) => void;
+  onRemove: (stationId: string) => void;
+}
+
+interface Draft {
+  fileName: string;
+  rows: Record<string, unknown>[];
+  columns: string[];
+  mapping: ColumnMapping;
+  unit: LengthUnit;
+  timeZone: string;
+  name: string;
+  lat: string;
+  lng: string;
+}
+
+const inputClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-semibold text-slate-700';
+
+// Turns a logger or foreign-agency export into a station that works like a NOAA one
+const SeriesImport: React.FC<SeriesImportProps> = ({ onOpen, onRemove }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const imported = listImportedStations();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const rows = readRows(await file.text(), file.name);
+      const columns = columnsOf(rows);
+      setDraft({
+        fileName: file.name,
+        rows,
+        columns,
+        mapping: guessMapping(columns),
+        unit: 'ft',
+        timeZone: browserTimeZone(),
+        name: file.name.replace(/\.(csv|json|txt)$/i, ''),
+        lat: '',
+        lng: ''
+      });
+      setMessage(null);
+    } catch (err) {
+      setMessage({ ok: false, text: (err as Error).message });
+    }
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const lat = parseFloat(draft.lat);
+    const lng = parseFloat(draft.lng);
+    const problem = !draft.name.trim()
+      ? 'Give the station a name.'
+      : !isValidTimeZone(draft.timeZone)
+        ? `${draft.timeZone} isn't a time zone. Use a name like Europe/Lisbon.`
+        : !(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)
+          ? 'Enter the gauge latitude and longitude in decimal degrees.'
+          : null;
+    if (problem) {
+      setMessage({ ok: false, text: problem });
+      return;
+    }
+    try {
+      const points = toSeries(draft.rows, { mapping: draft.mapping, unit: draft.unit, timeZone: draft.timeZone });
+      const series = importSeries({ name: draft.name.trim(), state: '', lat, lng, timeZone: draft.timeZone }, points);
+      setMessage({ ok: true, text: `Imported ${points.length} readings with ${series.extremes.length} highs and lows.` });
+      setDraft(null);
+      onOpen(series.station);
+    } catch (err) {
+      setMessage({ ok: false, text: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100">
+      <span className="font-bold text-slate-700 flex items-center gap-2 mb-2"><FileSpreadsheet size={16} className="text-blue-500" /> Imported Stations</span>
+      <p className="text-xs text-slate-500 mb-3">
+        Bring in water levels from your own logger or another agency as a CSV or JSON time series. Highs and lows are found automatically.
+      </p>
+
+      {imported.length > 0 && (
+        <div className="space-y-1.5 mb-3">
+          {imported.map(s => (
+            <div key={s.id} className="flex items-center gap-2 text-sm">
+              <button onClick={() => onOpen(s)} className="flex-1 text-left font-bold text-blue-600 hover:underline truncate">{s.name}</button>
+              <span className="text-xs text-slate-400">{s.timeZone}</span>
+              <button
+                onClick={() => {
+                  removeImportedSeries(s.id);
+                  onRemove(s.id);
+                }}
+                className="text-slate-400 hover:text-red-500"
+                title="Remove imported station"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft ? (
+        <div className="space-y-2 text-xs font-semibold text-slate-500">
+          <p className="text-slate-700">{draft.fileName} · {draft.rows.length} rows</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label>Time</label>
+            <select value={draft.mapping.time} onChange={(e) => setDraft({ ...draft, mapping: { ...draft.mapping, time: e.target.value } })} className={inputClass}>
+              {draft.columns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <label>Height</label>
+            <select value={draft.mapping.height} onChange={(e) => setDraft({ ...draft, mapping: { ...draft.mapping, height: e.target.value } })} className={inputClass}>
+              {draft.columns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select value={draft.unit} onChange={(e) => setDraft({ ...draft, unit: e.target.value as LengthUnit })} className={inputClass}>
+              <option value="ft">feet</option>
+              <option value="m">meters</option>
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label title="Used for times without a UTC offset, and as the station's clock">Time zone</label>
+            <input type="text" value={draft.timeZone} onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })} className={`${inputClass} w-40`} />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="text" value={draft.name} placeholder="Station name" onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${inputClass} flex-1`} />
+            <MapPin size={14} />
+            <input type="number" step="any" value={draft.lat} placeholder="Lat" onChange={(e) => setDraft({ ...draft, lat: e.target.value })} className={`${inputClass} w-24`} />
+            <input type="number" step="any" value={draft.lng} placeholder="Lng" onChange={(e) => setDraft({ ...draft, lng: e.target.value })} className={`${inputClass} w-24`} />
+          </div>
+          <p className="font-normal">Heights are treated as MLLW, so other datums aren't available for imported stations.</p>
+          <div className="flex gap-2">
+            <button onClick={save} className="text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg">Import</button>
+            <button onClick={() => setDraft(null)} className="text-xs font-bold text-slate-500 hover:text-slate-700 px-3 py-1.5">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <label className="cursor-pointer inline-flex items-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg">
+          <Upload size={14} /> Import CSV or JSON
+          <input type="file" accept=".csv,.json,.txt,text/csv,application/json" onChange={handleFile} className="hidden" />
+        </label>
+      )}
+      {message && (
+        <p className={`mt-2 text-xs font-bold ${message.ok ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default SeriesImport;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, Info, Loader2, MapPin, X } from 'lucide-react';
+import { LengthUnit, NOAAStation, StationDetails as Details, StationKind } from '../types';
+import { fetchStationDetails } from '../services/stationMetadataService';
+import { describeOffset } from '../utils/subordinate';
+import { formatCoordinates, stationLabel } from '../utils/stationSearch';
+import { datumLabel } from '../utils/units';
+
+interface StationDetailsProps {
+  stationId: string;
+  unit: LengthUnit;
+  onOpen: (station: NOAAStation) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<StationKind, { label: string; detail: string }> = {
+  reference: { label: 'Reference station', detail: 'Predicted from its own harmonic constants.' },
+  subordinate: { label: 'Subordinate station', detail: 'Predicted by applying time and height offsets to a reference station. Curves between highs and lows are interpolated.' },
+  currents: { label: 'Current station', detail: 'Predicts tidal current speed and direction, not water level.' },
+  imported: { label: 'Imported series', detail: 'Water levels from a file imported on this device.' },
+  unknown: { label: 'Station type unknown', detail: 'NOAA did not say how this station is predicted.' }
+};
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{label}</p>
+    <div className="text-sm font-semibold text-slate-700">{children}</div>
+  </div>
+);
+
+const StationDetails: React.FC<StationDetailsProps> = ({ stationId, unit, onOpen, onClose }) => {
+  const [details, setDetails] = useState<Details | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetails(null);
+    setFailed(false);
+    fetchStationDetails(stationId)
+      .then(next => {
+        if (!cancelled) setDetails(next);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId]);
+
+  const kind = details ? KIND_LABELS[details.kind] : null;
+  const { station, offsets, reference } = details ?? {};
+  const isNoaa = details && details.kind !== 'imported';
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 mb-8 shadow-xl animate-in zoom-in-95 duration-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Info className="w-5 h-5 text-blue-500" /> {station ? stationLabel(station) : 'Station'} details
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+      </div>
+
+      {!details && !failed && <p className="flex items-center gap-2 text-sm text-slate-500"><Loader2 size={16} className="animate-spin" /> Loading station metadata…</p>}
+      {failed && <p className="text-sm text-red-600 font-medium">Could not load details for station {stationId}.</p>}
+
+      {details && kind && station && (
+        <div className="grid gap-5 md:grid-cols-3">
+          <Row label="Type">
+            <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs font-bold">{kind.label}</span>
+            <p className="mt-1 text-xs font-normal text-slate-500">{kind.detail}</p>
+          </Row>
+
+          <Row label="Location">
+            <p className="flex items-center gap-1.5"><MapPin size={14} className="text-slate-400" /> {formatCoordinates(station)}</p>
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${station.lat}&mlon=${station.lng}#map=12/${station.lat}/${station.lng}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-1 inline-flex items-center gap-1 text-xs font-bold text-blue-600 hover:underline"
+            >
+              View on map <ExternalLink size={12} />
+            </a>
+            {station.timeZone && <p className="mt-1 text-xs font-normal text-slate-500">Local time: {station.timeZone}</p>}
+          </Row>
+
+          <Row label="Station">
+            <p>ID {station.id}</p>
+            {details.established && <p className="text-xs font-normal text-slate-500">Records since {details.established}</p>}
+            {isNoaa && (
+              <a
+                href={`https://tidesandcurrents.noaa.gov/stationhome.html?id=${station.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 inline-flex items-center gap-1 text-xs font-bold text-blue-600 hover:underline"
+              >
+                NOAA station page <ExternalLink size={12} />
+              </a>
+            )}
+          </Row>
+
+          {offsets && (
+            <Row label="Offsets">
+              <p>
+                From{' '}
+                {reference ? (
+                  <button onClick={() => onOpen(reference)} className="text-blue-600 hover:underline">{stationLabel(reference)}</button>
+                ) : (
+                  <span>station {offsets.referenceId}</span>
+                )}
+              </p>
+              <p className="text-xs font-normal text-slate-500">High tide {describeOffset(offsets, 'H', unit)}</p>
+              <p className="text-xs font-normal text-slate-500">Low tide {describeOffset(offsets, 'L', unit)}</p>
+            </Row>
+          )}
+
+          {details.datums.length > 0 && (
+            <Row label="Datums">
+              <div className="flex flex-wrap gap-1">
+                {details.datums.map(d => <span key={d} className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs font-bold" title={datumLabel(d)}>{d}</span>)}
+              </div>
+            </Row>
+          )}
+
+          {details.products.length > 0 && (
+            <Row label="Products">
+              <p className="text-xs font-normal text-slate-500">{details.products.join(' · ')}</p>
+            </Row>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StationDetails;
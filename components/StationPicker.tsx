@@ -0,0 +1,44 @@
+import React from 'react';
+import { MapPin, X } from 'lucide-react';
+import { NOAAStation } from '../types';
+import { stationLabel } from '../utils/stationSearch';
+
+export interface StationChoice {
+  station: NOAAStation;
+  detail?: string;
+}
+
+interface StationPickerProps {
+  title: string;
+  choices: StationChoice[];
+  onPick: (station: NOAAStation) => void;
+  onClose: () => void;
+}
+
+const StationPicker: React.FC<StationPickerProps> = ({ title, choices, onPick, onClose }) => (
+  <div className="bg-white border border-slate-200 rounded-3xl p-5 mb-8 shadow-xl animate-in zoom-in-95 duration-200">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="font-bold text-slate-800 flex items-center gap-2"><MapPin size={18} className="text-blue-500" /> {title}</h3>
+      <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+        <X size={20} />
+      </button>
+    </div>
+    <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+      {choices.map(({ station, detail }) => (
+        <button
+          key={station.id}
+          onClick={() => onPick(station)}
+          className="flex items-center justify-between p-3 bg-slate-50 border border-slate-100 rounded-xl hover:border-blue-400 hover:bg-white transition-all text-left"
+        >
+          <div className="flex flex-col">
+            <span className="text-sm font-bold text-slate-700">{stationLabel(station)}</span>
+            <span className="text-xs text-slate-400 font-medium">Station {station.id}</span>
+          </div>
+          {detail && <span className="text-xs font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full">{detail}</span>}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default StationPicker;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { UserRound, X } from 'lucide-react';
+import { LengthUnit, SavedStation } from '../types';
+import { describeTarget } from '../utils/targets';
+
+interface StationProfileEditorProps {
+  favorite: SavedStation;
+  unit: LengthUnit;
+  onSave: (profile: { nickname?: string; notes?: string }) => void;
+  onClose: () => void;
+}
+
+const StationProfileEditor: React.FC<StationProfileEditorProps> = ({ favorite, unit, onSave, onClose }) => {
+  const [nickname, setNickname] = useState(favorite.nickname ?? '');
+  const [notes, setNotes] = useState(favorite.notes ?? '');
+
+  const save = () => {
+    onSave({ nickname: nickname.trim() || undefined, notes: notes.trim() || undefined });
+    onClose();
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 mb-8 shadow-xl animate-in zoom-in-95 duration-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <UserRound className="w-5 h-5 text-blue-500" /> {favorite.name} profile
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="flex flex-col gap-1 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          Nickname
+          <input
+            type="text"
+            value={nickname}
+            placeholder={favorite.name}
+            onChange={(e) => setNickname(e.target.value)}
+            className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-semibold text-slate-700 normal-case tracking-normal"
+          />
+        </label>
+        <div className="flex flex-col gap-1 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          Target
+          <p className="px-3 py-2 text-sm font-semibold text-slate-700 normal-case tracking-normal">
+            {favorite.target ? `${describeTarget(favorite.target, unit)} MLLW` : 'Not set yet'}
+            <span className="block text-xs font-medium text-slate-400">Whatever you set with the target control is kept for this station.</span>
+          </p>
+        </div>
+        <label className="md:col-span-2 flex flex-col gap-1 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          Notes
+          <textarea
+            value={notes}
+            rows={3}
+            placeholder="Launch spots, parking, what the target is for…"
+            onChange={(e) => setNotes(e.target.value)}
+            className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 normal-case tracking-normal"
+          />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2 mt-4">
+        <button onClick={onClose} className="text-sm font-bold text-slate-500 hover:text-slate-700 px-4 py-2">Cancel</button>
+        <button onClick={save} className="text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-xl">Save profile</button>
+      </div>
+    </div>
+  );
+};
+
+export default StationProfileEditor;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { StationPrefs, TargetMode, TideTarget, Datum, LengthUnit } from '../types';
+import { DATUMS, fromUnit, roundedHeight } from '../utils/units';
+
+interface TargetControlProps {
+  target: TideTarget; // feet, relative to prefs.datum
+  prefs: StationPrefs;
+  onChange: (target: TideTarget) => void;
+  onPrefsChange: (prefs: StationPrefs) => void;
+}
+
+const numberInputClass = 'w-16 bg-blue-50 text-blue-700 font-bold rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-300';
+const selectClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-bold text-blue-600';
+
+const TargetControl: React.FC<TargetControlProps> = ({ target, prefs, onChange, onPrefsChange }) => {
+  const setBound = (key: 'high' | 'low', raw: string) => {
+    const value = parseFloat(raw);
+    if (!Number.isNaN(value)) onChange({ ...target, [key]: fromUnit(value, prefs.unit) });
+  };
+
+  const step = prefs.unit === 'm' ? '0.05' : '0.1';
+  const lowInput = (
+    <input type="number" step={step} value={roundedHeight(target.low, prefs.unit)} onChange={(e) => setBound('low', e.target.value)} className={numberInputClass} />
+  );
+  const highInput = (
+    <input type="number" step={step} value={roundedHeight(target.high, prefs.unit)} onChange={(e) => setBound('high', e.target.value)} className={numberInputClass} />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white border border-slate-200 rounded-2xl px-4 py-2 shadow-sm shrink-0">
+      <span className="text-sm font-semibold text-slate-500">Target:</span>
+      <select
+        value={target.mode}
+        onChange={(e) => onChange({ ...target, mode: e.target.value as TargetMode })}
+        className={selectClass}
+      >
+        <option value="high">High above</option>
+        <option value="low">Low below</option>
+        <option value="range">Between</option>
+      </select>
+      {target.mode === 'high' && highInput}
+      {target.mode === 'low' && lowInput}
+      {target.mode === 'range' && (
+        <>
+          {lowInput}
+          <span className="text-sm text-slate-400">–</span>
+          {highInput}
+        </>
+      )}
+      <select
+        value={prefs.unit}
+        onChange={(e) => onPrefsChange({ ...prefs, unit: e.target.value as LengthUnit })}
+        className={selectClass}
+        title="Units"
+      >
+        <option value="ft">ft</option>
+        <option value="m">m</option>
+      </select>
+      <select
+        value={prefs.datum}
+        onChange={(e) => onPrefsChange({ ...prefs, datum: e.target.value as Datum })}
+        className={selectClass}
+        title="Vertical datum"
+      >
+        {DATUMS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default TargetControl;
@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { format, startOfDay, differenceInMinutes } from 'date-fns';
+import { LengthUnit, TideEvent, ThresholdWindow, TideTarget } from '../types';
+import { targetLevels } from '../utils/targets';
+import { roundedHeight, shortHeight } from '../utils/units';
+
+interface TideChartProps {
+  day: Date;
+  curve: TideEvent[];
+  events: TideEvent[];
+  windows: ThresholdWindow[];
+  target: TideTarget;
+  unit: LengthUnit;
+  observed?: TideEvent[];
+}
+
+const WIDTH = 720;
+const HEIGHT = 260;
+const PAD = { top: 24, right: 16, bottom: 28, left: 40 };
+const MINUTES_PER_DAY = 24 * 60;
+
+const TideChart: React.FC<TideChartProps> = ({ day, curve, events, windows, target, unit, observed = [] }) => {
+  const dayStart = startOfDay(day);
+  const levels = targetLevels(target);
+
+  const { minY, maxY } = useMemo(() => {
+    const heights = [...curve.map(p => p.height), ...observed.map(p => p.height), ...events.map(e => e.height), ...levels];
+    const lo = Math.min(...heights);
+    const hi = Math.max(...heights);
+    const pad = Math.max((hi - lo) * 0.1, 0.25);
+    return { minY: lo - pad, maxY: hi + pad };
+  }, [curve, observed, events, target]);
+
+  const x = (time: Date) => {
+    const minutes = Math.min(Math.max(differenceInMinutes(time, dayStart), 0), MINUTES_PER_DAY);
+    return PAD.left + (minutes / MINUTES_PER_DAY) * (WIDTH - PAD.left - PAD.right);
+  };
+  const y = (height: number) =>
+    PAD.top + ((maxY - height) / (maxY - minY)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const toPath = (points: TideEvent[]) =>
+    points.map((p, idx) => `${idx ? 'L' : 'M'}${x(p.time).toFixed(1)},${y(p.height).toFixed(1)}`).join(' ');
+  const hourTicks = [0, 3, 6, 9, 12, 15, 18, 21, 24];
+
+  if (!curve.length) {
+    return (
+      <div className="h-40 flex items-center justify-center text-sm text-slate-400 bg-slate-50 rounded-2xl">
+        No curve data available for this day.
+      </div>
+    );
+  }
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Tide curve for ${format(day, 'MMMM d')}`}>
+      {/* Above-target windows */}
+      {windows.map((w, idx) => (
+        <rect
+          key={idx}
+          x={x(w.start)}
+          y={PAD.top}
+          width={Math.max(x(w.end) - x(w.start), 1)}
+          height={HEIGHT - PAD.top - PAD.bottom}
+          className="fill-blue-100"
+        />
+      ))}
+
+      {/* Hour grid */}
+      {hourTicks.map(h => {
+        const tickX = PAD.left + (h / 24) * (WIDTH - PAD.left - PAD.right);
+        return (
+          <g key={h}>
+            <line x1={tickX} x2={tickX} y1={PAD.top} y2={HEIGHT - PAD.bottom} className="stroke-slate-100" />
+            <text x={tickX} y={HEIGHT - 8} textAnchor="middle" className="fill-slate-400 text-[11px]">
+              {h === 24 ? '' : format(new Date(2000, 0, 1, h), 'ha')}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Target lines */}
+      {levels.map(level => (
+        <g key={level}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(level)} y2={y(level)} strokeDasharray="6 4" className="stroke-blue-500" strokeWidth={1.5} />
+          <text x={PAD.left - 6} y={y(level) + 4} textAnchor="end" className="fill-blue-600 text-[11px] font-bold">
+            {roundedHeight(level, unit)}
+          </text>
+        </g>
+      ))}
+
+      <path d={toPath(curve)} fill="none" strokeWidth={2.5} className="stroke-sky-500 tide-curve" />
+      {observed.length > 0 && (
+        <path d={toPath(observed)} fill="none" strokeWidth={2} className="stroke-orange-500" />
+      )}
+
+      {/* Highs and lows */}
+      {events.map((e, idx) => (
+        <g key={idx}>
+          <circle cx={x(e.time)} cy={y(e.height)} r={4} className={e.type === 'H' ? 'fill-blue-600' : 'fill-indigo-400'} />
+          <text
+            x={x(e.time)}
+            y={e.type === 'H' ? y(e.height) - 10 : y(e.height) + 18}
+            textAnchor="middle"
+            className="fill-slate-600 text-[11px] font-semibold"
+          >
+            {shortHeight(e.height, unit)} · {format(e.time, 'h:mm a')}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default TideChart;
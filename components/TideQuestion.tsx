@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Loader2, MessageCircleQuestionMark, Play, Sparkles } from 'lucide-react';
+import { answerQuery, interpretQuestion, QueryAnswer } from '../services/questionService';
+import { LengthUnit, QueryRank, SavedStation, TargetMode, TideQuery } from '../types';
+import { describeQuery, QueryValidationError, validateTideQuery } from '../utils/tideQuery';
+import { formatHeight, fromUnit, roundedHeight } from '../utils/units';
+import { formatInZone, toZonedTime, zoneAbbreviation } from '../utils/timeZones';
+
+interface TideQuestionProps {
+  station: SavedStation;
+  unit: LengthUnit;
+  onSelectDay: (station: SavedStation, day: Date) => void;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const fieldClass = 'bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-sm font-semibold text-slate-700 normal-case tracking-normal';
+const labelClass = 'flex flex-col gap-1 text-xs font-bold text-slate-500 uppercase tracking-wider';
+
+const TideQuestion: React.FC<TideQuestionProps> = ({ station, unit, onSelectDay }) => {
+  const [question, setQuestion] = useState('');
+  const [query, setQuery] = useState<TideQuery | null>(null);
+  const [answer, setAnswer] = useState<QueryAnswer | null>(null);
+  const [busy, setBusy] = useState<'asking' | 'running' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fail = (err: unknown, fallback: string) =>
+    setError(err instanceof QueryValidationError ? err.message : fallback);
+
+  const run = async (next: TideQuery) => {
+    setBusy('running');
+    setError(null);
+    setAnswer(null);
+    try {
+      setAnswer(await answerQuery(validateTideQuery(next), station));
+    } catch (err) {
+      fail(err, 'Could not load predictions for that search. Try again later.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const ask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+    setBusy('asking');
+    setError(null);
+    setAnswer(null);
+    try {
+      const interpreted = await interpretQuestion(question.trim());
+      setQuery(interpreted);
+      await run(interpreted);
+    } catch (err) {
+      fail(err, 'Could not understand that question. Try rephrasing it.');
+      setBusy(null);
+    }
+  };
+
+  const update = (changes: Partial<TideQuery>) => setQuery(q => (q ? { ...q, ...changes } : q));
+
+  const setTargetMode = (mode: TargetMode | 'none') => {
+    if (mode === 'none') return update({ target: null });
+    const current = query?.target;
+    update({ target: { mode, high: current?.high ?? 0, low: current?.low ?? 0 } });
+  };
+
+  const setTargetHeight = (bound: 'high' | 'low', value: string) => {
+    const feet = fromUnit(parseFloat(value) || 0, unit);
+    const current = query!.target!;
+    // Single-bound targets keep both bounds equal, like the target control
+    update({ target: current.mode === 'range' ? { ...current, [bound]: feet } : { ...current, high: feet, low: feet } });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const days = query!.weekdays.includes(day) ? query!.weekdays.filter(d => d !== day) : [...query!.weekdays, day].sort();
+    update({ weekdays: days });
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-slate-100 p-6 mb-8">
+      <form onSubmit={ask} className="flex gap-2">
+        <div className="relative flex-1">
+          <MessageCircleQuestionMark className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ask about tides, e.g. lowest daylight tides on weekends in November near Pacifica"
+            className="w-full pl-10 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={busy !== null}
+          className="flex items-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 disabled:opacity-50 transition-all"
+        >
+          {busy === 'asking' ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />} Ask
+        </button>
+      </form>
+
+      {query && (
+        <div className="mt-4 p-4 bg-slate-50/60 border border-slate-100 rounded-2xl">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Searching for</p>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <label className={labelClass}>
+              Place
+              <input type="text" value={query.place} placeholder={station.name} onChange={(e) => update({ place: e.target.value })} className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              From
+              <input type="date" value={query.from} onChange={(e) => update({ from: e.target.value })} className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              To
+              <input type="date" value={query.to} onChange={(e) => update({ to: e.target.value })} className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              Show
+              <div className="flex gap-2">
+                <select value={query.rank} onChange={(e) => update({ rank: e.target.value as QueryRank })} className={`${fieldClass} flex-1`}>
+                  <option value="date">Tides by date</option>
+                  <option value="lowest">Lowest lows</option>
+                  <option value="highest">Highest highs</option>
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={query.limit}
+                  onChange={(e) => update({ limit: parseInt(e.target.value, 10) || 1 })}
+                  className={`${fieldClass} w-16`}
+                />
+              </div>
+            </label>
+            <label className={labelClass}>
+              Target (MLLW)
+              <div className="flex gap-2">
+                <select value={query.target?.mode ?? 'none'} onChange={(e) => setTargetMode(e.target.value as TargetMode | 'none')} className={`${fieldClass} flex-1`}>
+                  <option value="none">Any height</option>
+                  <option value="high">At or above</option>
+                  <option value="low">At or below</option>
+                  <option value="range">Between</option>
+                </select>
+                {query.target && query.target.mode !== 'high' && (
+                  <input type="number" step="0.1" value={roundedHeight(query.target.low, unit)} onChange={(e) => setTargetHeight('low', e.target.value)} className={`${fieldClass} w-20`} />
+                )}
+                {query.target && query.target.mode !== 'low' && (
+                  <input type="number" step="0.1" value={roundedHeight(query.target.high, unit)} onChange={(e) => setTargetHeight('high', e.target.value)} className={`${fieldClass} w-20`} />
+                )}
+              </div>
+            </label>
+            <label className={labelClass}>
+              Hours
+              <div className="flex items-center gap-2">
+                <input type="number" min={0} max={23} value={query.fromHour} onChange={(e) => update({ fromHour: parseInt(e.target.value, 10) || 0 })} className={`${fieldClass} w-16`} />
+                <span className="text-slate-400">to</span>
+                <input type="number" min={1} max={24} value={query.toHour} onChange={(e) => update({ toHour: parseInt(e.target.value, 10) || 0 })} className={`${fieldClass} w-16`} />
+              </div>
+            </label>
+            <div className={labelClass}>
+              Days
+              <div className="flex gap-1">
+                {WEEKDAYS.map((name, day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`w-7 h-7 rounded-full text-xs font-bold transition-all ${query.weekdays.includes(day) ? 'bg-blue-600 text-white' : 'bg-white border border-slate-200 text-slate-400'}`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-600 self-end pb-1.5">
+              <input type="checkbox" checked={query.daylightOnly} onChange={(e) => update({ daylightOnly: e.target.checked })} />
+              Daylight only
+            </label>
+          </div>
+          <div className="flex items-center justify-between gap-3 mt-4">
+            <p className="text-xs text-slate-500">{describeQuery(query, query.place || station.name, unit)}</p>
+            <button
+              onClick={() => run(query)}
+              disabled={busy !== null}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 text-blue-600 rounded-lg text-sm font-bold hover:border-blue-400 disabled:opacity-50 transition-all shrink-0"
+            >
+              {busy === 'running' ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Run
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-600 font-medium">{error}</p>}
+
+      {answer && (answer.events.length ? (
+        <div className="mt-4">
+          <p className="text-xs text-slate-500 mb-2">NOAA predictions for {answer.station.name} · heights above MLLW</p>
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {answer.events.map(e => (
+              <button
+                key={e.time.toISOString()}
+                onClick={() => onSelectDay(answer.station, toZonedTime(e.time, answer.timeZone))}
+                className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-xl hover:border-blue-400 transition-all text-left"
+              >
+                <span className="text-sm font-bold text-slate-700">
+                  {formatInZone(e.time, answer.timeZone, 'EEE, MMM d · h:mm a')} {zoneAbbreviation(e.time, answer.timeZone)}
+                </span>
+                <span className={`text-xs font-bold ${e.type === 'L' ? 'text-teal-600' : 'text-blue-600'}`}>
+                  {e.type === 'L' ? 'Low' : 'High'} {formatHeight(e.height, unit)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="mt-4 text-sm text-slate-500">No predicted tides at {answer.station.name} match this search.</p>
+      ))}
+    </div>
+  );
+};
+
+export default TideQuestion;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { addHours, format, parse } from 'date-fns';
+import { BookOpen, Download, Loader2, Plus, Star, Trash2, TrendingDown, TrendingUp } from 'lucide-react';
+import { LengthUnit, SavedStation, TideTarget, Trip } from '../types';
+import { annotateTrip } from '../services/tripService';
+import { downloadFile } from '../services/exportService';
+import { newestFirst, stageLabel, tripsToCsv } from '../utils/trips';
+import { describeTarget } from '../utils/targets';
+import { formatHeight } from '../utils/units';
+import { formatInZone, fromZonedTime, toZonedTime } from '../utils/timeZones';
+import { formatDuration } from '../utils/tideAnalysis';
+import TripStats from './TripStats';
+
+interface TripJournalProps {
+  trips: Trip[];
+  station: SavedStation;
+  timeZone: string; // the station's
+  target: TideTarget; // feet above MLLW, what new trips are judged against
+  unit: LengthUnit;
+  // Takes an update rather than a list, since trips can change while a new one is being annotated
+  onChange: (update: (trips: Trip[]) => Trip[]) => void;
+}
+
+const LOCAL_INPUT = "yyyy-MM-dd'T'HH:mm";
+const inputClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-sm font-semibold text-slate-700';
+
+interface Draft {
+  start: string; // datetime-local value on the station's clock
+  end: string;
+  rating: number;
+  tags: string;
+  notes: string;
+}
+
+const newDraft = (timeZone: string): Draft => {
+  const now = toZonedTime(new Date(), timeZone);
+  return { start: format(addHours(now, -2), LOCAL_INPUT), end: format(now, LOCAL_INPUT), rating: 3, tags: '', notes: '' };
+};
+
+const Stars: React.FC<{ rating: number; onChange?: (rating: number) => void }> = ({ rating, onChange }) => (
+  <span className="flex items-center">
+    {[1, 2, 3, 4, 5].map(n => (
+      <button key={n} type="button" disabled={!onChange} onClick={() => onChange?.(n)} className={n <= rating ? 'text-amber-400' : 'text-slate-200'}>
+        <Star size={14} fill="currentColor" />
+      </button>
+    ))}
+  </span>
+);
+
+const TripJournal: React.FC<TripJournalProps> = ({ trips, station, timeZone, target, unit, onChange }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const start = fromZonedTime(parse(draft.start, LOCAL_INPUT, new Date()), timeZone);
+    const end = fromZonedTime(parse(draft.end, LOCAL_INPUT, new Date()), timeZone);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+      setProblem('The trip needs to end after it starts.');
+      return;
+    }
+    setProblem(null);
+    setSaving(true);
+    const base = {
+      id: `trip_${Date.now().toString(36)}`,
+      station: { id: station.id, name: station.name },
+      timeZone,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      rating: draft.rating,
+      notes: draft.notes.trim(),
+      tags: draft.tags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)
+    };
+    const conditions = await annotateTrip(base, target);
+    onChange(current => newestFirst([{ ...base, conditions }, ...current]));
+    setSaving(false);
+    setDraft(null);
+  };
+
+  const exportJson = () =>
+    downloadFile(`tidewatch-trips-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify({ app: 'tidewatch', trips }, null, 2), 'application/json');
+  const exportCsv = () =>
+    downloadFile(`tidewatch-trips-${format(new Date(), 'yyyy-MM-dd')}.csv`, tripsToCsv(trips, unit), 'text/csv');
+
+  return (
+    <div className="p-6 animate-in fade-in duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><BookOpen className="w-5 h-5 text-blue-500" /> Trip Journal</h3>
+        <div className="flex items-center gap-2">
+          {trips.length > 0 && (
+            <>
+              <button onClick={exportCsv} className="flex items-center gap-1.5 text-xs font-bold text-blue-600 bg-white border border-slate-200 hover:border-blue-400 px-3 py-1.5 rounded-lg">
+                <Download size={14} /> CSV
+              </button>
+              <button onClick={exportJson} className="flex items-center gap-1.5 text-xs font-bold text-blue-600 bg-white border border-slate-200 hover:border-blue-400 px-3 py-1.5 rounded-lg">
+                <Download size={14} /> JSON
+              </button>
+            </>
+          )}
+          {!draft && (
+            <button onClick={() => setDraft(newDraft(timeZone))} className="flex items-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg">
+              <Plus size={14} /> Log a trip
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft && (
+        <div className="mb-6 p-4 bg-slate-50 border border-slate-100 rounded-2xl space-y-3">
+          <p className="text-sm font-bold text-slate-700">At {station.name}, station time</p>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-500">
+            <input type="datetime-local" value={draft.start} onChange={(e) => setDraft({ ...draft, start: e.target.value })} className={inputClass} />
+            <span>to</span>
+            <input type="datetime-local" value={draft.end} onChange={(e) => setDraft({ ...draft, end: e.target.value })} className={inputClass} />
+            <span className="ml-2 font-semibold">Outcome</span>
+            <Stars rating={draft.rating} onChange={(rating) => setDraft({ ...draft, rating })} />
+          </div>
+          <input
+            type="text"
+            value={draft.tags}
+            placeholder="Tags, comma separated: clams, kayak, skunked"
+            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            className={`${inputClass} w-full`}
+          />
+          <textarea
+            value={draft.notes}
+            rows={3}
+            placeholder="What happened? Catch, conditions, who came along…"
+            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+            className={`${inputClass} w-full`}
+          />
+          {problem && <p className="text-xs font-medium text-red-600">{problem}</p>}
+          <div className="flex gap-2">
+            <button onClick={saveDraft} disabled={saving} className="flex items-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-3 py-1.5 rounded-lg">
+              {saving && <Loader2 size={14} className="animate-spin" />} Save trip
+            </button>
+            <button onClick={() => setDraft(null)} className="text-xs font-bold text-slate-500 hover:text-slate-700 px-3 py-1.5">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {trips.length > 0 && <TripStats trips={trips} unit={unit} />}
+
+      {trips.length ? (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {trips.map(trip => {
+            const c = trip.conditions;
+            const start = new Date(trip.start);
+            return (
+              <div key={trip.id} className="p-4 bg-white border border-slate-200 rounded-2xl shadow-sm">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <div>
+                    <p className="text-sm font-extrabold text-slate-800">{formatInZone(start, trip.timeZone, 'EEE, MMM d, yyyy')}</p>
+                    <p className="text-xs text-slate-500">
+                      {trip.station.name} · {formatInZone(start, trip.timeZone, 'h:mm a')} – {formatInZone(new Date(trip.end), trip.timeZone, 'h:mm a')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Stars rating={trip.rating} />
+                    <button onClick={() => onChange(current => current.filter(t => t.id !== trip.id))} className="text-slate-300 hover:text-red-500" title="Delete trip">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+                {c ? (
+                  <div className="flex flex-wrap gap-1.5 text-[11px] font-bold mb-2">
+                    {c.startHeight !== null && <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">{formatHeight(c.startHeight, unit)} MLLW</span>}
+                    {c.trend && (
+                      <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 flex items-center gap-1">
+                        {c.trend === 'rising' ? <TrendingUp size={12} /> : <TrendingDown size={12} />} {c.stage ? stageLabel(c.stage) : c.trend}
+                      </span>
+                    )}
+                    {c.nearestEvent && (
+                      <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">
+                        {c.nearestEvent.type === 'H' ? 'High' : 'Low'} {formatHeight(c.nearestEvent.height, unit)}{' '}
+                        {c.nearestEvent.minutesFromStart >= 0 ? `${formatDuration(c.nearestEvent.minutesFromStart)} after start` : `${formatDuration(-c.nearestEvent.minutesFromStart)} before start`}
+                      </span>
+                    )}
+                    {c.metTarget !== null && (
+                      <span
+                        className={`px-2 py-0.5 rounded-full ${c.metTarget ? 'bg-green-50 text-green-700' : 'bg-slate-100 text-slate-400'}`}
+                        title={`${describeTarget(c.target, unit)} MLLW`}
+                      >
+                        {c.metTarget ? 'Target day' : 'Missed target'}
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-[11px] text-slate-400 mb-2">No tide predictions for this trip.</p>
+                )}
+                {trip.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {trip.tags.map(tag => <span key={tag} className="text-[11px] font-bold text-violet-700 bg-violet-50 px-2 py-0.5 rounded-full">#{tag}</span>)}
+                  </div>
+                )}
+                {trip.notes && <p className="text-sm text-slate-600 whitespace-pre-line">{trip.notes}</p>}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        !draft && (
+          <div className="py-16 text-center">
+            <h4 className="text-lg font-bold text-slate-700">No trips logged yet</h4>
+            <p className="text-slate-500 max-w-sm mx-auto">Log how a day on the water went and TideWatch records the tide it happened on, so you can see which conditions work best.</p>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default TripJournal;
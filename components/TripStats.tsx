@@ -0,0 +1,51 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { LengthUnit, Trip } from '../types';
+import { statsByHeight, statsByStage, statsByTarget, TripBucket } from '../utils/trips';
+
+interface TripStatsProps {
+  trips: Trip[];
+  unit: LengthUnit;
+}
+
+const BucketTable: React.FC<{ title: string; buckets: TripBucket[] }> = ({ title, buckets }) => {
+  const best = Math.max(...buckets.map(b => b.averageRating));
+  return (
+    <div>
+      <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{title}</p>
+      <div className="space-y-1.5">
+        {buckets.map(b => (
+          <div key={b.label} className="flex items-center gap-2 text-xs">
+            <span className={`w-24 shrink-0 font-bold ${b.averageRating === best ? 'text-blue-700' : 'text-slate-600'}`}>{b.label}</span>
+            <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className={`h-full ${b.averageRating === best ? 'bg-blue-500' : 'bg-slate-300'}`} style={{ width: `${(b.averageRating / 5) * 100}%` }} />
+            </div>
+            <span className="w-20 shrink-0 text-right text-slate-500">{b.averageRating.toFixed(1)} ★ · {b.trips}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Average outcome by tide stage, starting height and target days; the best bucket in each is highlighted
+const TripStats: React.FC<TripStatsProps> = ({ trips, unit }) => {
+  const tables = [
+    { title: 'By tide stage', buckets: statsByStage(trips) },
+    { title: 'By height at start', buckets: statsByHeight(trips, unit) },
+    { title: 'By target', buckets: statsByTarget(trips) }
+  ].filter(t => t.buckets.length);
+
+  if (!tables.length) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-slate-50 border border-slate-100 rounded-2xl">
+      <h4 className="text-sm font-bold text-slate-700 flex items-center gap-2 mb-4"><BarChart3 size={16} className="text-blue-500" /> What worked</h4>
+      <div className="grid gap-6 md:grid-cols-3">
+        {tables.map(t => <BucketTable key={t.title} title={t.title} buckets={t.buckets} />)}
+      </div>
+    </div>
+  );
+};
+
+export default TripStats;
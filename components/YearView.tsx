@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { addMonths, format, getDay, isSameMonth, startOfMonth } from 'date-fns';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { loadSeason } from '../services/seasonService';
+import { DailyTideData, StationPrefs, TideTarget } from '../types';
+import { describeTarget, targetMargin } from '../utils/targets';
+import { datumLabel, shortHeight } from '../utils/units';
+
+interface YearViewProps {
+  stationId: string;
+  fromMonth: Date;
+  target: TideTarget; // in prefs.datum
+  prefs: StationPrefs;
+  timeZone: string;
+  displayZone: string;
+  onSelectDay: (day: Date) => void;
+}
+
+const MONTHS = 12;
+
+// Shades step every half foot either side of the target
+const marginClass = (margin: number | null): string => {
+  if (margin === null) return 'bg-white';
+  if (margin >= 1) return 'bg-blue-700';
+  if (margin >= 0.5) return 'bg-blue-500';
+  if (margin >= 0) return 'bg-blue-300';
+  if (margin > -0.5) return 'bg-sky-100';
+  if (margin > -1) return 'bg-slate-200';
+  return 'bg-slate-100';
+};
+
+const YearView: React.FC<YearViewProps> = ({ stationId, fromMonth, target, prefs, timeZone, displayZone, onSelectDay }) => {
+  const [days, setDays] = useState<DailyTideData[] | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: MONTHS });
+  const [error, setError] = useState<string | null>(null);
+  const start = startOfMonth(fromMonth);
+
+  useEffect(() => {
+    // Leaving the view or changing what it shows stops the months still to load
+    const controller = new AbortController();
+    setDays(null);
+    setError(null);
+    setProgress({ done: 0, total: MONTHS });
+    loadSeason(stationId, start, MONTHS, target, {
+      datum: prefs.datum,
+      timeZone,
+      displayZone,
+      signal: controller.signal,
+      onProgress: (done, total) => {
+        if (!controller.signal.aborted) setProgress({ done, total });
+      }
+    })
+      .then(loaded => {
+        if (!controller.signal.aborted) setDays(loaded);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setError('Could not load a full year of predictions for this station.');
+      });
+    return () => controller.abort();
+  }, [stationId, start.getTime(), target, prefs.datum, timeZone, displayZone]);
+
+  const months = useMemo(() => Array.from({ length: MONTHS }, (_, i) => addMonths(start, i)), [start.getTime()]);
+
+  if (error) {
+    return <div className="p-6 flex items-center gap-2 text-red-600 font-medium"><AlertCircle size={18} /> {error}</div>;
+  }
+
+  if (!days) {
+    return (
+      <div className="py-20 flex flex-col items-center gap-4">
+        <Loader2 className="w-10 h-10 text-blue-500 animate-spin" />
+        <p className="text-blue-600 font-bold">Loading month {Math.min(progress.done + 1, progress.total)} of {progress.total}…</p>
+        <div className="w-64 h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  const meetsCount = days.filter(d => d.meetsThreshold).length;
+
+  return (
+    <div className="p-6 animate-in fade-in duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h3 className="text-xl font-bold text-slate-800">{describeTarget(target, prefs.unit)} {datumLabel(prefs.datum)}</h3>
+        <div className="text-sm font-medium text-slate-500 bg-slate-100 px-3 py-1 rounded-full">{meetsCount} days over the next {MONTHS} months</div>
+      </div>
+
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        {months.map(month => {
+          const monthDays = days.filter(d => isSameMonth(d.date, month));
+          return (
+            <div key={month.toISOString()}>
+              <h4 className="text-sm font-bold text-slate-600 mb-2">{format(month, 'MMMM yyyy')}</h4>
+              <div className="grid grid-cols-7 gap-0.5">
+                {Array.from({ length: getDay(month) }, (_, i) => <div key={`pad-${i}`} />)}
+                {monthDays.map(d => {
+                  const margin = targetMargin(d, target);
+                  return (
+                    <button
+                      key={d.date.toISOString()}
+                      onClick={() => onSelectDay(d.date)}
+                      className={`aspect-square rounded-sm border border-white hover:ring-2 hover:ring-blue-400 transition-all ${marginClass(margin)}`}
+                      title={`${format(d.date, 'EEE, MMM d')}: ${margin === null ? 'no tide' : margin >= 0 ? `clears target by ${shortHeight(margin, prefs.unit)}` : `misses target by ${shortHeight(-margin, prefs.unit)}`}`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-6 text-xs font-medium text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-slate-100" /> Misses by {shortHeight(1, prefs.unit)}+</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-sky-100" /> Close miss</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-300" /> Meets</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-700" /> Clears by {shortHeight(1, prefs.unit)}+</span>
+      </div>
+    </div>
+  );
+};
+
+export default YearView;
@@ -0,0 +1,156 @@
+import { NOAAStation } from '../types';
+
+/**
+ * NOAA CO-OPS reference stations with harmonic tide predictions, from the
+ * metadata API's station list (mdapi/prod/webapi/stations.json?type=tidepredictions).
+ * Subordinate stations aren't bundled; any station ID can still be typed in
+ * directly.
+ */
+export const STATION_CATALOG: NOAAStation[] = [
+  // Maine to New Jersey
+  { id: '8410140', name: 'Eastport', state: 'ME', lat: 44.9046, lng: -66.9829 },
+  { id: '8413320', name: 'Bar Harbor', state: 'ME', lat: 44.3917, lng: -68.205 },
+  { id: '8418150', name: 'Portland', state: 'ME', lat: 43.6567, lng: -70.2467 },
+  { id: '8423898', name: 'Fort Point', state: 'NH', lat: 43.0714, lng: -70.7106 },
+  { id: '8443970', name: 'Boston', state: 'MA', lat: 42.3539, lng: -71.0503 },
+  { id: '8447435', name: 'Chatham, Lydia Cove', state: 'MA', lat: 41.6886, lng: -69.9511 },
+  { id: '8447930', name: 'Woods Hole', state: 'MA', lat: 41.5236, lng: -70.6711 },
+  { id: '8449130', name: 'Nantucket Island', state: 'MA', lat: 41.285, lng: -70.0967 },
+  { id: '8452660', name: 'Newport', state: 'RI', lat: 41.505, lng: -71.3267 },
+  { id: '8454000', name: 'Providence', state: 'RI', lat: 41.8072, lng: -71.4011 },
+  { id: '8461490', name: 'New London', state: 'CT', lat: 41.3717, lng: -72.095 },
+  { id: '8465705', name: 'New Haven', state: 'CT', lat: 41.2833, lng: -72.9083 },
+  { id: '8467150', name: 'Bridgeport', state: 'CT', lat: 41.1733, lng: -73.1817 },
+  { id: '8510560', name: 'Montauk', state: 'NY', lat: 41.0483, lng: -71.96 },
+  { id: '8516945', name: 'Kings Point', state: 'NY', lat: 40.8103, lng: -73.7649 },
+  { id: '8518750', name: 'The Battery', state: 'NY', lat: 40.7006, lng: -74.0142 },
+  { id: '8531680', name: 'Sandy Hook', state: 'NJ', lat: 40.4669, lng: -74.0094 },
+  { id: '8534720', name: 'Atlantic City', state: 'NJ', lat: 39.355, lng: -74.4183 },
+  { id: '8545240', name: 'Philadelphia', state: 'PA', lat: 39.9333, lng: -75.1417 },
+
+  // Delaware to Florida's Atlantic coast
+  { id: '8557380', name: 'Lewes', state: 'DE', lat: 38.7828, lng: -75.1192 },
+  { id: '8570283', name: 'Ocean City Inlet', state: 'MD', lat: 38.3283, lng: -75.0917 },
+  { id: '8574680', name: 'Baltimore', state: 'MD', lat: 39.2667, lng: -76.5783 },
+  { id: '8575512', name: 'Annapolis', state: 'MD', lat: 38.9833, lng: -76.4817 },
+  { id: '8594900', name: 'Washington', state: 'DC', lat: 38.8733, lng: -77.0217 },
+  { id: '8632200', name: 'Kiptopeke', state: 'VA', lat: 37.1652, lng: -75.9884 },
+  { id: '8638610', name: 'Sewells Point', state: 'VA', lat: 36.9467, lng: -76.33 },
+  { id: '8638901', name: 'Chesapeake Bay Bridge Tunnel', state: 'VA', lat: 37.0329, lng: -76.0833 },
+  { id: '8651370', name: 'Duck', state: 'NC', lat: 36.1833, lng: -75.7467 },
+  { id: '8652587', name: 'Oregon Inlet Marina', state: 'NC', lat: 35.795, lng: -75.5483 },
+  { id: '8656483', name: 'Beaufort, Duke Marine Lab', state: 'NC', lat: 34.72, lng: -76.67 },
+  { id: '8658120', name: 'Wilmington', state: 'NC', lat: 34.2275, lng: -77.9536 },
+  { id: '8661070', name: 'Springmaid Pier', state: 'SC', lat: 33.655, lng: -78.9183 },
+  { id: '8665530', name: 'Charleston, Cooper River Entrance', state: 'SC', lat: 32.7808, lng: -79.9236 },
+  { id: '8670870', name: 'Fort Pulaski', state: 'GA', lat: 32.0367, lng: -80.9017 },
+  { id: '8720030', name: 'Fernandina Beach', state: 'FL', lat: 30.6714, lng: -81.4658 },
+  { id: '8720218', name: 'Mayport (Bar Pilots Dock)', state: 'FL', lat: 30.3982, lng: -81.4279 },
+  { id: '8721604', name: 'Trident Pier, Port Canaveral', state: 'FL', lat: 28.4158, lng: -80.5931 },
+  { id: '8722670', name: 'Lake Worth Pier', state: 'FL', lat: 26.6128, lng: -80.0342 },
+  { id: '8723214', name: 'Virginia Key', state: 'FL', lat: 25.7317, lng: -80.1617 },
+
+  // Gulf of Mexico
+  { id: '8724580', name: 'Key West', state: 'FL', lat: 24.5557, lng: -81.8079 },
+  { id: '8725110', name: 'Naples', state: 'FL', lat: 26.1317, lng: -81.8075 },
+  { id: '8726520', name: 'St. Petersburg', state: 'FL', lat: 27.7606, lng: -82.6269 },
+  { id: '8726724', name: 'Clearwater Beach', state: 'FL', lat: 27.9783, lng: -82.8317 },
+  { id: '8728690', name: 'Apalachicola', state: 'FL', lat: 29.7244, lng: -84.9806 },
+  { id: '8729108', name: 'Panama City', state: 'FL', lat: 30.1523, lng: -85.6669 },
+  { id: '8729840', name: 'Pensacola', state: 'FL', lat: 30.4044, lng: -87.2112 },
+  { id: '8735180', name: 'Dauphin Island', state: 'AL', lat: 30.25, lng: -88.075 },
+  { id: '8760922', name: 'Pilots Station East, Southwest Pass', state: 'LA', lat: 28.9322, lng: -89.4075 },
+  { id: '8761724', name: 'Grand Isle', state: 'LA', lat: 29.2633, lng: -89.9567 },
+  { id: '8770570', name: 'Sabine Pass North', state: 'TX', lat: 29.7283, lng: -93.8701 },
+  { id: '8771341', name: 'Galveston Bay Entrance, North Jetty', state: 'TX', lat: 29.3573, lng: -94.7248 },
+  { id: '8771450', name: 'Galveston Pier 21', state: 'TX', lat: 29.31, lng: -94.7933 },
+  { id: '8775870', name: 'Bob Hall Pier, Corpus Christi', state: 'TX', lat: 27.58, lng: -97.2167 },
+  { id: '8779770', name: 'Port Isabel', state: 'TX', lat: 26.0611, lng: -97.2155 },
+
+  // Caribbean
+  { id: '9751639', name: 'Charlotte Amalie', state: 'VI', lat: 18.3355, lng: -64.92 },
+  { id: '9755371', name: 'San Juan', state: 'PR', lat: 18.4589, lng: -66.1164 },
+
+  // California
+  { id: '9410170', name: 'San Diego', state: 'CA', lat: 32.7142, lng: -117.1736 },
+  { id: '9410230', name: 'La Jolla', state: 'CA', lat: 32.8669, lng: -117.2571 },
+  { id: '9410660', name: 'Los Angeles', state: 'CA', lat: 33.72, lng: -118.2717 },
+  { id: '9410840', name: 'Santa Monica', state: 'CA', lat: 34.0083, lng: -118.5 },
+  { id: '9411340', name: 'Santa Barbara', state: 'CA', lat: 34.4083, lng: -119.685 },
+  { id: '9412110', name: 'Port San Luis', state: 'CA', lat: 35.1689, lng: -120.7542 },
+  { id: '9413450', name: 'Monterey', state: 'CA', lat: 36.6089, lng: -121.8914 },
+  { id: '9414290', name: 'San Francisco', state: 'CA', lat: 37.8063, lng: -122.4659 },
+  { id: '9414523', name: 'Redwood City', state: 'CA', lat: 37.5067, lng: -122.21 },
+  { id: '9414750', name: 'Alameda', state: 'CA', lat: 37.7717, lng: -122.3 },
+  { id: '9415020', name: 'Point Reyes', state: 'CA', lat: 37.9961, lng: -122.9767 },
+  { id: '9416841', name: 'Arena Cove', state: 'CA', lat: 38.9146, lng: -123.711 },
+  { id: '9418767', name: 'North Spit, Humboldt Bay', state: 'CA', lat: 40.7669, lng: -124.2172 },
+  { id: '9419750', name: 'Crescent City', state: 'CA', lat: 41.7456, lng: -124.1844 },
+
+  // Oregon and Washington
+  { id: '9431647', name: 'Port Orford', state: 'OR', lat: 42.7392, lng: -124.4983 },
+  { id: '9432780', name: 'Charleston', state: 'OR', lat: 43.345, lng: -124.322 },
+  { id: '9435380', name: 'South Beach', state: 'OR', lat: 44.6254, lng: -124.0449 },
+  { id: '9437540', name: 'Garibaldi', state: 'OR', lat: 45.5545, lng: -123.9189 },
+  { id: '9439040', name: 'Astoria', state: 'OR', lat: 46.2073, lng: -123.7683 },
+  { id: '9440910', name: 'Toke Point', state: 'WA', lat: 46.7075, lng: -123.9669 },
+  { id: '9441102', name: 'Westport', state: 'WA', lat: 46.9043, lng: -124.1051 },
+  { id: '9443090', name: 'Neah Bay', state: 'WA', lat: 48.3703, lng: -124.6017 },
+  { id: '9444090', name: 'Port Angeles', state: 'WA', lat: 48.125, lng: -123.44 },
+  { id: '9444900', name: 'Port Townsend', state: 'WA', lat: 48.1129, lng: -122.7595 },
+  { id: '9446484', name: 'Tacoma', state: 'WA', lat: 47.2761, lng: -122.4183 },
+  { id: '9447130', name: 'Seattle', state: 'WA', lat: 47.6026, lng: -122.3393 },
+  { id: '9449424', name: 'Cherry Point', state: 'WA', lat: 48.8633, lng: -122.7583 },
+  { id: '9449880', name: 'Friday Harbor', state: 'WA', lat: 48.5453, lng: -123.0125 },
+
+  // Alaska
+  { id: '9450460', name: 'Ketchikan', state: 'AK', lat: 55.3319, lng: -131.6256 },
+  { id: '9451600', name: 'Sitka', state: 'AK', lat: 57.0517, lng: -135.3422 },
+  { id: '9452210', name: 'Juneau', state: 'AK', lat: 58.2988, lng: -134.4114 },
+  { id: '9453220', name: 'Yakutat', state: 'AK', lat: 59.5485, lng: -139.7335 },
+  { id: '9454050', name: 'Cordova', state: 'AK', lat: 60.5583, lng: -145.7533 },
+  { id: '9454240', name: 'Valdez', state: 'AK', lat: 61.125, lng: -146.362 },
+  { id: '9455500', name: 'Seldovia', state: 'AK', lat: 59.4405, lng: -151.7199 },
+  { id: '9455920', name: 'Anchorage', state: 'AK', lat: 61.2381, lng: -149.89 },
+  { id: '9457292', name: 'Kodiak Island', state: 'AK', lat: 57.7317, lng: -152.5117 },
+  { id: '9462620', name: 'Unalaska', state: 'AK', lat: 53.88, lng: -166.5367 },
+  { id: '9468756', name: 'Nome', state: 'AK', lat: 64.4946, lng: -165.4396 },
+
+  // Hawaii and the Pacific islands
+  { id: '1611400', name: 'Nawiliwili', state: 'HI', lat: 21.9544, lng: -159.3561 },
+  { id: '1612340', name: 'Honolulu', state: 'HI', lat: 21.3033, lng: -157.8645 },
+  { id: '1615680', name: 'Kahului', state: 'HI', lat: 20.895, lng: -156.4769 },
+  { id: '1617433', name: 'Kawaihae', state: 'HI', lat: 20.0366, lng: -155.8294 },
+  { id: '1617760', name: 'Hilo', state: 'HI', lat: 19.7303, lng: -155.0558 },
+  { id: '1630000', name: 'Apra Harbor', state: 'GU', lat: 13.4433, lng: 144.6567 },
+  { id: '1770000', name: 'Pago Pago', state: 'AS', lat: -14.28, lng: -170.69 }
+];
+
+export const STATE_NAMES: Record<string, string> = {
+  AK: 'Alaska', AL: 'Alabama', AS: 'American Samoa', CA: 'California', CT: 'Connecticut',
+  DC: 'District of Columbia', DE: 'Delaware', FL: 'Florida', GA: 'Georgia', GU: 'Guam',
+  HI: 'Hawaii', LA: 'Louisiana', MA: 'Massachusetts', MD: 'Maryland', ME: 'Maine',
+  NC: 'North Carolina', NH: 'New Hampshire', NJ: 'New Jersey', NY: 'New York', OR: 'Oregon',
+  PA: 'Pennsylvania', PR: 'Puerto Rico', RI: 'Rhode Island', SC: 'South Carolina', TX: 'Texas',
+  VA: 'Virginia', VI: 'U.S. Virgin Islands', WA: 'Washington'
+};
+
+const STATE_TIME_ZONES: Record<string, string> = {
+  AK: 'America/Anchorage', AL: 'America/Chicago', AS: 'Pacific/Pago_Pago', CA: 'America/Los_Angeles',
+  GU: 'Pacific/Guam', HI: 'Pacific/Honolulu', LA: 'America/Chicago', OR: 'America/Los_Angeles',
+  PR: 'America/Puerto_Rico', TX: 'America/Chicago', VI: 'America/St_Thomas', WA: 'America/Los_Angeles'
+};
+
+// The Florida panhandle west of the Apalachicola River keeps Central time
+const TIME_ZONE_OVERRIDES: Record<string, string> = {
+  '8729108': 'America/Chicago',
+  '8729840': 'America/Chicago'
+};
+
+export const stateTimeZone = (state: string): string | undefined => STATE_TIME_ZONES[state];
+
+export const catalogTimeZone = (stationId: string): string | undefined => {
+  const station = STATION_CATALOG.find(s => s.id === stationId);
+  if (!station) return undefined;
+  return TIME_ZONE_OVERRIDES[station.id] ?? STATE_TIME_ZONES[station.state] ?? 'America/New_York';
+};
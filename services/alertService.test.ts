@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AlertRule, ThresholdWindow } from '../types';
+
+vi.mock('./exportService', () => ({ loadWindowsForRange: vi.fn() }));
+vi.mock('./stationMetadataService', () => ({ fetchStationTimeZone: vi.fn(async () => 'UTC'), fetchStationInfo: vi.fn() }));
+
+import { loadAlertHistory, runAlertRules } from './alertService';
+import { loadWindowsForRange } from './exportService';
+
+const NOW = new Date('2026-06-01T08:00:00Z');
+const STATION = { id: '9414290', name: 'San Francisco' };
+
+const targetWindow = (start: string, end: string, peak: string): ThresholdWindow => ({
+  start: new Date(start),
+  end: new Date(end),
+  durationMinutes: (new Date(end).getTime() - new Date(start).getTime()) / 60000,
+  peak: { time: new Date(peak), height: 6.4, isPeak: true, type: 'H' }
+});
+
+const RULE: AlertRule = {
+  id: 'rule_a',
+  name: 'King tides',
+  enabled: true,
+  stations: [STATION],
+  target: { mode: 'high', high: 6, low: 0 },
+  unit: 'ft',
+  leadDays: 2,
+  fromHour: 0,
+  toHour: 24,
+  weekdays: [0, 1, 2, 3, 4, 5, 6],
+  daylightOnly: false
+};
+
+describe('runAlertRules', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    });
+    vi.mocked(loadWindowsForRange).mockResolvedValue([targetWindow('2026-06-02T10:00:00Z', '2026-06-02T12:00:00Z', '2026-06-02T11:00:00Z')]);
+  });
+
+  it('records what it sent and never announces the same window twice', async () => {
+    const notify = vi.fn(() => true);
+
+    const first = await runAlertRules([RULE], [], notify, NOW);
+    const second = await runAlertRules([RULE], [], notify, NOW);
+
+    expect(first).toHaveLength(1);
+    expect(second).toEqual([]);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(loadAlertHistory().map(r => r.key)).toEqual(['rule_a|9414290|2026-06-02T11:00:00.000Z']);
+  });
+
+  it('queues overlapping runs instead of letting both send the alert', async () => {
+    const notify = vi.fn(() => true);
+
+    const runs = await Promise.all([
+      runAlertRules([RULE], [], notify, NOW),
+      runAlertRules([{ ...RULE, name: 'Edited' }], [], notify, NOW),
+      runAlertRules([RULE], [], notify, NOW)
+    ]);
+
+    expect(runs.map(r => r.length)).toEqual([1, 0, 0]);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(loadAlertHistory()).toHaveLength(1);
+  });
+
+  it('keeps an alert for a later run when it could not be shown', async () => {
+    const notify = vi.fn().mockReturnValueOnce(false).mockReturnValue(true);
+
+    expect(await runAlertRules([RULE], [], notify, NOW)).toEqual([]);
+    expect(await runAlertRules([RULE], [], notify, NOW)).toHaveLength(1);
+    expect(notify).toHaveBeenCalledTimes(2);
+  });
+});
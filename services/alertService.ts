@@ -0,0 +1,96 @@
+import { addDays } from 'date-fns';
+import { loadWindowsForRange } from './exportService';
+import { fetchStationInfo, fetchStationTimeZone } from './stationMetadataService';
+import { isAlertRuleList, readStoredJson } from './settingsService';
+import { AlertRecord, AlertRule, SavedStation } from '../types';
+import { alertBody, alertKey, isWindowDue, windowMatchesRule } from '../utils/alertRules';
+import { profileTarget } from '../utils/targets';
+import { toZonedTime } from '../utils/timeZones';
+
+const RULES_KEY = 'tidewatch_alert_rules';
+const HISTORY_KEY = 'tidewatch_alert_history';
+const MAX_HISTORY = 100;
+
+export const loadAlertRules = (): AlertRule[] => readStoredJson(RULES_KEY, [], isAlertRuleList);
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+// Newest first
+export const loadAlertHistory = (): AlertRecord[] =>
+  readStoredJson(HISTORY_KEY, [], (value): value is AlertRecord[] => Array.isArray(value));
+
+export const clearAlertHistory = () => localStorage.removeItem(HISTORY_KEY);
+
+// The run in progress, if any; the next one waits for it so both can't announce the same window
+let lastRun: Promise<unknown> = Promise.resolve();
+
+/**
+ * Checks every enabled rule against all of its stations and hands each new
+ * match to `notify`, which returns false when it couldn't be shown so the
+ * alert is retried on the next run. Runs queue behind each other, so editing
+ * rules mid-run can't send an alert twice. Returns the records that were sent.
+ */
+export const runAlertRules = (
+  rules: AlertRule[],
+  favorites: SavedStation[],
+  notify: (title: string, body: string) => boolean,
+  now = new Date()
+): Promise<AlertRecord[]> => {
+  const run = lastRun.then(() => evaluateRules(rules, favorites, notify, now));
+  lastRun = run.catch(() => undefined);
+  return run;
+};
+
+const evaluateRules = async (
+  rules: AlertRule[],
+  favorites: SavedStation[],
+  notify: (title: string, body: string) => boolean,
+  now: Date
+): Promise<AlertRecord[]> => {
+  const sentKeys = new Set(loadAlertHistory().map(r => r.key));
+  const sent: AlertRecord[] = [];
+
+  for (const rule of rules.filter(r => r.enabled)) {
+    const stations = rule.stations === 'favorites' ? favorites : rule.stations;
+    for (const station of stations) {
+      try {
+        const timeZone = await fetchStationTimeZone(station.id);
+        const today = toZonedTime(now, timeZone);
+        const target = rule.target ?? profileTarget(station.id, favorites);
+        const windows = await loadWindowsForRange(station.id, today, addDays(today, rule.leadDays), target, 'MLLW', timeZone);
+        const location = rule.daylightOnly ? await fetchStationInfo(station.id).catch(() => undefined) : undefined;
+
+        for (const w of windows) {
+          const key = alertKey(rule, station.id, w);
+          if (sentKeys.has(key) || !isWindowDue(rule, w, now, timeZone) || !windowMatchesRule(rule, w, location, timeZone)) continue;
+
+          const body = alertBody(rule, w, timeZone);
+          if (!notify(`🌊 ${rule.name || 'Tide Alert'}: ${station.name}`, body)) continue;
+          sentKeys.add(key);
+          sent.push({
+            key,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            stationId: station.id,
+            stationName: station.name,
+            windowStart: w.start.toISOString(),
+            body,
+            sentAt: now.toISOString()
+          });
+        }
+      } catch {
+        // A station that can't load right now is tried again on the next run
+      }
+    }
+  }
+
+  if (sent.length) {
+    // Read again: the history may have changed while stations were loading, and another tab may have written it
+    const sentNow = new Set(sent.map(r => r.key));
+    const history = loadAlertHistory().filter(r => !sentNow.has(r.key));
+    localStorage.setItem(HISTORY_KEY, JSON.stringify([...sent.reverse(), ...history].slice(0, MAX_HISTORY)));
+  }
+  return sent;
+};
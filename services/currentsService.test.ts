@@ -0,0 +1,64 @@
+import 'fake-indexeddb/auto';
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchCurrentPredictions } from './currentsService';
+import { OfflineError, ProductUnavailableError } from './noaaClient';
+
+const ANSWER = readFileSync(new URL('../fixtures/currents/SFB1201.json', import.meta.url), 'utf8');
+const JULY = new Date(2026, 6, 1);
+const ZONE = 'America/Los_Angeles';
+
+describe('fetchCurrentPredictions', () => {
+  let online = true;
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    online = true;
+    vi.stubGlobal('navigator', { get onLine() { return online; } });
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks NOAA for MAX_SLACK currents over the station\'s days, without a datum', async () => {
+    fetchMock.mockImplementation(async () => new Response(ANSWER));
+    const { predictions, source } = await fetchCurrentPredictions('SFB1201', JULY, ZONE);
+
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(source).toBe('network');
+    expect(predictions).toHaveLength(18);
+    expect(url.searchParams.get('product')).toBe('currents_predictions');
+    expect(url.searchParams.get('interval')).toBe('MAX_SLACK');
+    expect(url.searchParams.has('datum')).toBe(false);
+    expect(url.searchParams.get('begin_date')).toBe('20260701 07:00');
+  });
+
+  it('serves a month seen before from the saved copy when offline', async () => {
+    fetchMock.mockImplementation(async () => new Response(ANSWER));
+    await fetchCurrentPredictions('n03020', JULY, ZONE);
+    online = false;
+
+    const offline = await fetchCurrentPredictions('n03020', JULY, ZONE);
+    expect(offline.source).toBe('cache');
+    expect(offline.predictions).toHaveLength(18);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a month never seen as offline when there\'s no network', async () => {
+    online = false;
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(fetchCurrentPredictions('cb0102', JULY, ZONE)).rejects.toBeInstanceOf(OfflineError);
+  });
+
+  it('reports a station with no current predictions as such', async () => {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ current_predictions: { cp: [] } })));
+
+    const err = await fetchCurrentPredictions('PUG1515', JULY, ZONE).catch(e => e);
+    expect(err).toBeInstanceOf(ProductUnavailableError);
+    expect(err.message).toBe('Station PUG1515 doesn\'t publish current predictions.');
+  });
+});
@@ -0,0 +1,27 @@
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { CURRENTS_INTERVAL, CURRENTS_PRODUCT } from './noaaClient';
+import { CachedPredictions, fetchCurrentPredictionsCached, PredictionRequest } from './predictionCache';
+import { CurrentPrediction } from '../types';
+
+export const currentMonthRequest = (stationId: string, month: Date, timeZone?: string): PredictionRequest => ({
+  stationId,
+  beginDate: format(startOfMonth(month), 'yyyyMMdd'),
+  endDate: format(endOfMonth(month), 'yyyyMMdd'),
+  product: CURRENTS_PRODUCT,
+  datum: '',
+  interval: CURRENTS_INTERVAL,
+  timeZone
+});
+
+/**
+ * A month of max flood, max ebb and slack predictions at a current station,
+ * covering the station's days and stamped in GMT. Bins default to the
+ * station's reference depth.
+ */
+export const fetchCurrentPredictions = (
+  stationId: string,
+  month: Date,
+  timeZone?: string,
+  signal?: AbortSignal
+): Promise<CachedPredictions<CurrentPrediction>> =>
+  fetchCurrentPredictionsCached(currentMonthRequest(stationId, month, timeZone), signal);
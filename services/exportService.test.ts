@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TidePrediction } from '../types';
+
+vi.mock('./predictionCache', () => ({ fetchPredictionsForMonths: vi.fn() }));
+
+import { loadWindowsForRange } from './exportService';
+import { fetchPredictionsForMonths } from './predictionCache';
+
+const MINUTE_MS = 60000;
+const MIDNIGHT = Date.UTC(2026, 1, 1);
+const stamp = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+// Four hours either side of midnight into February, peaking at 5ft right on the month boundary
+const CURVE: TidePrediction[] = Array.from({ length: 81 }, (_, i) => {
+  const ms = MIDNIGHT + (i - 40) * 6 * MINUTE_MS;
+  return { t: stamp(ms), v: (5 - Math.abs(ms - MIDNIGHT) / (60 * MINUTE_MS) / 2).toFixed(3) };
+});
+const HILO: TidePrediction[] = [{ t: stamp(MIDNIGHT), v: '5.000', type: 'H' }];
+
+describe('loadWindowsForRange', () => {
+  it('keeps a window that crosses into the next month whole', async () => {
+    vi.mocked(fetchPredictionsForMonths).mockImplementation(async (_id, _from, _months, interval) => (interval === 'hilo' ? HILO : CURVE));
+
+    const windows = await loadWindowsForRange('9414290', new Date(2026, 0, 31), new Date(2026, 1, 1), { mode: 'high', high: 4.5, low: 0 }, 'MLLW', 'UTC');
+
+    expect(fetchPredictionsForMonths).toHaveBeenCalledWith('9414290', new Date(2026, 0, 1), 2, '6', 'MLLW', 'UTC');
+    expect(windows).toHaveLength(1);
+    expect(windows[0].start.toISOString()).toBe('2026-01-31T23:00:00.000Z');
+    expect(windows[0].end.toISOString()).toBe('2026-02-01T01:00:00.000Z');
+    expect(windows[0].durationMinutes).toBe(120);
+  });
+});
@@ -0,0 +1,45 @@
+import { eachMonthOfInterval, endOfDay, isAfter, isBefore, startOfDay } from 'date-fns';
+import { fetchPredictionsForMonths } from './predictionCache';
+import { ThresholdWindow, TideTarget } from '../types';
+import { analyzePredictions } from '../utils/tideScan';
+import { fromZonedTime } from '../utils/timeZones';
+
+/**
+ * Target windows for a station between two dates, loaded a month at a time
+ * through the prediction cache and analyzed in one pass, so a window that
+ * runs over midnight at the end of a month stays whole. `target` is in the
+ * same datum as `datum`. `from` and `to` are days on the station's clock when
+ * `timeZone` is given; the windows come back as real instants either way.
+ */
+export const loadWindowsForRange = async (
+  stationId: string,
+  from: Date,
+  to: Date,
+  target: TideTarget,
+  datum = 'MLLW',
+  timeZone?: string
+): Promise<ThresholdWindow[]> => {
+  const start = startOfDay(from);
+  const end = endOfDay(to);
+  const toInstant = (d: Date) => (timeZone ? fromZonedTime(d, timeZone) : d);
+  const months = eachMonthOfInterval({ start, end });
+
+  // Sequential on purpose: a year's export shouldn't fire two dozen requests at once
+  const hilo = await fetchPredictionsForMonths(stationId, months[0], months.length, 'hilo', datum, timeZone);
+  const curve = await fetchPredictionsForMonths(stationId, months[0], months.length, '6', datum, timeZone);
+  const { windows } = analyzePredictions({ hilo, curve }, target, { fromMonth: months[0], months: months.length });
+
+  return windows.filter(w => !isBefore(w.end, toInstant(start)) && !isAfter(w.start, toInstant(end)));
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after the click can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,89 @@
+import { parse, endOfDay } from 'date-fns';
+import { HarmonicModel, HarmonicConstituent, isKnownConstituent, predictCurve, predictHiLo } from '../utils/harmonics';
+import { PredictionQuery, TidePrediction } from '../types';
+import { fromZonedTime } from '../utils/timeZones';
+
+const STORAGE_KEY = 'tidewatch_harmonics';
+const METERS_TO_FEET = 3.28084;
+
+// The subset of NOAA's mdapi `harcon.json` we rely on
+interface NoaaHarconFile {
+  units?: string;
+  HarmonicConstituents?: {
+    name: string;
+    amplitude: number;
+    phase_GMT: number;
+    speed: number;
+  }[];
+}
+
+const loadAll = (): Record<string, HarmonicModel> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const getHarmonicModel = (stationId: string): HarmonicModel | undefined => loadAll()[stationId];
+
+export const listHarmonicStations = (): string[] => Object.keys(loadAll());
+
+export const removeHarmonicModel = (stationId: string) => {
+  const all = loadAll();
+  delete all[stationId];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+/**
+ * Validates a NOAA harcon JSON document and stores it for `stationId`.
+ * `datumOffset` is MSL above MLLW for the station, since NOAA's constants
+ * are relative to mean sea level while the app works in MLLW.
+ */
+export const importHarcon = (stationId: string, raw: string, datumOffset: number): HarmonicModel => {
+  let doc: NoaaHarconFile;
+  try {
+    doc = JSON.parse(raw);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const rows = doc.HarmonicConstituents;
+  if (!Array.isArray(rows) || !rows.length) {
+    throw new Error('No HarmonicConstituents found. Download the harcon.json file for the station from NOAA.');
+  }
+
+  const scale = doc.units?.toLowerCase().startsWith('meter') ? METERS_TO_FEET : 1;
+  const constituents: HarmonicConstituent[] = rows
+    .filter(r => isKnownConstituent(r.name) && Number.isFinite(r.amplitude) && Number.isFinite(r.phase_GMT))
+    .map(r => ({ name: r.name.toUpperCase(), amplitude: r.amplitude * scale, phase: r.phase_GMT, speed: r.speed }));
+
+  if (!constituents.some(c => c.name === 'M2' || c.name === 'K1')) {
+    throw new Error('The file is missing the principal M2/K1 constituents.');
+  }
+
+  const model: HarmonicModel = { stationId, datumOffset, constituents };
+  const all = loadAll();
+  all[stationId] = model;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  return model;
+};
+
+/**
+ * Computes predictions on the device for a NOAA-style request, or returns
+ * null when no constants have been imported for the station. Only MLLW is
+ * supported because that's the datum the imported offset describes.
+ */
+export const predictLocally = (req: PredictionQuery): TidePrediction[] | null => {
+  const model = getHarmonicModel(req.stationId);
+  if (!model || req.product !== 'predictions' || req.datum !== 'MLLW') return null;
+
+  // Request dates are station-local days, or UTC days without a zone, as they are for NOAA
+  const zone = req.timeZone ?? 'UTC';
+  const begin = fromZonedTime(parse(req.beginDate, 'yyyyMMdd', new Date()), zone);
+  const end = fromZonedTime(endOfDay(parse(req.endDate, 'yyyyMMdd', new Date())), zone);
+
+  if (req.interval === 'hilo') return predictHiLo(model, begin, end);
+  const step = req.interval === 'h' ? 60 : parseInt(req.interval, 10) || 6;
+  return predictCurve(model, begin, end, step);
+};
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getImportedSeries, importProvider, importSeries, listImportedStations, removeImportedSeries } from './importProvider';
+
+const MINUTE_MS = 60000;
+const START = Date.UTC(2026, 6, 1, 7);
+const STATION = { name: 'Dock gauge', state: '', lat: 36.6, lng: -121.9, timeZone: 'America/Los_Angeles' };
+
+// Two days of six-minute readings of a 3ft semidiurnal tide
+const points = Array.from({ length: 480 }, (_, i) => ({
+  time: START + i * 6 * MINUTE_MS,
+  height: 3 + 3 * Math.sin((2 * Math.PI * i * 6) / 745.2)
+}));
+
+describe('importProvider', () => {
+  const store = new Map<string, string>();
+  const getItem = vi.fn((key: string) => store.get(key) ?? null);
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', { getItem, setItem: (key: string, value: string) => store.set(key, value) });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads storage once, however often the series are asked for', () => {
+    const { station } = importSeries(STATION, points);
+    getItem.mockClear();
+
+    listImportedStations();
+    getImportedSeries(station.id);
+    getImportedSeries(station.id);
+    expect(getItem).not.toHaveBeenCalled();
+
+    removeImportedSeries(station.id);
+    expect(listImportedStations().some(s => s.id === station.id)).toBe(false);
+    expect(JSON.parse(store.get('tidewatch_imported_series')!)[station.id]).toBeUndefined();
+  });
+
+  it('serves the station\'s days as GMT-stamped highs and lows', async () => {
+    const { station } = importSeries(STATION, points);
+
+    const rows = await importProvider.fetchPredictions({
+      stationId: station.id,
+      beginDate: '20260701',
+      endDate: '20260701',
+      product: 'predictions',
+      datum: 'MLLW',
+      interval: 'hilo',
+      timeZone: 'America/Los_Angeles'
+    });
+
+    expect(rows.length).toBeGreaterThanOrEqual(3);
+    expect(rows.every(r => r.t >= '2026-07-01 07:00' && r.t < '2026-07-02 07:00')).toBe(true);
+    expect(rows.filter(r => r.type === 'H').every(r => parseFloat(r.v) > 5.99)).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { endOfDay, parse } from 'date-fns';
+import { NOAAStation, StoredSeries, TideDataProvider, TidePrediction } from '../types';
+import { NoaaError, ProductUnavailableError } from './noaaClient';
+import { extractExtremes, IMPORTED_PREFIX, isImportedStationId, SeriesExtreme, SeriesPoint } from '../utils/seriesImport';
+import { formatNoaaTime } from '../utils/tideAnalysis';
+import { formatInZone, fromZonedTime } from '../utils/timeZones';
+
+const STORAGE_KEY = 'tidewatch_imported_series';
+
+export interface ImportedSeries {
+  station: NOAAStation;
+  points: SeriesPoint[];
+  extremes: SeriesExtreme[];
+  importedAt: number;
+}
+
+export class OutsideImportedRangeError extends NoaaError {
+  constructor(station: NOAAStation, first: number, last: number) {
+    const zone = station.timeZone!;
+    super(`The data imported for ${station.name} doesn't cover this month.`);
+    this.name = 'OutsideImportedRangeError';
+    this.suggestion = `Go to a month between ${formatInZone(new Date(first), zone, 'MMM yyyy')} and ${formatInZone(new Date(last), zone, 'MMM yyyy')}, or import a longer series.`;
+  }
+}
+
+// Parsed once and kept, since the stored series can run to megabytes; every change goes through saveAll
+let parsed: Record<string, StoredSeries> | null = null;
+
+const loadAll = (): Record<string, StoredSeries> => {
+  if (!parsed) {
+    try {
+      parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Record<string, StoredSeries>;
+    } catch {
+      parsed = {};
+    }
+  }
+  return parsed;
+};
+
+const saveAll = (all: Record<string, StoredSeries>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    throw new Error('Not enough browser storage for this series. Remove another imported station, or import a shorter or coarser file.');
+  }
+  parsed = all;
+};
+
+export const listImportedStations = (): NOAAStation[] => Object.values(loadAll()).map(s => s.station);
+
+export const getImportedSeries = (stationId: string): ImportedSeries | undefined => {
+  const stored = loadAll()[stationId];
+  if (!stored) return undefined;
+  return {
+    station: stored.station,
+    points: stored.points.map(([time, height]) => ({ time, height })),
+    extremes: stored.extremes.map(([time, height, type]) => ({ time, height, type })),
+    importedAt: stored.importedAt
+  };
+};
+
+/**
+ * Stores a parsed series as a new station, or replaces the series of an
+ * imported station when `station.id` is one already. Heights are taken as
+ * feet above the gauge's chart datum, which the app treats as MLLW.
+ */
+export const importSeries = (station: Omit<NOAAStation, 'id'> & { id?: string; timeZone: string }, points: SeriesPoint[]): ImportedSeries => {
+  const id = station.id && isImportedStationId(station.id) ? station.id : `${IMPORTED_PREFIX}${Date.now().toString(36)}`;
+  const extremes = extractExtremes(points);
+  if (extremes.length < 2) throw new Error('No highs and lows could be found. Is this a water-level series covering at least a day?');
+  const stored: StoredSeries = {
+    station: { ...station, id },
+    points: points.map(p => [p.time, Math.round(p.height * 1000) / 1000]),
+    extremes: extremes.map(e => [e.time, Math.round(e.height * 1000) / 1000, e.type]),
+    importedAt: Date.now()
+  };
+  saveAll({ ...loadAll(), [id]: stored });
+  return getImportedSeries(id)!;
+};
+
+export const removeImportedSeries = (stationId: string) => {
+  saveAll(Object.fromEntries(Object.entries(loadAll()).filter(([id]) => id !== stationId)));
+};
+
+// Every imported series as saved, for a settings backup
+export const storedSeriesList = (): StoredSeries[] => Object.values(loadAll());
+
+// Replaces every imported series with `series`, as restored from a backup
+export const replaceImportedSeries = (series: StoredSeries[]) => {
+  saveAll(Object.fromEntries(series.map(s => [s.station.id, s])));
+};
+
+const toRow = (time: number, height: number, type?: 'H' | 'L'): TidePrediction => ({
+  t: formatNoaaTime(new Date(time)),
+  v: height.toFixed(3),
+  ...(type ? { type } : {})
+});
+
+/**
+ * Imported series served like NOAA predictions: `hilo` requests get the
+ * extracted highs and lows, anything else the readings as recorded, whatever
+ * their spacing. Only the station's days asked for are returned, stamped in
+ * GMT like NOAA's.
+ */
+export const importProvider: TideDataProvider = {
+  id: 'import',
+  name: 'Imported file',
+  remote: false,
+  handles: isImportedStationId,
+  listStations: listImportedStations,
+  capabilities: () => ({ hilo: true, curve: true, datums: ['MLLW'], observed: false, currents: false }),
+  fetchPredictions: async req => {
+    const series = getImportedSeries(req.stationId);
+    if (!series) throw new NoaaError(`Imported station ${req.stationId} has been removed.`);
+    if (req.datum !== 'MLLW') throw new ProductUnavailableError(req.stationId, req.interval, req.datum);
+
+    const zone = series.station.timeZone!;
+    const from = fromZonedTime(parse(req.beginDate, 'yyyyMMdd', new Date()), zone).getTime();
+    const to = fromZonedTime(endOfDay(parse(req.endDate, 'yyyyMMdd', new Date())), zone).getTime();
+    const rows = req.interval === 'hilo'
+      ? series.extremes.filter(e => e.time >= from && e.time <= to).map(e => toRow(e.time, e.height, e.type))
+      : series.points.filter(p => p.time >= from && p.time <= to).map(p => toRow(p.time, p.height));
+
+    if (!rows.length) {
+      throw new OutsideImportedRangeError(series.station, series.points[0].time, series.points[series.points.length - 1].time);
+    }
+    return rows;
+  }
+};
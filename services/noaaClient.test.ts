@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DateRangeError,
+  noaaDateRange,
+  OfflineError,
+  ProductUnavailableError,
+  RateLimitError,
+  RequestAbortedError,
+  requestPredictions,
+  ServiceUnavailableError,
+  StationNotFoundError
+} from './noaaClient';
+import { PredictionQuery } from '../types';
+
+describe('noaaDateRange', () => {
+  it('turns station days into GMT bounds across the spring-forward day', () => {
+    // Midnight PST to the end of the day in PDT: 23 hours
+    expect(noaaDateRange({ beginDate: '20260308', endDate: '20260308', timeZone: 'America/Los_Angeles' }))
+      .toEqual({ begin_date: '20260308 08:00', end_date: '20260309 06:59' });
+  });
+
+  it('turns station days into GMT bounds across the fall-back day', () => {
+    // Midnight PDT to the end of the day in PST: 25 hours
+    expect(noaaDateRange({ beginDate: '20261101', endDate: '20261101', timeZone: 'America/Los_Angeles' }))
+      .toEqual({ begin_date: '20261101 07:00', end_date: '20261102 07:59' });
+  });
+
+  it('uses UTC days without a zone', () => {
+    expect(noaaDateRange({ beginDate: '20260301', endDate: '20260331' })).toEqual({ begin_date: '20260301 00:00', end_date: '20260331 23:59' });
+  });
+});
+
+describe('requestPredictions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks NOAA for GMT stamps over the station day', async () => {
+    const rows = [{ t: '2026-11-01 09:12', v: '5.912', type: 'H' }];
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ predictions: rows })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const predictions = await requestPredictions({
+      stationId: '9414290',
+      beginDate: '20261101',
+      endDate: '20261101',
+      product: 'predictions',
+      datum: 'MLLW',
+      interval: 'hilo',
+      timeZone: 'America/Los_Angeles'
+    });
+
+    const url = new URL(String((fetchMock.mock.calls[0] as unknown[])[0]));
+    expect(predictions).toEqual(rows);
+    expect(url.searchParams.get('time_zone')).toBe('gmt');
+    expect(url.searchParams.get('begin_date')).toBe('20261101 07:00');
+    expect(url.searchParams.get('end_date')).toBe('20261102 07:59');
+  });
+});
+
+// Stands in for NOAA's datagetter: answers each request in turn from `replies`, holding any reply
+// that's a promise until the test settles it, and failing like fetch when a request is aborted
+const mockNoaa = () => {
+  const replies: (() => Response | Promise<Response>)[] = [];
+  const signals: AbortSignal[] = [];
+  const fetchMock = vi.fn((_: string, init?: RequestInit) => {
+    const signal = init!.signal!;
+    signals.push(signal);
+    const reply = replies.shift() ?? (() => Response.json({ error: { message: 'No more replies' } }));
+    return new Promise<Response>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+      Promise.resolve(reply()).then(resolve, reject);
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { replies, signals, fetchMock };
+};
+
+const ROWS = [{ t: '2026-07-01 13:34', v: '-0.315', type: 'L' }];
+const ok = () => Response.json({ predictions: ROWS });
+const noaaError = (message: string) => () => Response.json({ error: { message } });
+const status = (code: number, headers?: Record<string, string>) => () => new Response('', { status: code, headers });
+
+// Each test asks about its own station so shared requests never leak between them
+const query = (stationId: string): PredictionQuery => ({
+  stationId,
+  beginDate: '20260701',
+  endDate: '20260731',
+  product: 'predictions',
+  datum: 'MLLW',
+  interval: 'hilo',
+  timeZone: 'America/Los_Angeles'
+});
+const FAST = { baseDelayMs: 1, maxDelayMs: 1 };
+
+describe('requestPredictions against NOAA', () => {
+  let noaa: ReturnType<typeof mockNoaa>;
+
+  beforeEach(() => {
+    noaa = mockNoaa();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('retries', () => {
+    it('tries again after a server error and returns the answer that follows', async () => {
+      noaa.replies.push(status(503), status(502), ok);
+
+      await expect(requestPredictions(query('9410101'), undefined, FAST)).resolves.toEqual(ROWS);
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up after the last retry with the classified error', async () => {
+      noaa.replies.push(status(503), status(503), status(503));
+
+      await expect(requestPredictions(query('9410102'), undefined, { ...FAST, retries: 2 })).rejects.toBeInstanceOf(ServiceUnavailableError);
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('reads how long to wait from a rate limit\'s Retry-After header', async () => {
+      noaa.replies.push(status(429, { 'Retry-After': '30' }));
+
+      const err = await requestPredictions(query('9410103'), undefined, { retries: 0 }).catch(e => e);
+      expect(err).toBeInstanceOf(RateLimitError);
+      expect(err.retryAfterMs).toBe(30000);
+    });
+
+    it('doesn\'t retry what waiting won\'t fix', async () => {
+      noaa.replies.push(noaaError('Wrong Station ID: Station ID 9410104 does not exist'), ok);
+
+      await expect(requestPredictions(query('9410104'), undefined, FAST)).rejects.toBeInstanceOf(StationNotFoundError);
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('de-duplication', () => {
+    it('shares one fetch between identical requests made while it runs', async () => {
+      noaa.replies.push(ok);
+
+      const [a, b] = await Promise.all([requestPredictions(query('9410201')), requestPredictions(query('9410201'))]);
+      expect(a).toEqual(ROWS);
+      expect(b).toBe(a);
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('fetches again once the shared request has finished', async () => {
+      noaa.replies.push(ok, ok);
+
+      await requestPredictions(query('9410202'));
+      await requestPredictions(query('9410202'));
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps requests for different months apart', async () => {
+      noaa.replies.push(ok, ok);
+
+      await Promise.all([requestPredictions(query('9410203')), requestPredictions({ ...query('9410203'), beginDate: '20260801', endDate: '20260831' })]);
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    let answer: (res: Response) => void;
+
+    beforeEach(() => {
+      noaa.replies.push(() => new Promise<Response>(resolve => (answer = resolve)));
+    });
+
+    it('lets one caller give up while the shared fetch carries on for the other', async () => {
+      const leaving = new AbortController();
+      const first = requestPredictions(query('9410301'), leaving.signal);
+      const second = requestPredictions(query('9410301'), new AbortController().signal);
+
+      leaving.abort();
+      await expect(first).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(noaa.signals[0].aborted).toBe(false);
+
+      answer(ok());
+      await expect(second).resolves.toEqual(ROWS);
+    });
+
+    it('aborts the fetch once every caller has given up', async () => {
+      const callers = [new AbortController(), new AbortController()];
+      const waiting = callers.map(c => requestPredictions(query('9410302'), c.signal));
+
+      callers.forEach(c => c.abort());
+      await Promise.all(waiting.map(w => expect(w).rejects.toBeInstanceOf(RequestAbortedError)));
+      expect(noaa.signals[0].aborted).toBe(true);
+    });
+
+    it('starts afresh for a caller who asks after everyone else gave up', async () => {
+      const gaveUp = new AbortController();
+      const abandoned = requestPredictions(query('9410303'), gaveUp.signal);
+      gaveUp.abort();
+      await expect(abandoned).rejects.toBeInstanceOf(RequestAbortedError);
+
+      noaa.replies.push(ok);
+      await expect(requestPredictions(query('9410303'))).resolves.toEqual(ROWS);
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('never aborts a fetch a caller without a signal is waiting on', async () => {
+      const leaving = new AbortController();
+      const patient = requestPredictions(query('9410304'));
+      const impatient = requestPredictions(query('9410304'), leaving.signal);
+
+      leaving.abort();
+      await expect(impatient).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(noaa.signals[0].aborted).toBe(false);
+
+      answer(ok());
+      await expect(patient).resolves.toEqual(ROWS);
+    });
+
+    it('stops waiting between retries once everyone has given up', async () => {
+      const caller = new AbortController();
+      const waiting = requestPredictions(query('9410305'), caller.signal, { baseDelayMs: 60000, maxDelayMs: 60000 });
+      answer(new Response('', { status: 503 }));
+      await vi.waitFor(() => expect(noaa.fetchMock).toHaveBeenCalledTimes(1));
+
+      caller.abort();
+      await expect(waiting).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(noaa.signals[0].aborted).toBe(true);
+      expect(noaa.fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('error classification', () => {
+    it.each([
+      ['an unknown station', noaaError('Wrong Station ID: Station ID 9410401 does not exist'), StationNotFoundError],
+      ['a product the station lacks', noaaError('No Predictions data was found. Please make sure the Datum input is valid.'), ProductUnavailableError],
+      ['an empty answer', () => Response.json({ predictions: [] }), ProductUnavailableError],
+      ['dates out of range', noaaError('The begin date is out of range for this station.'), DateRangeError],
+      ['a rate limit', status(429), RateLimitError],
+      ['a server error', status(500), ServiceUnavailableError]
+    ])('sorts %s into its error', async (_, reply, expected) => {
+      noaa.replies.push(reply);
+
+      await expect(requestPredictions(query('9410401'), undefined, { retries: 0 })).rejects.toBeInstanceOf(expected);
+    });
+
+    it('reads a fetch that never reached NOAA as being offline', async () => {
+      noaa.replies.push(() => Promise.reject(new TypeError('Failed to fetch')));
+
+      await expect(requestPredictions(query('9410402'), undefined, { retries: 0 })).rejects.toBeInstanceOf(OfflineError);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { endOfDay, parse } from 'date-fns';
+import { CurrentPrediction, PredictionQuery, TidePrediction } from '../types';
+import { fromZonedTime } from '../utils/timeZones';
+
+const DATA_API = 'https://api.tidesandcurrents.noaa.gov/api/prod/datagetter';
+
+// Current stations publish max flood, max ebb and slack, and have no datum
+export const CURRENTS_PRODUCT = 'currents_predictions';
+export const CURRENTS_INTERVAL = 'MAX_SLACK';
+
+/**
+ * Everything that can go wrong loading predictions, sorted into what the user
+ * can do about it. `retryable` errors are worth trying again automatically;
+ * being offline isn't, since waiting a few seconds rarely fixes it.
+ */
+export class NoaaError extends Error {
+  retryable = false;
+  // What to try next, phrased for the person looking at the screen
+  suggestion = 'Try again later.';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoaaError';
+  }
+}
+
+export class StationNotFoundError extends NoaaError {
+  constructor(stationId: string) {
+    super(`NOAA doesn't recognize station ${stationId}.`);
+    this.name = 'StationNotFoundError';
+    this.suggestion = 'Check the station ID, or search by place name instead.';
+  }
+}
+
+export class ProductUnavailableError extends NoaaError {
+  constructor(stationId: string, interval: string, datum: string) {
+    if (interval === CURRENTS_INTERVAL) {
+      super(`Station ${stationId} doesn't publish current predictions.`);
+      this.suggestion = 'Pick a nearby current station.';
+    } else {
+      super(`Station ${stationId} doesn't publish ${interval === 'hilo' ? 'high/low' : `${interval}-minute`} predictions in ${datum}.`);
+      this.suggestion = datum === 'MLLW'
+        ? 'Pick a nearby reference station, or import harmonic constants for this one.'
+        : 'Switch the datum to MLLW, or pick a nearby reference station.';
+    }
+    this.name = 'ProductUnavailableError';
+  }
+}
+
+export class DateRangeError extends NoaaError {
+  constructor(detail: string) {
+    super(`NOAA rejected the dates requested: ${detail}`);
+    this.name = 'DateRangeError';
+    this.suggestion = 'Go back to a month within a few years of today.';
+  }
+}
+
+export class RateLimitError extends NoaaError {
+  constructor(public retryAfterMs?: number) {
+    super('NOAA is limiting how fast TideWatch can ask for predictions.');
+    this.name = 'RateLimitError';
+    this.retryable = true;
+    this.suggestion = 'Wait a minute, then try again.';
+  }
+}
+
+export class OfflineError extends NoaaError {
+  constructor() {
+    super('You appear to be offline.');
+    this.name = 'OfflineError';
+    this.suggestion = 'Reconnect, or open a month you viewed before to use the saved copy.';
+  }
+}
+
+export class ServiceUnavailableError extends NoaaError {
+  constructor(detail: string) {
+    super(`NOAA's prediction service isn't responding (${detail}).`);
+    this.name = 'ServiceUnavailableError';
+    this.retryable = true;
+  }
+}
+
+// Thrown to callers that gave up waiting; never shown to the user
+export class RequestAbortedError extends Error {
+  constructor() {
+    super('The request was cancelled.');
+    this.name = 'RequestAbortedError';
+  }
+}
+
+// NOAA reports problems as { error: { message } }, which may arrive thrown as-is or wrapped in an Error
+const errorMessage = (err: unknown): string => {
+  if (err instanceof Error) return err.message;
+  const payload = err as { error?: { message?: string }; message?: string } | null;
+  return payload?.error?.message ?? payload?.message ?? String(err);
+};
+
+const retryAfter = (message: string): number | undefined => {
+  const seconds = /retry[- ]after[^\d]*(\d+)/i.exec(message)?.[1];
+  return seconds ? parseInt(seconds, 10) * 1000 : undefined;
+};
+
+export const classifyNoaaError = (err: unknown, req: PredictionQuery): NoaaError | RequestAbortedError => {
+  if (err instanceof NoaaError || err instanceof RequestAbortedError) return err;
+  if ((err as Error)?.name === 'AbortError') return new RequestAbortedError();
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return new OfflineError();
+
+  const message = errorMessage(err);
+  if (/wrong station id|station .*not found|invalid station|unknown station/i.test(message)) return new StationNotFoundError(req.stationId);
+  if (/no predictions data was found|no data was found|not offered|product .*not available|datum .*not valid/i.test(message)) {
+    return new ProductUnavailableError(req.stationId, req.interval, req.datum);
+  }
+  if (/range limit|begin(ning)? date|end date|date range|invalid date/i.test(message)) return new DateRangeError(message);
+  if (/\b429\b|too many requests|rate limit/i.test(message)) return new RateLimitError(retryAfter(message));
+  if (/failed to fetch|network ?error|load failed|networkerror/i.test(message)) return new OfflineError();
+  if (/\b5\d\d\b|timed? ?out|service unavailable|bad gateway|gateway timeout/i.test(message)) return new ServiceUnavailableError(message);
+
+  return new NoaaError(`Could not load predictions for station ${req.stationId}: ${message}`);
+};
+
+export const isAbort = (err: unknown): boolean => err instanceof RequestAbortedError;
+
+// Rejects as soon as `signal` aborts, leaving `promise` to finish for anyone else waiting on it
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new RequestAbortedError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestAbortedError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      err => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  abortable(new Promise(resolve => setTimeout(resolve, ms)), signal);
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs `attempt` until it succeeds, fails with a non-retryable error or runs
+ * out of retries. Waits double each time, with jitter so several tabs don't
+ * retry in lockstep, and a rate limit's own Retry-After wins when NOAA gives one.
+ */
+export const withRetry = async <T>(
+  attempt: () => Promise<T>,
+  classify: (err: unknown) => NoaaError | RequestAbortedError,
+  { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await abortable(attempt(), signal);
+    } catch (raw) {
+      const err = classify(raw);
+      if (err instanceof RequestAbortedError || !err.retryable || i >= retries) throw err;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** i) * (0.5 + Math.random() / 2);
+      await sleep(err instanceof RateLimitError && err.retryAfterMs ? err.retryAfterMs : backoff, signal);
+    }
+  }
+};
+
+// e.g. "20260308 08:00", the exact form NOAA takes for begin_date and end_date
+const gmtStamp = (instant: Date): string => instant.toISOString().slice(0, 16).replace(/-/g, '').replace('T', ' ');
+
+/**
+ * The request's days on the station's clock as exact GMT bounds. Asking NOAA
+ * for GMT keeps every stamp unambiguous, so the days have to be converted
+ * here instead: a station day is 23 or 25 hours long when its clocks change.
+ */
+export const noaaDateRange = (req: Pick<PredictionQuery, 'beginDate' | 'endDate' | 'timeZone'>): { begin_date: string; end_date: string } => {
+  const zone = req.timeZone ?? 'UTC';
+  return {
+    begin_date: gmtStamp(fromZonedTime(parse(req.beginDate, 'yyyyMMdd', new Date()), zone)),
+    end_date: gmtStamp(fromZonedTime(endOfDay(parse(req.endDate, 'yyyyMMdd', new Date())), zone))
+  };
+};
+
+interface NoaaResponse {
+  predictions?: TidePrediction[];
+  data?: TidePrediction[];
+  current_predictions?: { cp?: CurrentPrediction[] };
+  error?: { message: string };
+}
+
+// One datagetter call; NOAA reports bad requests as an `error` payload rather than an HTTP status
+const fetchNoaa = async (req: PredictionQuery, signal: AbortSignal): Promise<NoaaResponse> => {
+  const params = new URLSearchParams({
+    station: req.stationId,
+    product: req.product,
+    ...(req.product === CURRENTS_PRODUCT ? {} : { datum: req.datum }),
+    interval: req.interval,
+    ...noaaDateRange(req),
+    units: 'english',
+    time_zone: 'gmt',
+    format: 'json',
+    application: 'TideWatch'
+  });
+  const res = await fetch(`${DATA_API}?${params}`, { signal });
+  if (!res.ok) {
+    const wait = res.headers.get('Retry-After');
+    throw new Error(`NOAA answered ${res.status} ${res.statusText}${wait ? ` (retry after ${wait}s)` : ''}`);
+  }
+  const doc: NoaaResponse = await res.json();
+  if (doc.error) throw doc;
+  return doc;
+};
+
+interface SharedRequest {
+  promise: Promise<unknown[]>;
+  controller: AbortController;
+  // Callers still waiting that could give up; once none are left the fetch is aborted
+  waiting: number;
+}
+
+const inFlight = new Map<string, SharedRequest>();
+
+const requestKey = (req: PredictionQuery): string =>
+  [req.stationId, req.beginDate, req.endDate, req.timeZone ?? 'UTC', req.datum, req.interval, req.product].join('|');
+
+const sharedRequest = <T>(
+  req: PredictionQuery,
+  rows: (doc: NoaaResponse) => T[] | undefined,
+  signal?: AbortSignal,
+  retry?: Omit<RetryOptions, 'signal'>
+): Promise<T[]> => {
+  const key = requestKey(req);
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const promise = withRetry<T[]>(
+      async () => {
+        const found = rows(await fetchNoaa(req, controller.signal));
+        // A month of predictions is never empty; nothing back means the station doesn't offer them
+        if (!found?.length) throw new ProductUnavailableError(req.stationId, req.interval, req.datum);
+        return found;
+      },
+      err => classifyNoaaError(err, req),
+      { ...retry, signal: controller.signal }
+    ).finally(() => {
+      if (inFlight.get(key) === created) inFlight.delete(key);
+    });
+    // Nobody is left to hear about a request everyone gave up on
+    promise.catch(() => undefined);
+    const created: SharedRequest = { promise, controller, waiting: 0 };
+    inFlight.set(key, created);
+    shared = created;
+  }
+
+  const entry = shared;
+  const promise = entry.promise as Promise<T[]>;
+  // A caller without a signal never gives up, so the request always runs to the end for it
+  if (!signal) {
+    entry.waiting = Infinity;
+    return promise;
+  }
+
+  const leave = () => {
+    if (--entry.waiting > 0) return;
+    if (inFlight.get(key) === entry) inFlight.delete(key);
+    entry.controller.abort();
+  };
+  entry.waiting++;
+  if (signal.aborted) {
+    leave();
+    return Promise.reject(new RequestAbortedError());
+  }
+  signal.addEventListener('abort', leave, { once: true });
+  return abortable(promise, signal).finally(() => signal.removeEventListener('abort', leave));
+};
+
+/**
+ * A NOAA datagetter request with retries and classified errors, answered in
+ * GMT. Identical requests made while one is already running share it.
+ * Aborting `signal` stops this caller waiting; the shared request carries on
+ * for the others, and is cancelled once every caller has aborted.
+ */
+export const requestPredictions = (req: PredictionQuery, signal?: AbortSignal, retry?: Omit<RetryOptions, 'signal'>): Promise<TidePrediction[]> =>
+  // Predictions come back as `predictions`, observed water levels as `data`
+  sharedRequest(req, doc => doc.predictions ?? doc.data, signal, retry);
+
+// The same for a current station, whose product and interval are always CURRENTS_PRODUCT and CURRENTS_INTERVAL
+export const requestCurrentPredictions = (req: PredictionQuery, signal?: AbortSignal, retry?: Omit<RetryOptions, 'signal'>): Promise<CurrentPrediction[]> =>
+  sharedRequest(req, doc => doc.current_predictions?.cp, signal, retry);
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./noaaClient', () => ({ requestPredictions: vi.fn() }));
+
+import { fetchObservedMonth, fetchRecentObserved } from './observedService';
+import { requestPredictions } from './noaaClient';
+
+const requestMock = vi.mocked(requestPredictions);
+
+describe('observedService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    requestMock.mockReset();
+  });
+
+  it('asks for water levels up to today and drops the gaps NOAA leaves empty', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-10T20:00:00Z') });
+    requestMock.mockResolvedValue([
+      { t: '2026-03-01 08:00', v: '3.120' },
+      { t: '2026-03-01 08:06', v: '' },
+      { t: '2026-03-01 08:12', v: '3.250' }
+    ]);
+
+    const observed = await fetchObservedMonth('9414290', new Date(2026, 2, 1), 'MLLW', 'America/Los_Angeles');
+
+    expect(requestMock).toHaveBeenCalledWith({
+      stationId: '9414290',
+      beginDate: '20260301',
+      endDate: '20260310',
+      product: 'water_level',
+      datum: 'MLLW',
+      interval: '6',
+      timeZone: 'America/Los_Angeles'
+    });
+    expect(observed.map(o => o.height)).toEqual([3.12, 3.25]);
+    expect(observed[0].time.toISOString()).toBe('2026-03-01T08:00:00.000Z');
+  });
+
+  it('has nothing to observe in a future month', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-10T20:00:00Z') });
+
+    expect(await fetchObservedMonth('9414290', new Date(2026, 4, 1), 'MLLW', 'America/Los_Angeles')).toEqual([]);
+    expect(requestMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps only the last few hours of recent observations', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-10T20:00:00Z') });
+    requestMock.mockResolvedValue([
+      { t: '2026-03-10 15:00', v: '4.000' },
+      { t: '2026-03-10 17:30', v: '4.500' },
+      { t: '2026-03-10 19:00', v: '4.800' }
+    ]);
+
+    const recent = await fetchRecentObserved('9414290', 3, 'MLLW', 'America/Los_Angeles');
+    expect(recent.map(o => o.height)).toEqual([4.5, 4.8]);
+  });
+});
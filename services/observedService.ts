@@ -0,0 +1,37 @@
+import { format, startOfMonth, endOfMonth, subHours, isAfter } from 'date-fns';
+import { requestPredictions } from './noaaClient';
+import { TideEvent } from '../types';
+import { toTideEvents } from '../utils/tideAnalysis';
+import { toZonedTime } from '../utils/timeZones';
+
+// NOAA reports gaps in the record as empty values
+const toObservations = (raw: { t: string; v: string }[]): TideEvent[] =>
+  toTideEvents(raw.filter(r => r.v !== '' && r.v != null), false).filter(e => Number.isFinite(e.height));
+
+const fetchWaterLevels = (stationId: string, beginDate: string, endDate: string, datum: string, timeZone?: string) =>
+  requestPredictions({ stationId, beginDate, endDate, product: 'water_level', datum, interval: '6', timeZone });
+
+// Days on the station's clock, like every other request
+const stationDate = (instant: Date, timeZone?: string) =>
+  format(timeZone ? toZonedTime(instant, timeZone) : instant, 'yyyyMMdd');
+
+/**
+ * Six-minute observed water levels for a month, up to now. Months entirely in
+ * the future have nothing to observe and resolve to an empty list.
+ */
+export const fetchObservedMonth = async (stationId: string, month: Date, datum = 'MLLW', timeZone?: string): Promise<TideEvent[]> => {
+  const now = timeZone ? toZonedTime(new Date(), timeZone) : new Date();
+  const begin = startOfMonth(month);
+  if (isAfter(begin, now)) return [];
+
+  const end = isAfter(endOfMonth(month), now) ? now : endOfMonth(month);
+  return toObservations(await fetchWaterLevels(stationId, format(begin, 'yyyyMMdd'), format(end, 'yyyyMMdd'), datum, timeZone));
+};
+
+// The most recent few hours of observations, newest last
+export const fetchRecentObserved = async (stationId: string, hours = 3, datum = 'MLLW', timeZone?: string): Promise<TideEvent[]> => {
+  const now = new Date();
+  const since = subHours(now, hours);
+  const raw = await fetchWaterLevels(stationId, stationDate(since, timeZone), stationDate(now, timeZone), datum, timeZone);
+  return toObservations(raw).filter(o => o.time >= since);
+};
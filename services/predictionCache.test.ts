@@ -0,0 +1,151 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TidePrediction } from '../types';
+
+vi.mock('./tideProviders', () => ({
+  providerFor: () => ({ remote: true }),
+  fetchProviderPredictions: vi.fn()
+}));
+vi.mock('./stationMetadataService', () => ({
+  fetchStationTimeZone: async () => 'America/Los_Angeles',
+  fetchTideOffsets: vi.fn(async () => null)
+}));
+
+import { fetchPredictionsCached, monthRequest, prefetchStations } from './predictionCache';
+import { fetchProviderPredictions } from './tideProviders';
+import { fetchTideOffsets } from './stationMetadataService';
+import { DateRangeError, ProductUnavailableError } from './noaaClient';
+
+const fetchMock = vi.mocked(fetchProviderPredictions);
+const ROWS: TidePrediction[] = [{ t: '2026-11-01 03:12', v: '5.912', type: 'H' }];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each test uses its own station so cache entries don't leak between them
+const request = (stationId: string) => monthRequest(stationId, new Date(2026, 10, 1), 'hilo');
+
+// A lone M2 constituent is enough to tell computed predictions from NOAA's
+const harmonicsFor = (stationId: string) => JSON.stringify({
+  [stationId]: { stationId, datumOffset: 3, constituents: [{ name: 'M2', amplitude: 2, phase: 0, speed: 28.984104 }] }
+});
+
+describe('fetchPredictionsCached', () => {
+  let online = true;
+
+  beforeEach(() => {
+    online = true;
+    vi.stubGlobal('navigator', { get onLine() { return online; } });
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => undefined });
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('reports a fresh saved copy as saved, not as an offline copy', async () => {
+    fetchMock.mockResolvedValue(ROWS);
+    const first = await fetchPredictionsCached(request('9410001'));
+    const second = await fetchPredictionsCached(request('9410001'));
+
+    expect(first.source).toBe('network');
+    expect(second).toMatchObject({ source: 'saved', predictions: ROWS });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the saved copy as an offline copy when the browser is offline', async () => {
+    fetchMock.mockResolvedValue(ROWS);
+    await fetchPredictionsCached(request('9410002'));
+    online = false;
+
+    expect((await fetchPredictionsCached(request('9410002'))).source).toBe('cache');
+  });
+
+  it('falls back to a stale copy when the refresh fails', async () => {
+    fetchMock.mockResolvedValueOnce(ROWS).mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    await fetchPredictionsCached(request('9410003'));
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 31 * DAY_MS);
+
+    const result = await fetchPredictionsCached(request('9410003'));
+    expect(result).toMatchObject({ source: 'cache', predictions: ROWS });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('computes months past NOAA\'s range from harmonic constants, without asking NOAA again', async () => {
+    vi.stubGlobal('localStorage', { getItem: () => harmonicsFor('9410005'), setItem: () => undefined });
+    fetchMock.mockRejectedValue(new DateRangeError('The begin date is out of range'));
+    const far = (month: Date) => monthRequest('9410005', month, 'hilo', 'MLLW', 'UTC');
+
+    const first = await fetchPredictionsCached(far(new Date(2199, 0, 1)));
+    const later = await fetchPredictionsCached(far(new Date(2199, 5, 1)));
+
+    expect(first.source).toBe('harmonic');
+    expect(first.predictions.length).toBeGreaterThan(100);
+    expect(later.source).toBe('harmonic');
+    expect(later.predictions[0].t.startsWith('2199-06')).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves what it derives for a subordinate station, so the next load needs nothing from NOAA', async () => {
+    const subordinate = monthRequest('9410006', new Date(2026, 10, 1), 'hilo', 'MLLW', 'America/Los_Angeles');
+    vi.mocked(fetchTideOffsets).mockResolvedValue({
+      referenceId: '9410170',
+      highMinutes: 30,
+      lowMinutes: 45,
+      highHeight: 0.9,
+      lowHeight: 0.9,
+      heightType: 'ratio'
+    });
+    fetchMock.mockImplementation(async req => {
+      if (req.stationId === '9410006') throw new ProductUnavailableError(req.stationId, req.interval, req.datum);
+      return [{ t: '2026-11-10 12:00', v: '6.000', type: 'H' }, { t: '2026-11-10 18:15', v: '-1.000', type: 'L' }];
+    });
+
+    const first = await fetchPredictionsCached(subordinate);
+    expect(first.source).toBe('subordinate');
+    expect(first.predictions).toEqual([{ t: '2026-11-10 12:30', v: '5.400', type: 'H' }, { t: '2026-11-10 19:00', v: '-0.900', type: 'L' }]);
+
+    fetchMock.mockClear();
+    online = false;
+    const offline = await fetchPredictionsCached(subordinate);
+    online = true;
+    const saved = await fetchPredictionsCached(subordinate);
+
+    expect(offline).toMatchObject({ source: 'cache', predictions: first.predictions });
+    expect(saved).toMatchObject({ source: 'subordinate', predictions: first.predictions });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rethrows the provider error with nothing saved and no harmonic constants', async () => {
+    const err = new Error('NOAA is down');
+    fetchMock.mockRejectedValue(err);
+
+    await expect(fetchPredictionsCached(request('9410004'))).rejects.toBe(err);
+  });
+});
+
+describe('prefetchStations', () => {
+  let online = true;
+
+  beforeEach(() => {
+    online = true;
+    vi.stubGlobal('navigator', { get onLine() { return online; } });
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('saves months where the month view looks for them, in the station\'s zone and datum', async () => {
+    fetchMock.mockResolvedValue(ROWS);
+    const month = new Date(2026, 10, 1);
+    await prefetchStations([{ id: '9410020', name: 'Prefetched' }], month, 1, { '9410020': { datum: 'MSL', unit: 'ft' } }, ['hilo']);
+    online = false;
+
+    const offline = await fetchPredictionsCached(monthRequest('9410020', month, 'hilo', 'MSL', 'America/Los_Angeles'));
+    expect(offline).toMatchObject({ source: 'cache', predictions: ROWS });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toMatchObject({ datum: 'MSL', timeZone: 'America/Los_Angeles' });
+  });
+});
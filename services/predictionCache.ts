@@ -0,0 +1,289 @@
+import { format, parse, startOfMonth, endOfDay, endOfMonth, addDays, addMonths } from 'date-fns';
+import { DateRangeError, isAbort, ProductUnavailableError, requestCurrentPredictions } from './noaaClient';
+import { fetchProviderPredictions, providerFor } from './tideProviders';
+import { predictLocally } from './harmonicService';
+import { fetchStationTimeZone, fetchTideOffsets } from './stationMetadataService';
+import { CurrentPrediction, PredictionQuery, TidePrediction, SavedStation, StationPrefs } from '../types';
+import { applyOffsets, cosineCurve, toPredictionRows } from '../utils/subordinate';
+import { toTideEvents } from '../utils/tideAnalysis';
+import { fromZonedTime } from '../utils/timeZones';
+
+const DB_NAME = 'tidewatch';
+const DB_VERSION = 1;
+const STORE = 'predictions';
+
+// Predictions are deterministic, but NOAA occasionally revises datums and constituents
+const REVALIDATE_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type PredictionRequest = PredictionQuery;
+
+// 'saved' is a fresh cache hit while online; 'cache' means a saved copy stood in for an unreachable network
+export type PredictionSource = 'network' | 'saved' | 'cache' | 'harmonic' | 'import' | 'subordinate';
+
+export interface CachedPredictions<T = TidePrediction> {
+  predictions: T[];
+  source: PredictionSource;
+  fetchedAt: number;
+}
+
+interface CacheRecord<T = TidePrediction> {
+  key: string;
+  predictions: T[];
+  fetchedAt: number;
+  // Set when the rows were worked out here rather than fetched, so a saved copy still says so
+  source?: PredictionSource;
+}
+
+// The zone sets which hours the days cover; 'gmt' leaves behind entries saved before rows were GMT-stamped
+export const cacheKey = (req: PredictionRequest): string =>
+  [req.stationId, req.beginDate, req.endDate, req.timeZone ?? 'UTC', req.datum, req.interval, req.product, 'gmt'].join('|');
+
+// Start of the earliest future range NOAA refused, per station; the harmonic constants have no such horizon
+const noaaRangeEnds = new Map<string, string>();
+
+const isBeyondNoaaRange = (req: PredictionRequest): boolean => {
+  const end = noaaRangeEnds.get(req.stationId);
+  return !!end && req.beginDate >= end;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const readRecord = async <T = TidePrediction>(key: string): Promise<CacheRecord<T> | undefined> => {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+      request.onsuccess = () => resolve(request.result as CacheRecord<T> | undefined);
+      request.onerror = () => reject(request.error);
+    });
+  } catch {
+    // A broken or unavailable IndexedDB should never stop a network load
+    return undefined;
+  }
+};
+
+const writeRecord = async <T>(record: CacheRecord<T>): Promise<void> => {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch {
+    // Not caching only costs the offline copy; the predictions themselves are fine
+  }
+};
+
+/**
+ * Predictions for a subordinate station worked out from its reference
+ * station, for the requests NOAA refuses: most subordinate stations only get
+ * highs and lows, and only in MLLW. Null when the station isn't subordinate.
+ */
+const deriveFromReference = async (req: PredictionRequest, signal?: AbortSignal): Promise<TidePrediction[] | null> => {
+  if (req.product !== 'predictions' || req.datum !== 'MLLW' || !req.timeZone) return null;
+  const offsets = await fetchTideOffsets(req.stationId).catch(() => null);
+  if (!offsets) return null;
+
+  const referenceZone = await fetchStationTimeZone(offsets.referenceId);
+  const firstDay = parse(req.beginDate, 'yyyyMMdd', new Date());
+  const lastDay = parse(req.endDate, 'yyyyMMdd', new Date());
+  // A day either side, so the offsets can't shift a turn out of range and the curve has turns to start and end on
+  const { predictions } = await fetchPredictionsCached({
+    stationId: offsets.referenceId,
+    beginDate: format(addDays(firstDay, -1), 'yyyyMMdd'),
+    endDate: format(addDays(lastDay, 1), 'yyyyMMdd'),
+    product: 'predictions',
+    datum: 'MLLW',
+    interval: 'hilo',
+    timeZone: referenceZone
+  }, signal);
+
+  const extremes = applyOffsets(toTideEvents(predictions, true), offsets);
+  const begin = fromZonedTime(firstDay, req.timeZone);
+  const end = fromZonedTime(endOfDay(lastDay), req.timeZone);
+  if (req.interval === 'hilo') return toPredictionRows(extremes.filter(e => e.time >= begin && e.time <= end));
+  const step = req.interval === 'h' ? 60 : parseInt(req.interval, 10) || 6;
+  return toPredictionRows(cosineCurve(extremes, begin, end, step));
+};
+
+/**
+ * Cache-first wrapper around the station's data provider. Local providers,
+ * like imported files, are read directly and never cached. Fresh cache entries are
+ * returned without touching the network; stale ones are refreshed when
+ * possible and served as-is when the network is unavailable. Requests a
+ * subordinate station can't be served are derived from its reference
+ * station, and saved like any other. Imported harmonic constants serve dates past NOAA's range, and
+ * are the last resort when nothing is cached; after that comes the client's
+ * classified `NoaaError`.
+ */
+export const fetchPredictionsCached = async (req: PredictionRequest, signal?: AbortSignal): Promise<CachedPredictions> => {
+  if (!providerFor(req.stationId).remote) {
+    return { predictions: await fetchProviderPredictions(req, signal), source: 'import', fetchedAt: Date.now() };
+  }
+
+  if (isBeyondNoaaRange(req)) {
+    const local = predictLocally(req);
+    if (local) return { predictions: local, source: 'harmonic', fetchedAt: Date.now() };
+  }
+
+  const key = cacheKey(req);
+  const cached = await readRecord(key);
+  const isFresh = cached && Date.now() - cached.fetchedAt < REVALIDATE_AFTER_MS;
+
+  if (cached && (isFresh || !navigator.onLine)) {
+    return { predictions: cached.predictions, source: navigator.onLine ? cached.source ?? 'saved' : 'cache', fetchedAt: cached.fetchedAt };
+  }
+
+  try {
+    const predictions = await fetchProviderPredictions(req, signal);
+    const record = { key, predictions, fetchedAt: Date.now() };
+    await writeRecord(record);
+    return { predictions, source: 'network', fetchedAt: record.fetchedAt };
+  } catch (err) {
+    if (isAbort(err)) throw err;
+    if (err instanceof ProductUnavailableError) {
+      const derived = await deriveFromReference(req, signal).catch(deriveErr => {
+        if (isAbort(deriveErr)) throw deriveErr;
+        return null;
+      });
+      if (derived?.length) {
+        // Saved like NOAA's own rows, so the next load skips the refused request and works offline
+        const record: CacheRecord = { key, predictions: derived, fetchedAt: Date.now(), source: 'subordinate' };
+        await writeRecord(record);
+        return { predictions: derived, source: 'subordinate', fetchedAt: record.fetchedAt };
+      }
+    }
+    if (err instanceof DateRangeError && req.beginDate > format(new Date(), 'yyyyMMdd')) {
+      const end = noaaRangeEnds.get(req.stationId);
+      if (!end || req.beginDate < end) noaaRangeEnds.set(req.stationId, req.beginDate);
+      const local = predictLocally(req);
+      if (local) return { predictions: local, source: 'harmonic', fetchedAt: Date.now() };
+    }
+    if (cached) {
+      return { predictions: cached.predictions, source: 'cache', fetchedAt: cached.fetchedAt };
+    }
+    const local = predictLocally(req);
+    if (local) {
+      return { predictions: local, source: 'harmonic', fetchedAt: Date.now() };
+    }
+    throw err;
+  }
+};
+
+/**
+ * Max flood, max ebb and slack at a current station, through the same cache so
+ * months viewed before still load offline. There's nothing to work currents
+ * out from locally, so with no saved copy the client's `NoaaError` stands.
+ */
+export const fetchCurrentPredictionsCached = async (req: PredictionRequest, signal?: AbortSignal): Promise<CachedPredictions<CurrentPrediction>> => {
+  const key = cacheKey(req);
+  const cached = await readRecord<CurrentPrediction>(key);
+  const isFresh = cached && Date.now() - cached.fetchedAt < REVALIDATE_AFTER_MS;
+
+  if (cached && (isFresh || !navigator.onLine)) {
+    return { predictions: cached.predictions, source: navigator.onLine ? 'saved' : 'cache', fetchedAt: cached.fetchedAt };
+  }
+
+  try {
+    const predictions = await requestCurrentPredictions(req, signal);
+    const record = { key, predictions, fetchedAt: Date.now() };
+    await writeRecord(record);
+    return { predictions, source: 'network', fetchedAt: record.fetchedAt };
+  } catch (err) {
+    if (isAbort(err) || !cached) throw err;
+    return { predictions: cached.predictions, source: 'cache', fetchedAt: cached.fetchedAt };
+  }
+};
+
+export const monthRequest = (stationId: string, month: Date, interval: string, datum = 'MLLW', timeZone?: string): PredictionRequest => ({
+  stationId,
+  beginDate: format(startOfMonth(month), 'yyyyMMdd'),
+  endDate: format(endOfMonth(month), 'yyyyMMdd'),
+  product: 'predictions',
+  datum,
+  interval,
+  timeZone
+});
+
+/**
+ * Predictions for `months` consecutive months. NOAA won't serve six-minute
+ * predictions for more than a month per request, so the range goes out as
+ * one request per month, which also shares cache entries with the month
+ * view. Chunks are fetched one at a time and merged in order; aborting
+ * `signal` stops before the next one.
+ */
+export const fetchPredictionsForMonths = async (
+  stationId: string,
+  fromMonth: Date,
+  months: number,
+  interval: string,
+  datum = 'MLLW',
+  timeZone?: string,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<TidePrediction[]> => {
+  const merged: TidePrediction[] = [];
+  for (let i = 0; i < months; i++) {
+    const { predictions } = await fetchPredictionsCached(monthRequest(stationId, addMonths(fromMonth, i), interval, datum, timeZone), signal);
+    // NOAA stamps sort as text; drop anything a neighbouring chunk already covered
+    const last = merged.length ? merged[merged.length - 1].t : '';
+    merged.push(...predictions.filter(p => p.t > last));
+    onProgress?.(i + 1, months);
+  }
+  return merged;
+};
+
+/**
+ * Warms the cache for the given stations, one request at a time so a long
+ * favorites list doesn't flood NOAA. Months are requested the way the month
+ * view asks for them, in each station's own zone and chosen datum, so they
+ * land on the entries it reads. Failures are skipped silently; the next
+ * foreground load will surface them.
+ */
+export const prefetchStations = async (
+  stations: SavedStation[],
+  fromMonth: Date,
+  months: number,
+  stationPrefs: Record<string, StationPrefs> = {},
+  intervals: string[] = ['hilo', '6']
+): Promise<void> => {
+  if (!navigator.onLine) return;
+
+  for (const station of stations.filter(s => providerFor(s.id).remote)) {
+    const timeZone = await fetchStationTimeZone(station.id);
+    const datum = stationPrefs[station.id]?.datum ?? 'MLLW';
+    for (let i = 0; i < months; i++) {
+      for (const interval of intervals) {
+        const req = monthRequest(station.id, addMonths(fromMonth, i), interval, datum, timeZone);
+        const cached = await readRecord(cacheKey(req));
+        if (cached && Date.now() - cached.fetchedAt < REVALIDATE_AFTER_MS) continue;
+        try {
+          await fetchPredictionsCached(req);
+        } catch {
+          // Leave it for the foreground load to report
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,126 @@
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TidePrediction, TideQuery } from '../types';
+
+vi.mock('./geminiService', () => ({ findStationId: vi.fn() }));
+vi.mock('./predictionCache', () => ({ fetchPredictionsForMonths: vi.fn() }));
+vi.mock('./stationMetadataService', () => ({
+  fetchStationInfo: vi.fn(),
+  fetchStationTimeZone: vi.fn()
+}));
+vi.mock('./tideProviders', () => ({
+  searchableStations: () => [{ id: '9413450', name: 'Monterey', state: 'CA', lat: 36.605, lng: -121.888 }]
+}));
+
+import { answerQuery, interpretQuestion, QuestionModel } from './questionService';
+import { fetchPredictionsForMonths } from './predictionCache';
+import { fetchStationInfo, fetchStationTimeZone } from './stationMetadataService';
+import { formatNoaaTime } from '../utils/tideAnalysis';
+import { QueryValidationError } from '../utils/tideQuery';
+
+// Synthetic, from the harmonic engine; see fixtures/synthetic/README.md
+const PREDICTIONS: TidePrediction[] = JSON.parse(
+  readFileSync(new URL('../fixtures/synthetic/predictions/9413450/2026-07-hilo-MLLW.json', import.meta.url), 'utf8')
+);
+const TODAY = new Date(2026, 5, 20);
+
+// Stands in for Gemini, answering every question with `text`
+const modelAnswering = (text: string) => {
+  const generateContent = vi.fn().mockResolvedValue({ text });
+  return { model: { generateContent } as unknown as QuestionModel, generateContent };
+};
+
+const ask = (answer: Record<string, unknown> | string) =>
+  interpretQuestion('When are the lowest tides in Monterey in July?', TODAY, modelAnswering(typeof answer === 'string' ? answer : JSON.stringify(answer)).model);
+
+const JULY_LOWS = { place: 'Monterey', from: '2026-07-01', to: '2026-07-31', rank: 'lowest', targetMode: 'none' };
+
+describe('interpretQuestion', () => {
+  it('maps a valid answer onto a TideQuery', async () => {
+    const { model, generateContent } = modelAnswering(JSON.stringify({
+      ...JULY_LOWS,
+      targetMode: 'low',
+      targetLow: 0,
+      fromHour: 6,
+      toHour: 12,
+      weekdays: [6, 0, 6],
+      limit: 3
+    }));
+
+    const query = await interpretQuestion('Weekend morning lows under 0ft in Monterey in July?', TODAY, model);
+
+    expect(query).toEqual<TideQuery>({
+      place: 'Monterey',
+      from: '2026-07-01',
+      to: '2026-07-31',
+      rank: 'lowest',
+      target: { mode: 'low', high: 0, low: 0 },
+      fromHour: 6,
+      toHour: 12,
+      weekdays: [0, 6],
+      daylightOnly: false,
+      limit: 3
+    });
+    expect(generateContent.mock.calls[0][0].contents).toContain('Weekend morning lows under 0ft in Monterey in July?');
+  });
+
+  it('fills in what the answer leaves out from the defaults', async () => {
+    const query = await ask(JULY_LOWS);
+
+    expect(query).toMatchObject({ target: null, fromHour: 0, toHour: 24, weekdays: [0, 1, 2, 3, 4, 5, 6], limit: 10 });
+  });
+
+  it('rejects an answer that isn\'t JSON', async () => {
+    await expect(ask('The lowest tide is -1.8ft on July 23.')).rejects.toBeInstanceOf(QueryValidationError);
+  });
+
+  it.each([
+    ['an hour past the end of the day', { fromHour: 6, toHour: 30 }],
+    ['hours the wrong way round', { fromHour: 12, toHour: 6 }],
+    ['a day that doesn\'t exist', { to: '2026-07-32' }],
+    ['an end before the start', { from: '2026-07-31', to: '2026-07-01' }],
+    ['more than a year of days', { to: '2027-08-01' }],
+    ['a weekday of 7', { weekdays: [7] }],
+    ['too many results', { limit: 500 }],
+    ['an unknown ordering', { rank: 'deepest' }],
+    ['a target without a height', { targetMode: 'high' }],
+    ['an upside-down range', { targetMode: 'range', targetLow: 5, targetHigh: 1 }]
+  ])('rejects %s', async (_, fields) => {
+    await expect(ask({ ...JULY_LOWS, ...fields })).rejects.toBeInstanceOf(QueryValidationError);
+  });
+});
+
+describe('answerQuery', () => {
+  beforeEach(() => {
+    vi.mocked(fetchPredictionsForMonths).mockReset().mockResolvedValue(PREDICTIONS);
+    vi.mocked(fetchStationTimeZone).mockReset().mockResolvedValue('America/Los_Angeles');
+    vi.mocked(fetchStationInfo).mockReset().mockResolvedValue({ lat: 36.605, lng: -121.888 } as Awaited<ReturnType<typeof fetchStationInfo>>);
+  });
+
+  it('answers with the station\'s own predictions and nothing else', async () => {
+    const query = await ask({ ...JULY_LOWS, limit: 5 });
+    const answer = await answerQuery(query, null);
+
+    expect(answer.station).toEqual({ id: '9413450', name: 'Monterey' });
+    expect(fetchPredictionsForMonths).toHaveBeenCalledWith('9413450', new Date(2026, 6, 1), 1, 'hilo', 'MLLW', 'America/Los_Angeles');
+    expect(answer.events).toHaveLength(5);
+
+    const rows = new Map(PREDICTIONS.map(p => [p.t, p]));
+    answer.events.forEach(e => {
+      const row = rows.get(formatNoaaTime(e.time));
+      expect(row).toBeDefined();
+      expect(e.height).toBe(parseFloat(row!.v));
+      expect(e.type).toBe('L');
+    });
+
+    const lows = PREDICTIONS.filter(p => p.type === 'L').map(p => parseFloat(p.v)).sort((a, b) => a - b);
+    expect(answer.events.map(e => e.height)).toEqual(lows.slice(0, 5));
+  });
+
+  it('refuses a daylight-only search when the station\'s location can\'t be loaded', async () => {
+    vi.mocked(fetchStationInfo).mockRejectedValue(new Error('offline'));
+    const query = await ask({ ...JULY_LOWS, daylightOnly: true });
+
+    await expect(answerQuery(query, null)).rejects.toBeInstanceOf(QueryValidationError);
+  });
+});
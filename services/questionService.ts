@@ -0,0 +1,108 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { differenceInCalendarMonths, format, startOfMonth } from 'date-fns';
+import { findStationId } from './geminiService';
+import { fetchPredictionsForMonths } from './predictionCache';
+import { fetchStationInfo, fetchStationTimeZone } from './stationMetadataService';
+import { searchableStations } from './tideProviders';
+import { SavedStation, TideEvent, TideQuery } from '../types';
+import { isAmbiguous, searchStations } from '../utils/stationSearch';
+import { toTideEvents } from '../utils/tideAnalysis';
+import { parseQueryDay, QueryValidationError, runTideQuery, toTideQuery } from '../utils/tideQuery';
+
+const MODEL = 'gemini-2.5-flash';
+
+// Just the part of the client this module calls, so a stand-in can be passed instead
+export type QuestionModel = Pick<GoogleGenAI['models'], 'generateContent'>;
+
+const QUERY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    place: { type: Type.STRING, description: 'Place, station name or 7-digit NOAA station ID. Empty if none is mentioned.' },
+    from: { type: Type.STRING, description: 'First day, yyyy-MM-dd.' },
+    to: { type: Type.STRING, description: 'Last day, yyyy-MM-dd.' },
+    rank: { type: Type.STRING, enum: ['lowest', 'highest', 'date'], description: 'lowest for low tides, highest for high tides, date otherwise.' },
+    targetMode: { type: Type.STRING, enum: ['none', 'high', 'low', 'range'], description: 'high: at or above targetHigh. low: at or below targetLow. range: between them.' },
+    targetHigh: { type: Type.NUMBER, description: 'Feet above MLLW, only if the question gives a height.' },
+    targetLow: { type: Type.NUMBER, description: 'Feet above MLLW, only if the question gives a height.' },
+    fromHour: { type: Type.INTEGER, description: 'Earliest hour of day, 0-23.' },
+    toHour: { type: Type.INTEGER, description: 'Hour of day to stop at, 1-24.' },
+    weekdays: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: '0 is Sunday. Omit for every day.' },
+    daylightOnly: { type: Type.BOOLEAN },
+    limit: { type: Type.INTEGER, description: 'How many tides to list, 1-50.' }
+  },
+  required: ['place', 'from', 'to', 'rank', 'targetMode']
+};
+
+const prompt = (question: string, today: Date) => `You turn questions about tides into search filters for a tide app.
+Today is ${format(today, 'EEEE yyyy-MM-dd')}.
+Only describe what to search for. Never state, estimate or guess tide heights or times; the app looks those up from NOAA predictions.
+A month without a year means its next occurrence. Without any dates, search the next 30 days.
+Heights are feet above MLLW; convert meters. Leave the target as none unless the question gives a height.
+"Weekends" are days 0 and 6. "Morning" is 6-12, "afternoon" 12-18, "evening" 18-22.
+
+Question: ${question}`;
+
+let client: GoogleGenAI | null = null;
+const defaultModel = (): QuestionModel => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client.models;
+};
+
+/**
+ * Asks Gemini to turn a question into a `TideQuery`. The answer is
+ * validated like anything typed into the form; `QueryValidationError`
+ * explains what didn't make sense.
+ */
+export const interpretQuestion = async (question: string, today = new Date(), model: QuestionModel = defaultModel()): Promise<TideQuery> => {
+  const response = await model.generateContent({
+    model: MODEL,
+    contents: prompt(question, today),
+    config: { responseMimeType: 'application/json', responseSchema: QUERY_SCHEMA }
+  });
+  let raw: unknown;
+  try {
+    raw = JSON.parse(response.text ?? '');
+  } catch {
+    throw new QueryValidationError('The question could not be turned into a search. Try rephrasing it.');
+  }
+  return toTideQuery(raw, today);
+};
+
+const resolvePlace = async (place: string, current: SavedStation | null): Promise<SavedStation> => {
+  if (!place) {
+    if (!current) throw new QueryValidationError('Say where, or pick a station first.');
+    return current;
+  }
+  const matches = searchStations(place, searchableStations());
+  if (matches.length && !isAmbiguous(matches)) return { id: matches[0].station.id, name: matches[0].station.name };
+
+  // Same fallback as the station search box
+  const found = await findStationId(place);
+  if (!found?.stationId) throw new QueryValidationError(`No tide station found for "${place}".`);
+  return { id: found.stationId, name: found.stationName };
+};
+
+export interface QueryAnswer {
+  station: SavedStation;
+  timeZone: string;
+  events: TideEvent[]; // feet above MLLW, as instants
+}
+
+/**
+ * Runs a query against NOAA's hilo predictions for the station it names,
+ * or `current` when it doesn't name one. Every number in the answer comes
+ * from NOAA; the model only ever chose the filters.
+ */
+export const answerQuery = async (query: TideQuery, current: SavedStation | null): Promise<QueryAnswer> => {
+  const station = await resolvePlace(query.place, current);
+  const [timeZone, location] = await Promise.all([
+    fetchStationTimeZone(station.id),
+    fetchStationInfo(station.id).then(info => ({ lat: info.lat, lng: info.lng })).catch(() => undefined)
+  ]);
+
+  const fromMonth = startOfMonth(parseQueryDay(query.from)!);
+  const months = differenceInCalendarMonths(parseQueryDay(query.to)!, fromMonth) + 1;
+  const predictions = await fetchPredictionsForMonths(station.id, fromMonth, months, 'hilo', 'MLLW', timeZone);
+  const events = runTideQuery(query, toTideEvents(predictions, true), timeZone, location);
+  return { station, timeZone, events };
+};
@@ -0,0 +1,63 @@
+import { addMonths, isBefore, startOfDay, startOfMonth } from 'date-fns';
+import { fetchPredictionsCached, fetchPredictionsForMonths, monthRequest } from './predictionCache';
+import { DailyTideData, TideTarget } from '../types';
+import { analyzePredictions, qualifyingDays } from '../utils/tideScan';
+
+// How far ahead the qualifying-day search looks before giving up
+export const MAX_SEARCH_MONTHS = 24;
+
+export interface SeasonOptions {
+  datum: string;
+  // The station's zone, which predictions are requested and read in
+  timeZone: string;
+  // The zone whose days the results are grouped into, the station's by default
+  displayZone?: string;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Hilo-only days for `months` months from `fromMonth`, enough to rank each
+ * day against the target without pulling a year of six-minute data.
+ * `target` is in `options.datum`.
+ */
+export const loadSeason = async (
+  stationId: string,
+  fromMonth: Date,
+  months: number,
+  target: TideTarget,
+  options: SeasonOptions
+): Promise<DailyTideData[]> => {
+  const { datum, timeZone, displayZone = timeZone, onProgress, signal } = options;
+  const predictions = await fetchPredictionsForMonths(stationId, fromMonth, months, 'hilo', datum, timeZone, onProgress, signal);
+  return analyzePredictions({ hilo: predictions }, target, { fromMonth, months, displayZone }).days;
+};
+
+/**
+ * Walks forward a month at a time from `from` until `count` days meet the
+ * target or `MAX_SEARCH_MONTHS` have been searched, whichever comes first.
+ * Days qualify on their hilo extremes, like the comparison view. How many
+ * months that takes isn't known up front, so `onProgress` counts days found
+ * out of `count`.
+ */
+export const findQualifyingDays = async (
+  stationId: string,
+  from: Date,
+  count: number,
+  target: TideTarget,
+  options: SeasonOptions
+): Promise<DailyTideData[]> => {
+  const { datum, timeZone, displayZone = timeZone, onProgress, signal } = options;
+  const found: DailyTideData[] = [];
+
+  for (let i = 0; i < MAX_SEARCH_MONTHS && found.length < count; i++) {
+    if (signal?.aborted) break;
+    const month = addMonths(startOfMonth(from), i);
+    const { predictions } = await fetchPredictionsCached(monthRequest(stationId, month, 'hilo', datum, timeZone), signal);
+    const { days } = analyzePredictions({ hilo: predictions }, target, { fromMonth: month, displayZone });
+    found.push(...qualifyingDays(days).filter(d => !isBefore(d.date, startOfDay(from))));
+    onProgress?.(Math.min(found.length, count), count);
+  }
+
+  return found.slice(0, count);
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { AlertRule, StoredSeries, Trip, UserSettings } from '../types';
+import { buildBackup, mergeSettings, parseBackup, SETTINGS_VERSION, SettingsImportError } from './settingsService';
+import { DEFAULT_CURRENT_TARGET } from '../utils/currents';
+
+const rule = (id: string): AlertRule => ({
+  id,
+  name: 'Weekend lows',
+  enabled: true,
+  stations: 'favorites',
+  target: { mode: 'low', high: 5, low: 0 },
+  unit: 'ft',
+  leadDays: 2,
+  fromHour: 6,
+  toHour: 18,
+  weekdays: [0, 6],
+  daylightOnly: true
+});
+
+const trip = (id: string, start: string): Trip => ({
+  id,
+  station: { id: '9413450', name: 'Monterey' },
+  timeZone: 'America/Los_Angeles',
+  start,
+  end: start,
+  rating: 4,
+  notes: '',
+  tags: ['tidepools'],
+  conditions: null
+});
+
+const series = (id: string): StoredSeries => ({
+  station: { id, name: 'Dock gauge', state: '', lat: 36.6, lng: -121.9, timeZone: 'America/Los_Angeles' },
+  points: [[1782900000000, 1.2], [1782900360000, 1.3]],
+  extremes: [[1782900000000, 1.2, 'L']],
+  importedAt: 1782990000000
+});
+
+const SETTINGS: UserSettings = {
+  favorites: [{ id: '9413450', name: 'Monterey' }],
+  notifications: { enabled: false, leadDays: 1 },
+  stationPrefs: { '9413450': { datum: 'MLLW', unit: 'ft' } },
+  alertRules: [rule('rule_a')],
+  daylightOnly: true,
+  useMyTime: false,
+  currentTarget: { ...DEFAULT_CURRENT_TARGET, event: 'ebb', maxKnots: 2 },
+  trips: [trip('trip_b', '2026-07-02T14:00:00.000Z'), trip('trip_a', '2026-07-01T14:00:00.000Z')],
+  importedSeries: [series('import-a1')]
+};
+
+const backupText = (fields: Record<string, unknown>) =>
+  JSON.stringify({ app: 'tidewatch', version: SETTINGS_VERSION, exportedAt: '2026-07-01T00:00:00.000Z', settings: SETTINGS, ...fields });
+
+describe('parseBackup', () => {
+  it('reads back everything a backup was made from', () => {
+    expect(parseBackup(JSON.stringify(buildBackup(SETTINGS)))).toEqual(SETTINGS);
+  });
+
+  it('upgrades a version 2 backup, which had no current target, trips or imported series', () => {
+    const { currentTarget, trips, importedSeries, ...v2 } = SETTINGS;
+
+    expect(parseBackup(backupText({ version: 2, settings: v2 }))).toEqual({ ...v2, currentTarget: DEFAULT_CURRENT_TARGET, trips: [], importedSeries: [] });
+  });
+
+  it('upgrades a version 3 backup, which had no imported series', () => {
+    const { importedSeries, ...v3 } = SETTINGS;
+
+    expect(parseBackup(backupText({ version: 3, settings: v3 }))).toEqual({ ...v3, importedSeries: [] });
+  });
+
+  it('refuses versions it has no upgrade from', () => {
+    expect(() => parseBackup(backupText({ version: 1 }))).toThrow('Backups from version 1 can no longer be imported.');
+  });
+
+  it('refuses backups from a newer version', () => {
+    expect(() => parseBackup(backupText({ version: SETTINGS_VERSION + 1 }))).toThrow(/newer version/);
+  });
+
+  it('tells unreadable files from files that aren\'t backups', () => {
+    expect(() => parseBackup('{"app": "tidewatch",')).toThrow('That file is not valid JSON.');
+    expect(() => parseBackup(JSON.stringify({ favorites: [] }))).toThrow('That file is not a TideWatch settings backup.');
+    expect(() => parseBackup(backupText({ version: '2' }))).toThrow(SettingsImportError);
+  });
+
+  it('names the parts that could not be read', () => {
+    const settings = { ...SETTINGS, favorites: [{ id: '' }], trips: [{ id: 'trip_c' }], importedSeries: [{ ...series('import-b2'), points: [] }] };
+    expect(() => parseBackup(backupText({ settings }))).toThrow('The backup\'s favorites, trips, imported stations could not be read.');
+    expect(() => parseBackup(backupText({ settings: null }))).toThrow('The backup has no settings in it.');
+  });
+});
+
+describe('mergeSettings', () => {
+  it('adds the favorites, rules, trips and imported stations that are new, keeping trips newest first', () => {
+    const incoming = {
+      ...SETTINGS,
+      favorites: [{ id: '9414290', name: 'San Francisco' }, { id: '9413450', name: 'Monterey Harbor' }],
+      alertRules: [rule('rule_a'), rule('rule_b')],
+      trips: [trip('trip_c', '2026-07-03T14:00:00.000Z'), trip('trip_a', '2026-07-01T14:00:00.000Z')],
+      importedSeries: [series('import-a1'), series('import-b2')]
+    };
+
+    const merged = mergeSettings(SETTINGS, incoming);
+    expect(merged.favorites).toEqual([{ id: '9413450', name: 'Monterey' }, { id: '9414290', name: 'San Francisco' }]);
+    expect(merged.alertRules.map(r => r.id)).toEqual(['rule_a', 'rule_b']);
+    expect(merged.trips.map(t => t.id)).toEqual(['trip_c', 'trip_b', 'trip_a']);
+    expect(merged.importedSeries.map(s => s.station.id)).toEqual(['import-a1', 'import-b2']);
+  });
+
+  it('keeps this browser\'s preferences and single-value settings', () => {
+    const incoming: UserSettings = {
+      ...SETTINGS,
+      stationPrefs: { '9413450': { datum: 'MSL', unit: 'm' }, '9414290': { datum: 'MLLW', unit: 'm' } },
+      daylightOnly: false,
+      useMyTime: true,
+      currentTarget: DEFAULT_CURRENT_TARGET
+    };
+
+    const merged = mergeSettings(SETTINGS, incoming);
+    expect(merged.stationPrefs).toEqual({ '9413450': { datum: 'MLLW', unit: 'ft' }, '9414290': { datum: 'MLLW', unit: 'm' } });
+    expect(merged.daylightOnly).toBe(true);
+    expect(merged.useMyTime).toBe(false);
+    expect(merged.currentTarget).toEqual(SETTINGS.currentTarget);
+  });
+});
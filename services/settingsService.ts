@@ -0,0 +1,218 @@
+import { AlertRule, CurrentTarget, NotificationSettings, SavedStation, StationPrefs, StoredSeries, TideTarget, Trip, UserSettings } from '../types';
+import { DEFAULT_CURRENT_TARGET } from '../utils/currents';
+import { isImportedStationId } from '../utils/seriesImport';
+import { newestFirst } from '../utils/trips';
+import { DATUMS } from '../utils/units';
+
+export const SETTINGS_VERSION = 4;
+
+export const DEFAULT_NOTIFICATIONS: NotificationSettings = { enabled: false, leadDays: 1 };
+
+export interface SettingsBackup {
+  app: 'tidewatch';
+  version: number;
+  exportedAt: string; // ISO
+  settings: UserSettings;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export class SettingsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsImportError';
+  }
+}
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const listOf = <T>(guard: Guard<T>): Guard<T[]> => (value: unknown): value is T[] =>
+  Array.isArray(value) && value.every(guard);
+
+export const isNotificationSettings: Guard<NotificationSettings> = (value): value is NotificationSettings =>
+  isObject(value) && typeof value.enabled === 'boolean' && isNumber(value.leadDays) && value.leadDays >= 0;
+
+const isStationPrefs: Guard<StationPrefs> = (value): value is StationPrefs =>
+  isObject(value) && DATUMS.some(d => d.id === value.datum) && (value.unit === 'ft' || value.unit === 'm');
+
+export const isStationPrefsMap: Guard<Record<string, StationPrefs>> = (value): value is Record<string, StationPrefs> =>
+  isObject(value) && Object.values(value).every(isStationPrefs);
+
+const isTarget: Guard<TideTarget> = (value): value is TideTarget =>
+  isObject(value) && ['high', 'low', 'range'].includes(value.mode as string) && isNumber(value.high) && isNumber(value.low);
+
+const isKnots = (value: unknown) => value === null || (isNumber(value) && value >= 0);
+
+export const isCurrentTarget: Guard<CurrentTarget> = (value): value is CurrentTarget =>
+  isObject(value) &&
+  ['slack', 'flood', 'ebb'].includes(value.event as string) &&
+  isKnots(value.maxKnots) &&
+  isKnots(value.minKnots) &&
+  (value.nearSun === null || value.nearSun === 'sunrise' || value.nearSun === 'sunset') &&
+  isNumber(value.withinMinutes);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+export const isSavedStation: Guard<SavedStation> = (value): value is SavedStation =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  value.id !== '' &&
+  typeof value.name === 'string' &&
+  isOptionalString(value.nickname) &&
+  isOptionalString(value.notes) &&
+  (value.target === undefined || isTarget(value.target));
+
+export const isAlertRule: Guard<AlertRule> = (value): value is AlertRule =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.enabled === 'boolean' &&
+  (value.stations === 'favorites' || listOf(isSavedStation)(value.stations)) &&
+  (value.target === null || isTarget(value.target)) &&
+  (value.unit === 'ft' || value.unit === 'm') &&
+  isNumber(value.leadDays) &&
+  isNumber(value.fromHour) &&
+  isNumber(value.toHour) &&
+  listOf(isNumber)(value.weekdays) &&
+  typeof value.daylightOnly === 'boolean';
+
+// Conditions are derived data, so only their presence is checked
+const isTrip: Guard<Trip> = (value): value is Trip =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isSavedStation(value.station) &&
+  typeof value.timeZone === 'string' &&
+  typeof value.start === 'string' &&
+  typeof value.end === 'string' &&
+  isNumber(value.rating) &&
+  typeof value.notes === 'string' &&
+  listOf((tag): tag is string => typeof tag === 'string')(value.tags) &&
+  (value.conditions === null || isObject(value.conditions));
+
+const isPair = (value: unknown): value is [number, number] => Array.isArray(value) && isNumber(value[0]) && isNumber(value[1]);
+const isExtreme = (value: unknown): value is [number, number, 'H' | 'L'] => isPair(value) && ['H', 'L'].includes((value as unknown[])[2] as string);
+
+const isStoredSeries: Guard<StoredSeries> = (value): value is StoredSeries =>
+  isObject(value) &&
+  isObject(value.station) &&
+  typeof value.station.id === 'string' &&
+  isImportedStationId(value.station.id) &&
+  typeof value.station.name === 'string' &&
+  typeof value.station.timeZone === 'string' &&
+  listOf(isPair)(value.points) &&
+  value.points.length > 0 &&
+  listOf(isExtreme)(value.extremes) &&
+  isNumber(value.importedAt);
+
+export const isFavoriteList = listOf(isSavedStation);
+export const isAlertRuleList = listOf(isAlertRule);
+export const isTripList = listOf(isTrip);
+const isStoredSeriesList = listOf(isStoredSeries);
+
+/**
+ * Reads a JSON value from localStorage, falling back when it's missing,
+ * unparseable or the wrong shape. A corrupted key costs that one setting
+ * instead of the whole app failing to start.
+ */
+export const readStoredJson = <T>(key: string, fallback: T, guard: Guard<T>): T => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return fallback;
+  try {
+    const value: unknown = JSON.parse(saved);
+    return guard(value) ? value : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Each step upgrades a backup from the version it's keyed by to the next one. Backups start at version 2.
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 2 predates the current-station target and trips
+  2: doc => ({
+    ...doc,
+    version: 3,
+    settings: isObject(doc.settings)
+      ? { ...doc.settings, currentTarget: DEFAULT_CURRENT_TARGET, trips: [] }
+      : doc.settings
+  }),
+  // Version 3 predates imported series
+  3: doc => ({
+    ...doc,
+    version: 4,
+    settings: isObject(doc.settings) ? { ...doc.settings, importedSeries: [] } : doc.settings
+  })
+};
+
+const validateSettings = (value: unknown): UserSettings => {
+  if (!isObject(value)) throw new SettingsImportError('The backup has no settings in it.');
+  const problems = [
+    !isFavoriteList(value.favorites) && 'favorites',
+    !isNotificationSettings(value.notifications) && 'notification settings',
+    !isStationPrefsMap(value.stationPrefs) && 'station preferences',
+    !isAlertRuleList(value.alertRules) && 'alert rules',
+    typeof value.daylightOnly !== 'boolean' && 'the daylight filter',
+    typeof value.useMyTime !== 'boolean' && 'the time zone choice',
+    !isCurrentTarget(value.currentTarget) && 'current target',
+    !isTripList(value.trips) && 'trips',
+    !isStoredSeriesList(value.importedSeries) && 'imported stations'
+  ].filter(Boolean);
+  if (problems.length) throw new SettingsImportError(`The backup's ${problems.join(', ')} could not be read.`);
+  return value as unknown as UserSettings;
+};
+
+export const buildBackup = (settings: UserSettings, exportedAt = new Date()): SettingsBackup => ({
+  app: 'tidewatch',
+  version: SETTINGS_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  settings
+});
+
+/**
+ * Parses a backup file, upgrading older versions on the way. Throws
+ * `SettingsImportError` with a message fit to show when the file isn't a
+ * TideWatch backup, comes from a newer version, or fails validation.
+ */
+export const parseBackup = (text: string): UserSettings => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new SettingsImportError('That file is not valid JSON.');
+  }
+  if (!isObject(doc) || doc.app !== 'tidewatch' || !Number.isInteger(doc.version)) {
+    throw new SettingsImportError('That file is not a TideWatch settings backup.');
+  }
+  if ((doc.version as number) > SETTINGS_VERSION) {
+    throw new SettingsImportError('That backup comes from a newer version of TideWatch. Update the app and try again.');
+  }
+
+  let current = doc;
+  while ((current.version as number) < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[current.version as number];
+    if (!migrate) throw new SettingsImportError(`Backups from version ${current.version} can no longer be imported.`);
+    current = migrate(current);
+  }
+  return validateSettings(current.settings);
+};
+
+/**
+ * Merging keeps everything already here and adds what the backup has that's
+ * missing: new favorites, rules, trips, imported stations and station
+ * preferences. Single-value settings stay as they are.
+ */
+export const mergeSettings = (current: UserSettings, incoming: UserSettings): UserSettings => ({
+  ...current,
+  favorites: [...current.favorites, ...incoming.favorites.filter(f => !current.favorites.some(c => c.id === f.id))],
+  stationPrefs: { ...incoming.stationPrefs, ...current.stationPrefs },
+  alertRules: [...current.alertRules, ...incoming.alertRules.filter(r => !current.alertRules.some(c => c.id === r.id))],
+  trips: newestFirst([...current.trips, ...incoming.trips.filter(t => !current.trips.some(c => c.id === t.id))]),
+  importedSeries: [
+    ...current.importedSeries,
+    ...incoming.importedSeries.filter(s => !current.importedSeries.some(c => c.station.id === s.station.id))
+  ]
+});
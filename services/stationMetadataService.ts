@@ -0,0 +1,260 @@
+import { Datum, NOAAStation, StationDetails, TideOffsets } from '../types';
+import { datumLabel, DATUMS } from '../utils/units';
+import { STATION_CATALOG, catalogTimeZone, stateTimeZone } from '../data/stationCatalog';
+import { browserTimeZone } from '../utils/timeZones';
+import { isCurrentStationId } from '../utils/currents';
+import { isImportedStationId } from '../utils/seriesImport';
+import { getImportedSeries } from './importProvider';
+
+const MDAPI_BASE = 'https://api.tidesandcurrents.noaa.gov/mdapi/prod/webapi/stations';
+
+export interface StationDatums {
+  stationId: string;
+  // Datum name to height in feet above the station datum (STND)
+  values: Partial<Record<Datum, number>>;
+}
+
+export class DatumUnavailableError extends Error {
+  constructor(stationName: string, datum: Datum, available: Datum[]) {
+    super(
+      available.length
+        ? `${stationName} doesn't publish the ${datumLabel(datum)} datum. Available: ${available.map(datumLabel).join(', ')}.`
+        : `${stationName} doesn't publish any tidal datums, so only MLLW predictions are available.`
+    );
+    this.name = 'DatumUnavailableError';
+  }
+}
+
+const datumCache = new Map<string, Promise<StationDatums>>();
+const stationCache = new Map<string, Promise<NOAAStation>>();
+const offsetsCache = new Map<string, Promise<TideOffsets | null>>();
+let currentStations: Promise<NOAAStation[]> | null = null;
+
+// NOAA lists NAVD88 under its full name; every other datum matches our ids
+const NOAA_DATUM_NAMES: Record<string, Datum> = {
+  MLLW: 'MLLW',
+  MLW: 'MLW',
+  MSL: 'MSL',
+  MHW: 'MHW',
+  MHHW: 'MHHW',
+  NAVD88: 'NAVD'
+};
+
+export const fetchStationDatums = (stationId: string): Promise<StationDatums> => {
+  // Imported series come in their gauge's own datum, with nothing to relate it to the others
+  if (isImportedStationId(stationId)) return Promise.resolve({ stationId, values: {} });
+  const cached = datumCache.get(stationId);
+  if (cached) return cached;
+
+  const request = fetch(`${MDAPI_BASE}/${stationId}/datums.json?units=english`)
+    .then(res => {
+      if (!res.ok) throw new Error(`Datum request failed with ${res.status}`);
+      return res.json();
+    })
+    .then((doc: { datums?: { name: string; value: number | null }[] }) => {
+      const values: Partial<Record<Datum, number>> = {};
+      (doc.datums ?? []).forEach(d => {
+        const id = NOAA_DATUM_NAMES[d.name];
+        if (id && typeof d.value === 'number') values[id] = d.value;
+      });
+      return { stationId, values };
+    });
+
+  // Don't remember failures, the next attempt may be online
+  request.catch(() => datumCache.delete(stationId));
+  datumCache.set(stationId, request);
+  return request;
+};
+
+/**
+ * How far `datum` sits above MLLW at a station, in feet. Throws
+ * `DatumUnavailableError` when the station doesn't publish one of the two.
+ */
+export const datumOffsetFromMllw = (datums: StationDatums, datum: Datum, stationName: string): number => {
+  if (datum === 'MLLW') return 0;
+  const available = Object.keys(datums.values) as Datum[];
+  const base = datums.values.MLLW;
+  const value = datums.values[datum];
+  if (base === undefined || value === undefined) {
+    throw new DatumUnavailableError(stationName, datum, available);
+  }
+  return value - base;
+};
+
+// NOAA describes a station's clock as a UTC offset and whether it observes DST
+const zoneFromOffset = (offsetHours: number, observesDst: boolean): string | undefined => {
+  const zones: Record<number, [string, string]> = {
+    [-4]: ['America/Puerto_Rico', 'America/Puerto_Rico'],
+    [-5]: ['America/New_York', 'America/Cancun'],
+    [-6]: ['America/Chicago', 'America/Regina'],
+    [-7]: ['America/Denver', 'America/Phoenix'],
+    [-8]: ['America/Los_Angeles', 'Pacific/Pitcairn'],
+    [-9]: ['America/Anchorage', 'Pacific/Gambier'],
+    [-10]: ['America/Adak', 'Pacific/Honolulu'],
+    [-11]: ['Pacific/Pago_Pago', 'Pacific/Pago_Pago'],
+    [10]: ['Pacific/Guam', 'Pacific/Guam']
+  };
+  const pair = zones[offsetHours];
+  return pair ? pair[observesDst ? 0 : 1] : undefined;
+};
+
+type MdapiStation = { id: string; name: string; state?: string; lat: number; lng: number; timezonecorr?: number; observedst?: boolean };
+
+const toStation = (station: MdapiStation): NOAAStation => ({
+  id: station.id,
+  name: station.name,
+  state: station.state ?? '',
+  lat: station.lat,
+  lng: station.lng,
+  timeZone: station.timezonecorr !== undefined ? zoneFromOffset(station.timezonecorr, station.observedst ?? false) : undefined
+});
+
+// Location and naming for a station, from the bundled catalog when it's there
+export const fetchStationInfo = (stationId: string): Promise<NOAAStation> => {
+  const bundled = STATION_CATALOG.find(s => s.id === stationId);
+  if (bundled) return Promise.resolve({ ...bundled, timeZone: catalogTimeZone(stationId) });
+  if (isImportedStationId(stationId)) {
+    const series = getImportedSeries(stationId);
+    return series ? Promise.resolve(series.station) : Promise.reject(new Error(`Imported station ${stationId} has been removed`));
+  }
+  if (isCurrentStationId(stationId)) {
+    return fetchCurrentStations().then(list => {
+      const station = list.find(s => s.id.toLowerCase() === stationId.toLowerCase());
+      if (!station) throw new Error(`No metadata for station ${stationId}`);
+      return station;
+    });
+  }
+  const cached = stationCache.get(stationId);
+  if (cached) return cached;
+
+  const request = fetch(`${MDAPI_BASE}/${stationId}.json`)
+    .then(res => {
+      if (!res.ok) throw new Error(`Station request failed with ${res.status}`);
+      return res.json();
+    })
+    .then((doc: { stations?: MdapiStation[] }) => {
+      const station = doc.stations?.[0];
+      if (!station) throw new Error(`No metadata for station ${stationId}`);
+      return toStation(station);
+    });
+
+  request.catch(() => stationCache.delete(stationId));
+  stationCache.set(stationId, request);
+  return request;
+};
+
+/**
+ * Every current prediction station, loaded once and kept for the session.
+ * NOAA lists a station once per depth bin; only the first entry is kept.
+ */
+export const fetchCurrentStations = (): Promise<NOAAStation[]> => {
+  if (currentStations) return currentStations;
+  const request = fetch(`${MDAPI_BASE}.json?type=currentpredictions`)
+    .then(res => {
+      if (!res.ok) throw new Error(`Station list request failed with ${res.status}`);
+      return res.json();
+    })
+    .then((doc: { stations?: MdapiStation[] }) => {
+      const seen = new Set<string>();
+      return (doc.stations ?? [])
+        .filter(s => !seen.has(s.id) && !!seen.add(s.id))
+        .map(s => {
+          const station = toStation(s);
+          // The list often leaves out the clock, but the state narrows it down
+          return { ...station, timeZone: station.timeZone ?? stateTimeZone(station.state) };
+        });
+    });
+  request.catch(() => {
+    currentStations = null;
+  });
+  currentStations = request;
+  return request;
+};
+
+// The station's clock, or the browser's when NOAA can't tell us
+export const fetchStationTimeZone = (stationId: string): Promise<string> =>
+  fetchStationInfo(stationId)
+    .then(info => info.timeZone ?? browserTimeZone())
+    .catch(() => browserTimeZone());
+
+// The subset of mdapi's tidepredoffsets.json we rely on
+interface MdapiOffsets {
+  refStationId?: string;
+  type?: string; // 'S' for subordinate, 'R' for reference
+  heightOffsetHighTide?: number;
+  heightOffsetLowTide?: number;
+  timeOffsetHighTide?: number;
+  timeOffsetLowTide?: number;
+  heightAdjustedType?: string; // 'R' for ratio, 'F' for fixed
+}
+
+/**
+ * The offsets a subordinate station is predicted with, or null for a
+ * reference station, which NOAA predicts from its own harmonic constants.
+ */
+export const fetchTideOffsets = (stationId: string): Promise<TideOffsets | null> => {
+  const cached = offsetsCache.get(stationId);
+  if (cached) return cached;
+
+  const request = fetch(`${MDAPI_BASE}/${stationId}/tidepredoffsets.json`)
+    .then(res => {
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`Offset request failed with ${res.status}`);
+      return res.json();
+    })
+    .then((doc: MdapiOffsets | null): TideOffsets | null => {
+      if (!doc || doc.type !== 'S' || !doc.refStationId || doc.refStationId === stationId) return null;
+      return {
+        referenceId: doc.refStationId,
+        highMinutes: doc.timeOffsetHighTide ?? 0,
+        lowMinutes: doc.timeOffsetLowTide ?? 0,
+        heightType: doc.heightAdjustedType === 'F' ? 'fixed' : 'ratio',
+        // A missing ratio leaves heights alone, as does a missing fixed offset
+        highHeight: doc.heightOffsetHighTide ?? (doc.heightAdjustedType === 'F' ? 0 : 1),
+        lowHeight: doc.heightOffsetLowTide ?? (doc.heightAdjustedType === 'F' ? 0 : 1)
+      };
+    });
+
+  request.catch(() => offsetsCache.delete(stationId));
+  offsetsCache.set(stationId, request);
+  return request;
+};
+
+const fetchMdapi = <T>(stationId: string, resource: string): Promise<T> =>
+  fetch(`${MDAPI_BASE}/${stationId}/${resource}.json`).then(res => {
+    if (!res.ok) throw new Error(`Station ${resource} request failed with ${res.status}`);
+    return res.json();
+  });
+
+const settled = <T>(result: PromiseSettledResult<T>): T | undefined => (result.status === 'fulfilled' ? result.value : undefined);
+
+/**
+ * Everything the station details panel shows. Each piece of NOAA metadata
+ * is loaded on its own, so one missing document only leaves its part blank.
+ */
+export const fetchStationDetails = async (stationId: string): Promise<StationDetails> => {
+  const station = await fetchStationInfo(stationId);
+  const base = { station, offsets: null, reference: null, datums: [], products: [], established: null };
+  if (isImportedStationId(stationId)) return { ...base, kind: 'imported' };
+  if (isCurrentStationId(stationId)) return { ...base, kind: 'currents', products: ['Current Predictions'] };
+
+  const [offsets, datums, products, details] = await Promise.allSettled([
+    fetchTideOffsets(stationId),
+    fetchStationDatums(stationId),
+    fetchMdapi<{ products?: { name: string }[] }>(stationId, 'products'),
+    fetchMdapi<{ established?: string }>(stationId, 'details')
+  ]);
+
+  const stationOffsets = settled(offsets) ?? null;
+  const reference = stationOffsets ? await fetchStationInfo(stationOffsets.referenceId).catch(() => null) : null;
+  const established = settled(details)?.established;
+  return {
+    station,
+    kind: offsets.status === 'rejected' ? 'unknown' : stationOffsets ? 'subordinate' : 'reference',
+    offsets: stationOffsets,
+    reference,
+    datums: DATUMS.map(d => d.id).filter(id => settled(datums)?.values[id] !== undefined),
+    products: (settled(products)?.products ?? []).map(p => p.name),
+    established: established && /^\d{4}-\d{2}-\d{2}/.test(established) ? established.slice(0, 10) : null
+  };
+};
@@ -0,0 +1,36 @@
+import { NOAAStation, PredictionQuery, ProviderCapabilities, TideDataProvider, TidePrediction } from '../types';
+import { requestPredictions } from './noaaClient';
+import { importProvider } from './importProvider';
+import { STATION_CATALOG } from '../data/stationCatalog';
+import { isCurrentStationId } from '../utils/currents';
+import { DATUMS } from '../utils/units';
+
+// NOAA CO-OPS answers for any station no other provider claims
+export const noaaProvider: TideDataProvider = {
+  id: 'noaa',
+  name: 'NOAA CO-OPS',
+  remote: true,
+  handles: () => true,
+  fetchPredictions: (req, signal) => requestPredictions(req, signal),
+  listStations: () => STATION_CATALOG,
+  capabilities: stationId => ({
+    hilo: true,
+    curve: true,
+    datums: DATUMS.map(d => d.id),
+    observed: !isCurrentStationId(stationId),
+    currents: isCurrentStationId(stationId)
+  })
+};
+
+// Checked in order; NOAA goes last as the catch-all
+const PROVIDERS: TideDataProvider[] = [importProvider, noaaProvider];
+
+export const providerFor = (stationId: string): TideDataProvider => PROVIDERS.find(p => p.handles(stationId))!;
+
+export const stationCapabilities = (stationId: string): ProviderCapabilities => providerFor(stationId).capabilities(stationId);
+
+export const fetchProviderPredictions = (req: PredictionQuery, signal?: AbortSignal): Promise<TidePrediction[]> =>
+  providerFor(req.stationId).fetchPredictions(req, signal);
+
+// Every station search and nearest-station lookups can offer, imported ones first
+export const searchableStations = (): NOAAStation[] => PROVIDERS.flatMap(p => p.listStations());
@@ -0,0 +1,50 @@
+import { isSameDay, startOfMonth } from 'date-fns';
+import { fetchPredictionsCached, monthRequest } from './predictionCache';
+import { isTripList, readStoredJson } from './settingsService';
+import { TideTarget, Trip, TripConditions } from '../types';
+import { isCurrentStationId } from '../utils/currents';
+import { toTideEvents } from '../utils/tideAnalysis';
+import { analyzePredictions } from '../utils/tideScan';
+import { toZonedTime } from '../utils/timeZones';
+import { newestFirst, tripConditions } from '../utils/trips';
+
+const TRIPS_KEY = 'tidewatch_trips';
+
+// Newest first
+export const loadTrips = (): Trip[] => newestFirst(readStoredJson(TRIPS_KEY, [], isTripList));
+
+export const saveTrips = (trips: Trip[]) => {
+  localStorage.setItem(TRIPS_KEY, JSON.stringify(trips));
+};
+
+/**
+ * Tide conditions for a trip from the same cached month of MLLW predictions
+ * the calendar loads. `target` is feet above MLLW. Resolves to null for
+ * current stations and when predictions can't be had.
+ */
+export const annotateTrip = async (trip: Pick<Trip, 'station' | 'start' | 'timeZone'>, target: TideTarget): Promise<TripConditions | null> => {
+  if (isCurrentStationId(trip.station.id)) return null;
+  const start = new Date(trip.start);
+  const month = startOfMonth(toZonedTime(start, trip.timeZone));
+  try {
+    const [hilo, curve] = await Promise.all([
+      fetchPredictionsCached(monthRequest(trip.station.id, month, 'hilo', 'MLLW', trip.timeZone)),
+      fetchPredictionsCached(monthRequest(trip.station.id, month, '6', 'MLLW', trip.timeZone))
+    ]);
+    const { days } = analyzePredictions(
+      { hilo: hilo.predictions, curve: curve.predictions },
+      target,
+      { fromMonth: month, displayZone: trip.timeZone }
+    );
+    const day = days.find(d => isSameDay(d.date, toZonedTime(start, trip.timeZone)));
+    return tripConditions(
+      start,
+      toTideEvents(hilo.predictions, true),
+      toTideEvents(curve.predictions, false),
+      day ? day.meetsThreshold : null,
+      target
+    );
+  } catch {
+    return null;
+  }
+};
@@ -1,10 +1,73 @@
+const SHELL_CACHE = 'tidewatch-shell-v1';
+const DATA_CACHE = 'tidewatch-data-v1';
+const SHELL_URLS = ['/', '/index.html'];
+
+// Any host serving the CO-OPS datagetter path, so a local stub endpoint is handled the same way
+const isNoaaRequest = (url) => url.pathname.endsWith('/api/prod/datagetter');
 
 self.addEventListener('install', (event) => {
-  self.skipWaiting();
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  );
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => clients.claim())
+  );
+});
+
+// Network first, falling back to whatever we saved last time
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Serve from cache immediately and refresh in the background
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (isNoaaRequest(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+    return;
+  }
+
+  // App modules, the import-map CDN bundles, Tailwind and fonts
+  if (url.protocol.startsWith('http')) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+  }
 });
 
 self.addEventListener('notificationclick', (event) => {
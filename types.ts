@@ -1,6 +1,5 @@
-
 export interface TidePrediction {
-  t: string; // Time
+  t: string; // Time, "yyyy-MM-dd HH:mm" GMT
   v: string; // Value
   type?: 'H' | 'L'; // High or Low tide
 }
@@ -11,19 +10,290 @@ export interface NOAAStation {
   state: string;
   lat: number;
   lng: number;
+  timeZone?: string; // IANA zone the station keeps its local clock in
+}
+
+export type Datum = 'MLLW' | 'MLW' | 'MSL' | 'MHW' | 'MHHW' | 'NAVD';
+
+export type LengthUnit = 'ft' | 'm';
+
+// Per-station display preferences
+export interface StationPrefs {
+  datum: Datum;
+  unit: LengthUnit;
+}
+
+export type ViewMode = 'calendar' | 'list' | 'compare' | 'year' | 'trips';
+
+export interface SavedStation {
+  id: string;
+  name: string;
+  // A favorite's own profile, applied whenever it's opened
+  nickname?: string;
+  notes?: string;
+  target?: TideTarget; // feet above MLLW
 }
 
 export interface TideEvent {
   time: Date;
   height: number;
-  isPeak: boolean;
+  isPeak: boolean; // true for hilo extremes, false for interval curve samples
   type?: 'H' | 'L';
 }
 
+export type TargetMode = 'high' | 'low' | 'range';
+
+export interface TideTarget {
+  mode: TargetMode;
+  high: number; // 'high' mode threshold, upper bound in 'range' mode
+  low: number; // 'low' mode threshold, lower bound in 'range' mode
+}
+
+// A continuous stretch of time during which the water level satisfies the target
+export interface ThresholdWindow {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  peak: TideEvent;
+}
+
+// Measured water level for a day, compared against its predictions
+export interface ObservedDay {
+  curve: TideEvent[];
+  maxHeight: number;
+  minHeight: number;
+  maxResidual: number; // largest observed minus predicted, i.e. the surge
+  minResidual: number;
+  meetsThreshold: boolean;
+  surpriseHit: boolean; // observed met the target while the prediction did not
+}
+
+export interface SunTimes {
+  sunrise: Date | null;
+  sunset: Date | null;
+  dawn: Date | null; // start of civil twilight
+  dusk: Date | null; // end of civil twilight
+  solarNoon: Date;
+  // Set when the sun never crosses the horizon that day
+  polar?: 'day' | 'night';
+}
+
+export interface MoonPhase {
+  phase: number; // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  illumination: number; // lit fraction of the disc, 0-1
+  name: string;
+}
+
+// Spring tides run large around new and full moon, neaps small around the quarters
+export type TideCycle = 'spring' | 'neap';
+
+export interface DaySky {
+  sun?: SunTimes; // missing until the station's location is known
+  moon: MoonPhase;
+  cycle: TideCycle | null;
+}
+
 export interface DailyTideData {
   date: Date;
   events: TideEvent[];
+  curve: TideEvent[];
+  windows: ThresholdWindow[];
   maxHeight: number;
   minHeight: number;
   meetsThreshold: boolean;
+  observed?: ObservedDay;
+  sky?: DaySky;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  leadDays: number; // How many days before to notify
+}
+
+// A named condition that raises a notification ahead of matching tide windows
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  stations: SavedStation[] | 'favorites';
+  target: TideTarget | null; // feet above MLLW, or null for each station's own target
+  unit: LengthUnit; // for the notification text
+  leadDays: number;
+  fromHour: number; // local clock hours the window must overlap, 0-24
+  toHour: number;
+  weekdays: number[]; // 0 is Sunday
+  daylightOnly: boolean;
+}
+
+export interface AlertRecord {
+  key: string;
+  ruleId: string;
+  ruleName: string;
+  stationId: string;
+  stationName: string;
+  windowStart: string; // ISO
+  body: string;
+  sentAt: string; // ISO
+}
+
+// An imported water-level series as it's saved, compactly, since a year of six-minute readings is close to 90,000 points
+export interface StoredSeries {
+  station: NOAAStation; // timeZone is always set, it's what wall-clock times were read in
+  points: [number, number][]; // epoch ms, feet
+  extremes: [number, number, 'H' | 'L'][];
+  importedAt: number;
+}
+
+// Everything a settings backup carries between browsers
+export interface UserSettings {
+  favorites: SavedStation[];
+  notifications: NotificationSettings;
+  stationPrefs: Record<string, StationPrefs>;
+  alertRules: AlertRule[];
+  daylightOnly: boolean;
+  useMyTime: boolean;
+  currentTarget: CurrentTarget;
+  trips: Trip[]; // newest first
+  importedSeries: StoredSeries[];
+}
+
+export type QueryRank = 'lowest' | 'highest' | 'date';
+
+// A tide question reduced to filters that run against real predictions
+export interface TideQuery {
+  place: string; // station name, place or ID; empty for the station on screen
+  from: string; // yyyy-MM-dd on the station's clock
+  to: string;
+  rank: QueryRank;
+  target: TideTarget | null; // feet above MLLW
+  fromHour: number; // 0-24
+  toHour: number;
+  weekdays: number[]; // 0 is Sunday
+  daylightOnly: boolean;
+  limit: number;
+}
+
+export type CurrentEventType = 'slack' | 'flood' | 'ebb';
+
+// One row of NOAA's currents_predictions product at the MAX_SLACK interval
+export interface CurrentPrediction {
+  Time: string; // "yyyy-MM-dd HH:mm" GMT
+  Type: CurrentEventType;
+  Velocity_Major: number; // knots, ebb negative
+  meanFloodDir?: number; // degrees true
+  meanEbbDir?: number;
+  Bin?: string;
+  Depth?: number | string;
+}
+
+export interface CurrentEvent {
+  time: Date;
+  type: CurrentEventType;
+  speed: number; // knots, always positive
+  direction: number | null; // degrees true the water sets toward, null at slack
+}
+
+export type SunMark = 'sunrise' | 'sunset';
+
+// What a kayaker or diver wants from the current, e.g. slack within an hour of sunrise
+export interface CurrentTarget {
+  event: CurrentEventType;
+  maxKnots: number | null; // floods and ebbs no stronger than this
+  minKnots: number | null; // floods and ebbs at least this strong
+  nearSun: SunMark | null;
+  withinMinutes: number; // how close to nearSun counts
+}
+
+export interface CurrentDay {
+  date: Date;
+  events: CurrentEvent[];
+  matches: CurrentEvent[];
+  sky: DaySky;
+}
+
+// Where in the tide cycle a moment falls; low and high mean within an hour of the turn
+export type TideStage = 'low' | 'rising' | 'high' | 'falling';
+
+// Worked out from predictions when a trip is logged. Heights are feet above MLLW.
+export interface TripConditions {
+  startHeight: number | null;
+  trend: 'rising' | 'falling' | null;
+  stage: TideStage | null;
+  nearestEvent: {
+    type: 'H' | 'L';
+    time: string; // ISO
+    height: number;
+    minutesFromStart: number; // negative when the turn came before the start
+  } | null;
+  metTarget: boolean | null; // whether the trip's day met `target`
+  target: TideTarget;
+}
+
+export interface Trip {
+  id: string;
+  station: SavedStation;
+  timeZone: string; // the station's, which times are entered and shown in
+  start: string; // ISO
+  end: string; // ISO
+  rating: number; // 1-5
+  notes: string;
+  tags: string[];
+  conditions: TripConditions | null; // null when predictions couldn't be loaded
+}
+
+// A request for predictions in NOAA's terms, whichever provider answers it
+export interface PredictionQuery {
+  stationId: string;
+  beginDate: string; // yyyyMMdd on the station's clock
+  endDate: string; // yyyyMMdd
+  product: string;
+  datum: string;
+  interval: string; // 'hilo' or minutes between points
+  // The station's zone, which sets where its days begin and end; UTC days without one
+  timeZone?: string;
+}
+
+export interface ProviderCapabilities {
+  hilo: boolean;
+  curve: boolean;
+  datums: Datum[];
+  observed: boolean; // water levels measured so far, for the observed overlay
+  currents: boolean;
+}
+
+/**
+ * A source of tide data. Predictions come back as NOAA-style rows so the
+ * cache and analysis don't care where they came from.
+ */
+export interface TideDataProvider {
+  id: string;
+  name: string;
+  // Remote providers go through the offline cache; local ones are read fresh every time
+  remote: boolean;
+  handles: (stationId: string) => boolean;
+  fetchPredictions: (req: PredictionQuery, signal?: AbortSignal) => Promise<TidePrediction[]>;
+  listStations: () => NOAAStation[];
+  capabilities: (stationId: string) => ProviderCapabilities;
+}
+
+export type StationKind = 'reference' | 'subordinate' | 'currents' | 'imported' | 'unknown';
+
+// How NOAA predicts a subordinate station from its harmonic reference station
+export interface TideOffsets {
+  referenceId: string;
+  highMinutes: number; // added to the reference high's time
+  lowMinutes: number;
+  highHeight: number;
+  lowHeight: number;
+  heightType: 'ratio' | 'fixed'; // ratio multiplies reference heights; fixed adds feet to them
+}
+
+export interface StationDetails {
+  station: NOAAStation;
+  kind: StationKind;
+  offsets: TideOffsets | null;
+  reference: NOAAStation | null; // the station offsets apply to, when known
+  datums: Datum[]; // published by the station
+  products: string[];
+  established: string | null; // yyyy-MM-dd, start of the period of record
 }
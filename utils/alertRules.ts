@@ -0,0 +1,81 @@
+import { addHours, differenceInCalendarDays, eachDayOfInterval, format, isAfter, startOfDay } from 'date-fns';
+import { AlertRule, SavedStation, TideTarget, ThresholdWindow } from '../types';
+import { describeTarget } from './targets';
+import { overlapsDaylight } from './sun';
+import { formatHeight } from './units';
+import { zonedWindow } from './tideAnalysis';
+import { toZonedTime } from './timeZones';
+
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// New rules follow each station's own target until given one of their own
+export const newAlertRule = (station: SavedStation, leadDays: number, target: TideTarget | null = null): AlertRule => ({
+  id: `rule_${Date.now().toString(36)}`,
+  name: '',
+  enabled: true,
+  stations: [station],
+  target,
+  unit: 'ft',
+  leadDays,
+  fromHour: 0,
+  toHour: 24,
+  weekdays: ALL_WEEKDAYS,
+  daylightOnly: false
+});
+
+/**
+ * Whether the window satisfies the rule's clock, weekday and daylight
+ * conditions. Hours and weekdays are read on the station's clock when its
+ * `timeZone` is known.
+ */
+export const windowMatchesRule = (
+  rule: AlertRule,
+  w: ThresholdWindow,
+  location?: { lat: number; lng: number },
+  timeZone?: string
+): boolean => {
+  const local = timeZone ? zonedWindow(w, timeZone) : w;
+  const inHours = eachDayOfInterval({ start: local.start, end: local.end }).some(day => {
+    if (!rule.weekdays.includes(day.getDay())) return false;
+    const from = addHours(startOfDay(day), rule.fromHour);
+    const to = addHours(startOfDay(day), rule.toHour);
+    return local.start < to && local.end > from;
+  });
+  if (!inHours) return false;
+  // Without coordinates there's no sun to check against, so don't block the alert
+  if (rule.daylightOnly && location) return overlapsDaylight(w.start, w.end, location.lat, location.lng);
+  return true;
+};
+
+// Still ahead of us and close enough to announce, counting days on the station's clock
+export const isWindowDue = (rule: AlertRule, w: ThresholdWindow, now: Date, timeZone?: string): boolean => {
+  const days = timeZone
+    ? differenceInCalendarDays(toZonedTime(w.start, timeZone), toZonedTime(now, timeZone))
+    : differenceInCalendarDays(w.start, now);
+  return isAfter(w.end, now) && days <= rule.leadDays;
+};
+
+// One notification per rule, station and predicted peak, however often the rules run
+export const alertKey = (rule: AlertRule, stationId: string, w: ThresholdWindow): string =>
+  `${rule.id}|${stationId}|${w.peak.time.toISOString()}`;
+
+const formatHour = (hour: number): string => format(addHours(startOfDay(new Date()), hour), 'ha').toLowerCase();
+
+export const describeRule = (rule: AlertRule): string => {
+  const parts = [rule.target ? `${describeTarget(rule.target, rule.unit)} MLLW` : 'Own target per station'];
+  if (rule.fromHour > 0 || rule.toHour < 24) parts.push(`${formatHour(rule.fromHour)}–${formatHour(rule.toHour)}`);
+  if (rule.daylightOnly) parts.push('daylight');
+  if (rule.weekdays.length < 7) {
+    const weekend = rule.weekdays.length === 2 && rule.weekdays.includes(0) && rule.weekdays.includes(6);
+    parts.push(weekend ? 'weekends' : rule.weekdays.map(d => WEEKDAY_NAMES[d]).join(', '));
+  }
+  parts.push(rule.leadDays === 0 ? 'same day' : `${rule.leadDays} day${rule.leadDays > 1 ? 's' : ''} ahead`);
+  return parts.join(' · ');
+};
+
+export const alertBody = (rule: AlertRule, instantWindow: ThresholdWindow, timeZone?: string): string => {
+  const w = timeZone ? zonedWindow(instantWindow, timeZone) : instantWindow;
+  const peak = `${w.peak.type === 'L' ? 'Low' : w.peak.type === 'H' ? 'High' : 'Peak'} ${formatHeight(w.peak.height, rule.unit)} MLLW`;
+  return `${peak} on ${format(w.start, 'EEEE, MMM d')}, target met ${format(w.start, 'h:mm a')}–${format(w.end, 'h:mm a')}.`;
+};
@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import { format } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { CurrentPrediction, CurrentTarget } from '../types';
+import { buildCurrentMonth, currentEventMeetsTarget, DEFAULT_CURRENT_TARGET, isCurrentStationId, toCurrentEvents } from './currents';
+import { formatInZone } from './timeZones';
+
+const ZONE = 'America/Los_Angeles';
+const GOLDEN_GATE = { lat: 37.8117, lng: -122.4717 };
+
+// Shaped like NOAA's MAX_SLACK answer for SFB1201, covering Jul 1-2 2026 on the station's clock and stamped in GMT
+const PREDICTIONS: CurrentPrediction[] = JSON.parse(
+  readFileSync(new URL('../fixtures/currents/SFB1201.json', import.meta.url), 'utf8')
+).current_predictions.cp;
+
+const events = toCurrentEvents(PREDICTIONS);
+const target = (fields: Partial<CurrentTarget>): CurrentTarget => ({ ...DEFAULT_CURRENT_TARGET, ...fields });
+
+describe('isCurrentStationId', () => {
+  it.each(['SFB1201', 'cb0102', 'n03020', 'ACT4996', 'PUG1515'])('accepts %s', id => {
+    expect(isCurrentStationId(id)).toBe(true);
+  });
+
+  it.each(['9414290', 'import-ab12', '', 'SFB', 'SFBAY1201'])('rejects "%s"', id => {
+    expect(isCurrentStationId(id)).toBe(false);
+  });
+});
+
+describe('toCurrentEvents', () => {
+  it('reads the GMT stamps as instants', () => {
+    expect(events).toHaveLength(PREDICTIONS.length);
+    expect(events[0].time.toISOString()).toBe('2026-07-01T05:47:00.000Z');
+    expect(formatInZone(events[1].time, ZONE, 'yyyy-MM-dd HH:mm')).toBe('2026-07-01 01:43');
+  });
+
+  it('gives floods and ebbs a positive speed and the direction the water sets toward', () => {
+    expect(events[1]).toMatchObject({ type: 'flood', speed: 3.1, direction: 75 });
+    expect(events[3]).toMatchObject({ type: 'ebb', speed: 4.2, direction: 255 });
+  });
+
+  it('gives slack no direction', () => {
+    expect(events[0]).toMatchObject({ type: 'slack', speed: 0, direction: null });
+  });
+});
+
+describe('currentEventMeetsTarget', () => {
+  const [slack, flood, , ebb] = events;
+
+  it('only matches the kind of event asked for', () => {
+    expect(currentEventMeetsTarget(slack, target({ event: 'slack' }))).toBe(true);
+    expect(currentEventMeetsTarget(flood, target({ event: 'slack' }))).toBe(false);
+    expect(currentEventMeetsTarget(ebb, target({ event: 'flood' }))).toBe(false);
+  });
+
+  it('holds floods and ebbs to the speed limits', () => {
+    expect(currentEventMeetsTarget(ebb, target({ event: 'ebb', maxKnots: 4 }))).toBe(false);
+    expect(currentEventMeetsTarget(ebb, target({ event: 'ebb', maxKnots: 4.5 }))).toBe(true);
+    expect(currentEventMeetsTarget(flood, target({ event: 'flood', minKnots: 3.5 }))).toBe(false);
+    expect(currentEventMeetsTarget(flood, target({ event: 'flood', minKnots: 3, maxKnots: 3.5 }))).toBe(true);
+  });
+
+  it('ignores speed limits at slack', () => {
+    expect(currentEventMeetsTarget(slack, target({ event: 'slack', minKnots: 2 }))).toBe(true);
+  });
+
+  it('passes the sunrise test when the sun isn\'t known', () => {
+    expect(currentEventMeetsTarget(slack, target({ nearSun: 'sunrise', withinMinutes: 1 }))).toBe(true);
+  });
+});
+
+describe('buildCurrentMonth', () => {
+  const july = buildCurrentMonth(new Date(2026, 6, 1), events, target({ event: 'slack' }), ZONE, GOLDEN_GATE);
+  const day = (n: number) => july[n - 1];
+
+  it('groups events into the station\'s days', () => {
+    expect(july).toHaveLength(31);
+    // The first slack is the evening of Jun 30 there
+    expect(day(1).events.map(e => format(e.time, 'HH:mm'))).toEqual(['01:43', '04:52', '08:03', '10:55', '13:58', '17:13', '20:01', '23:02']);
+    expect(day(2).events).toHaveLength(8);
+    expect(day(3).events.map(e => format(e.time, 'HH:mm'))).toEqual(['02:13']);
+    expect(day(4).events).toEqual([]);
+  });
+
+  it('matches every slack when the target only asks for slack', () => {
+    expect(day(1).matches).toHaveLength(4);
+    expect(day(1).matches.every(e => e.type === 'slack')).toBe(true);
+  });
+
+  it('matches slack near sunrise on the station\'s own sunrise', () => {
+    const nearSunrise = buildCurrentMonth(new Date(2026, 6, 1), events, target({ event: 'slack', nearSun: 'sunrise', withinMinutes: 50 }), ZONE, GOLDEN_GATE);
+
+    expect(format(nearSunrise[0].sky.sun!.sunrise!, 'HH:mm')).toMatch(/^05:[45]\d$/);
+    expect(nearSunrise[0].matches).toEqual([]);
+    expect(nearSunrise[1].matches.map(e => format(e.time, 'HH:mm'))).toEqual(['05:07']);
+  });
+});
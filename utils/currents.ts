@@ -0,0 +1,95 @@
+import { eachDayOfInterval, endOfMonth, format, isSameDay, startOfMonth } from 'date-fns';
+import { CurrentDay, CurrentEvent, CurrentPrediction, CurrentTarget, CurrentEventType, DaySky } from '../types';
+import { daySky } from './moon';
+import { parseNoaaTime } from './tideAnalysis';
+import { toZonedTime } from './timeZones';
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_CURRENT_TARGET: CurrentTarget = { event: 'slack', maxKnots: null, minKnots: null, nearSun: null, withinMinutes: 60 };
+
+const EVENT_LABELS: Record<CurrentEventType, string> = { slack: 'Slack', flood: 'Max flood', ebb: 'Max ebb' };
+export const currentEventLabel = (type: CurrentEventType): string => EVENT_LABELS[type];
+
+/**
+ * Water-level stations have seven-digit IDs; current stations have a prefix
+ * of one to four letters naming the survey area, like SFB1201, cb0102 or n03020.
+ */
+export const isCurrentStationId = (id: string): boolean => /^[a-z]{1,4}\d{3,5}$/i.test(id);
+
+export const toCurrentEvents = (predictions: CurrentPrediction[]): CurrentEvent[] =>
+  predictions.map(p => {
+    const direction = p.Type === 'flood' ? p.meanFloodDir : p.Type === 'ebb' ? p.meanEbbDir : undefined;
+    return {
+      time: parseNoaaTime(p.Time),
+      type: p.Type,
+      speed: Math.abs(Number(p.Velocity_Major) || 0),
+      direction: direction ?? null
+    };
+  });
+
+const COMPASS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+export const compassPoint = (degrees: number): string => COMPASS[Math.round((((degrees % 360) + 360) % 360) / 22.5) % 16];
+
+export const formatKnots = (knots: number): string => `${knots.toFixed(1)} kn`;
+
+/**
+ * `event` and the sky must be on the same clock. A day without a known sun
+ * passes the sunrise/sunset test, the same way the daylight filter treats an
+ * unknown location.
+ */
+export const currentEventMeetsTarget = (event: CurrentEvent, target: CurrentTarget, sky?: DaySky): boolean => {
+  if (event.type !== target.event) return false;
+  if (event.type !== 'slack') {
+    if (target.maxKnots !== null && event.speed > target.maxKnots) return false;
+    if (target.minKnots !== null && event.speed < target.minKnots) return false;
+  }
+  if (target.nearSun) {
+    const mark = sky?.sun?.[target.nearSun];
+    if (mark && Math.abs(event.time.getTime() - mark.getTime()) > target.withinMinutes * MINUTE_MS) return false;
+  }
+  return true;
+};
+
+/**
+ * Groups a month of current events into days on `displayZone`'s clock and
+ * marks the ones that meet the target. Events come in as instants and go out
+ * on the display clock, like `buildDayData`.
+ */
+export const buildCurrentMonth = (
+  month: Date,
+  events: CurrentEvent[],
+  target: CurrentTarget,
+  displayZone: string,
+  location?: { lat: number; lng: number }
+): CurrentDay[] => {
+  const zoned = events.map(e => ({ ...e, time: toZonedTime(e.time, displayZone) }));
+  return eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).map(date => {
+    const sky = daySky(date, location, displayZone);
+    const dayEvents = zoned.filter(e => isSameDay(e.time, date));
+    return { date, events: dayEvents, matches: dayEvents.filter(e => currentEventMeetsTarget(e, target, sky)), sky };
+  });
+};
+
+export const describeCurrentTarget = (target: CurrentTarget): string => {
+  const parts = [currentEventLabel(target.event)];
+  if (target.event !== 'slack') {
+    if (target.minKnots !== null && target.maxKnots !== null) parts.push(`${target.minKnots}–${formatKnots(target.maxKnots)}`);
+    else if (target.maxKnots !== null) parts.push(`under ${formatKnots(target.maxKnots)}`);
+    else if (target.minKnots !== null) parts.push(`over ${formatKnots(target.minKnots)}`);
+  }
+  if (target.nearSun) {
+    const within = target.withinMinutes % 60 === 0 ? `${target.withinMinutes / 60}h` : `${target.withinMinutes}m`;
+    parts.push(`within ${within} of ${target.nearSun}`);
+  }
+  return parts.join(' ');
+};
+
+// e.g. "2:14 PM Max ebb 1.8 kn WSW"
+export const describeCurrentEvent = (event: CurrentEvent): string =>
+  [
+    format(event.time, 'h:mm a'),
+    currentEventLabel(event.type),
+    event.type !== 'slack' && formatKnots(event.speed),
+    event.direction !== null && compassPoint(event.direction)
+  ].filter(Boolean).join(' ');
@@ -0,0 +1,50 @@
+import { format } from 'date-fns';
+import { DailyTideData, LengthUnit, TideTarget } from '../types';
+import { qualifyingEvents } from './tideScan';
+import { toUnit } from './units';
+
+// One day flattened for spreadsheets and scripts; times read on the days' own clock
+export interface DayRecord {
+  date: string; // yyyy-MM-dd
+  meets: boolean;
+  high: number | null;
+  low: number | null;
+  events: { time: string; type: 'H' | 'L' | null; height: number; meets: boolean }[];
+  windows: { start: string; end: string; minutes: number }[];
+}
+
+const stamp = (d: Date) => format(d, 'yyyy-MM-dd HH:mm');
+
+export const toDayRecord = (day: DailyTideData, target: TideTarget, unit: LengthUnit): DayRecord => {
+  const meeting = qualifyingEvents(day, target);
+  const height = (feet: number) => Math.round(toUnit(feet, unit) * 100) / 100;
+  return {
+    date: format(day.date, 'yyyy-MM-dd'),
+    meets: day.meetsThreshold,
+    high: day.events.some(e => e.type === 'H') ? height(day.maxHeight) : null,
+    low: day.events.some(e => e.type === 'L') ? height(day.minHeight) : null,
+    events: day.events.map(e => ({ time: stamp(e.time), type: e.type ?? null, height: height(e.height), meets: meeting.includes(e) })),
+    windows: day.windows.map(w => ({ start: stamp(w.start), end: stamp(w.end), minutes: w.durationMinutes }))
+  };
+};
+
+export const dayRecordColumns = (unit: LengthUnit): string[] =>
+  ['date', 'meets', `high_${unit}`, `low_${unit}`, 'events', 'window_minutes'];
+
+// The events that met the target, or every event on a day that didn't
+export const dayRecordCells = (r: DayRecord): (string | number)[] => [
+  r.date,
+  r.meets ? 'yes' : 'no',
+  r.high ?? '',
+  r.low ?? '',
+  r.events.filter(e => e.meets || !r.meets).map(e => `${e.time.slice(11)} ${e.type ?? ''}${e.height}`).join('; '),
+  r.windows.reduce((sum, w) => sum + w.minutes, 0) || ''
+];
+
+export const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const dayRecordsToCsv = (records: DayRecord[], unit: LengthUnit): string =>
+  [dayRecordColumns(unit), ...records.map(dayRecordCells)].map(line => line.map(csvCell).join(',')).join('\n') + '\n';
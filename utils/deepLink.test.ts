@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { encodeLink, LinkState, parseLink } from './deepLink';
+
+const STATE: LinkState = {
+  station: { id: '9414290', name: 'San Francisco, CA' },
+  month: new Date(2026, 10, 1),
+  target: { mode: 'range', high: 4.5, low: 1 },
+  view: 'year',
+  datum: 'MLW',
+  unit: 'm'
+};
+
+describe('encodeLink', () => {
+  it('writes only the bounds the target mode looks at', () => {
+    const high = new URLSearchParams(encodeLink({ ...STATE, target: { mode: 'high', high: 6, low: 0 } }));
+    const low = new URLSearchParams(encodeLink({ ...STATE, target: { mode: 'low', high: 6, low: -0.5 } }));
+
+    expect(high.get('high')).toBe('6');
+    expect(high.has('low')).toBe(false);
+    expect(low.get('low')).toBe('-0.5');
+    expect(low.has('high')).toBe(false);
+  });
+});
+
+describe('parseLink', () => {
+  it('reads back everything a link was made from', () => {
+    expect(parseLink(encodeLink(STATE))).toEqual(STATE);
+  });
+
+  it('reads current and imported station IDs too', () => {
+    expect(parseLink('?station=SFB1201&name=Golden%20Gate').station).toEqual({ id: 'SFB1201', name: 'Golden Gate' });
+    expect(parseLink('?station=import-ab12').station?.id).toBe('import-ab12');
+  });
+
+  it('names a station from the catalog, or by its ID, when the link has no name', () => {
+    expect(parseLink('?station=9413450').station?.name).toBe('Monterey, CA');
+    expect(parseLink('?station=9999999').station?.name).toBe('Station 9999999');
+  });
+
+  it('returns nothing for an empty link', () => {
+    expect(parseLink('')).toEqual({});
+  });
+
+  it('drops each malformed value on its own, keeping the rest', () => {
+    const parsed = parseLink('?station=941429&month=2026-13&mode=flood&high=abc&low=-1&datum=XYZ&unit=yd&view=map');
+
+    expect(parsed).toEqual({ target: { low: -1 } });
+  });
+
+  it('drops heights beyond any real tide', () => {
+    expect(parseLink('?mode=high&high=600').target).toEqual({ mode: 'high' });
+  });
+
+  it('drops range bounds that cross', () => {
+    expect(parseLink('?mode=range&high=1&low=4').target).toEqual({ mode: 'range' });
+  });
+
+  it('caps a long station name', () => {
+    expect(parseLink(`?station=9414290&name=${'x'.repeat(200)}`).station?.name).toHaveLength(80);
+  });
+});
@@ -0,0 +1,90 @@
+import { format, isValid, parse } from 'date-fns';
+import { Datum, LengthUnit, SavedStation, TargetMode, TideTarget, ViewMode } from '../types';
+import { STATION_CATALOG } from '../data/stationCatalog';
+import { DATUMS } from './units';
+import { stationLabel } from './stationSearch';
+import { isCurrentStationId } from './currents';
+import { isImportedStationId } from './seriesImport';
+
+// What a shared link carries. Target heights are feet above MLLW, like the app's own state.
+export interface LinkState {
+  station: SavedStation;
+  month: Date;
+  target: TideTarget;
+  view: ViewMode;
+  datum: Datum;
+  unit: LengthUnit;
+}
+
+const VIEW_MODES: ViewMode[] = ['calendar', 'list', 'compare', 'year', 'trips'];
+const TARGET_MODES: TargetMode[] = ['high', 'low', 'range'];
+const MONTH_FORMAT = 'yyyy-MM';
+// Beyond any tide on record, so anything outside is a typo or a tampered link
+const MAX_LINK_FEET = 60;
+
+const linkHeight = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const feet = Number(value);
+  return Number.isFinite(feet) && Math.abs(feet) <= MAX_LINK_FEET ? feet : undefined;
+};
+
+export const encodeLink = (state: LinkState): string => {
+  const params = new URLSearchParams();
+  params.set('station', state.station.id);
+  params.set('name', state.station.name);
+  params.set('month', format(state.month, MONTH_FORMAT));
+  params.set('mode', state.target.mode);
+  // Only the bounds the mode looks at, so links stay short
+  if (state.target.mode !== 'low') params.set('high', String(state.target.high));
+  if (state.target.mode !== 'high') params.set('low', String(state.target.low));
+  params.set('datum', state.datum);
+  params.set('unit', state.unit);
+  params.set('view', state.view);
+  return `?${params.toString()}`;
+};
+
+/**
+ * Reads whatever a link validly specifies. Unknown or malformed values are
+ * dropped one by one, so a bad month doesn't lose the station with it.
+ */
+export const parseLink = (search: string): Partial<Omit<LinkState, 'target'>> & { target?: Partial<TideTarget> } => {
+  const params = new URLSearchParams(search);
+  const result: ReturnType<typeof parseLink> = {};
+
+  const id = params.get('station');
+  // Imported stations only resolve on the device that imported them
+  if (id && (/^\d{7}$/.test(id) || isCurrentStationId(id) || isImportedStationId(id))) {
+    const bundled = STATION_CATALOG.find(s => s.id === id);
+    const name = params.get('name')?.trim().slice(0, 80);
+    result.station = { id, name: name || (bundled ? stationLabel(bundled) : `Station ${id}`) };
+  }
+
+  const month = params.get('month');
+  if (month && /^\d{4}-\d{2}$/.test(month)) {
+    const parsed = parse(month, MONTH_FORMAT, new Date());
+    if (isValid(parsed)) result.month = parsed;
+  }
+
+  const target: Partial<TideTarget> = {};
+  const mode = params.get('mode') as TargetMode | null;
+  if (mode && TARGET_MODES.includes(mode)) target.mode = mode;
+  const high = linkHeight(params.get('high'));
+  const low = linkHeight(params.get('low'));
+  if (high !== undefined) target.high = high;
+  if (low !== undefined) target.low = low;
+  // A range whose bounds cross can't match anything, so keep neither
+  if (target.high !== undefined && target.low !== undefined && target.mode === 'range' && target.low > target.high) {
+    delete target.high;
+    delete target.low;
+  }
+  if (Object.keys(target).length) result.target = target;
+
+  const datum = params.get('datum') as Datum | null;
+  if (datum && DATUMS.some(d => d.id === datum)) result.datum = datum;
+  const unit = params.get('unit');
+  if (unit === 'ft' || unit === 'm') result.unit = unit;
+  const view = params.get('view') as ViewMode | null;
+  if (view && VIEW_MODES.includes(view)) result.view = view;
+
+  return result;
+};
@@ -0,0 +1,98 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { TidePrediction } from '../types';
+import { HarmonicModel, predictCurve, predictHiLo } from './harmonics';
+
+// NOAA's harcon.json for Monterey, CA (9413450), in feet
+const harcon = JSON.parse(readFileSync(new URL('../fixtures/harcon/9413450.json', import.meta.url), 'utf8'));
+
+// Relative to MSL, so heights compare directly with the constants
+const model: HarmonicModel = {
+  stationId: '9413450',
+  datumOffset: 0,
+  constituents: harcon.HarmonicConstituents.map((c: { name: string; amplitude: number; phase_GMT: number; speed: number }) => ({
+    name: c.name,
+    amplitude: c.amplitude,
+    phase: c.phase_GMT,
+    speed: c.speed
+  }))
+};
+
+// Monterey, Sep 1-3 2019 (GMT, feet above MSL), as computed by an independent Schureman implementation
+const EXPECTED = [
+  ['2019-09-01 00:52', -1.565, 'L'],
+  ['2019-09-01 06:56', 3.134, 'H'],
+  ['2019-09-01 13:33', -2.988, 'L'],
+  ['2019-09-01 19:56', 2.411, 'H'],
+  ['2019-09-02 01:50', -1.776, 'L'],
+  ['2019-09-02 07:53', 2.589, 'H'],
+  ['2019-09-02 14:14', -2.406, 'L'],
+  ['2019-09-02 20:38', 2.564, 'H'],
+  ['2019-09-03 02:52', -1.906, 'L'],
+  ['2019-09-03 08:55', 1.964, 'H'],
+  ['2019-09-03 14:57', -1.744, 'L'],
+  ['2019-09-03 21:23', 2.630, 'H']
+] as const;
+
+const gmt = (t: string) => new Date(`${t.replace(' ', 'T')}:00Z`);
+const begin = gmt('2019-09-01 00:00');
+const end = gmt('2019-09-04 00:00');
+
+describe('predictHiLo', () => {
+  it('matches the reference highs and lows within two minutes and a hundredth of a foot', () => {
+    const predicted = predictHiLo(model, begin, end);
+
+    expect(predicted).toHaveLength(EXPECTED.length);
+    predicted.forEach((p, i) => {
+      const [t, v, type] = EXPECTED[i];
+      expect(p.type).toBe(type);
+      expect(Math.abs(gmt(p.t).getTime() - gmt(t).getTime())).toBeLessThanOrEqual(2 * 60000);
+      expect(parseFloat(p.v)).toBeCloseTo(v, 2);
+    });
+  });
+
+  it('adds the datum offset to every height', () => {
+    const mllw = predictHiLo({ ...model, datumOffset: 2.8 }, begin, end);
+    const msl = predictHiLo(model, begin, end);
+
+    mllw.forEach((p, i) => expect(parseFloat(p.v) - parseFloat(msl[i].v)).toBeCloseTo(2.8, 3));
+  });
+});
+
+// NOAA's own hilo predictions for Monterey in MLLW, saved as `tidewatch scan --station 9413450 --fixtures fixtures/noaa` records them
+const RECORDED = new URL('../fixtures/noaa/9413450/2026-07-hilo-MLLW.json', import.meta.url);
+// MSL above MLLW at Monterey, from NOAA's published datums for the station
+const MSL_ABOVE_MLLW = 2.8;
+const HOUR_MS = 60 * 60000;
+const TIME_TOLERANCE_MS = 6 * 60000;
+const HEIGHT_TOLERANCE_FT = 0.1;
+
+// Skipped until the response is recorded, since nothing else here can stand in for NOAA's published numbers
+describe.skipIf(!existsSync(RECORDED))('predictHiLo against NOAA', () => {
+  it('matches NOAA\'s highs and lows within six minutes and a tenth of a foot', () => {
+    const recorded: TidePrediction[] = JSON.parse(readFileSync(RECORDED, 'utf8'));
+    const first = gmt(recorded[0].t).getTime();
+    const last = gmt(recorded[recorded.length - 1].t).getTime();
+    // A margin of an hour either side, then only the turns that could pair with a recorded one
+    const predicted = predictHiLo({ ...model, datumOffset: MSL_ABOVE_MLLW }, new Date(first - HOUR_MS), new Date(last + HOUR_MS))
+      .filter(p => gmt(p.t).getTime() >= first - TIME_TOLERANCE_MS && gmt(p.t).getTime() <= last + TIME_TOLERANCE_MS);
+
+    expect(predicted).toHaveLength(recorded.length);
+    predicted.forEach((p, i) => {
+      expect(p.type).toBe(recorded[i].type);
+      expect(Math.abs(gmt(p.t).getTime() - gmt(recorded[i].t).getTime())).toBeLessThanOrEqual(TIME_TOLERANCE_MS);
+      expect(Math.abs(parseFloat(p.v) - parseFloat(recorded[i].v))).toBeLessThanOrEqual(HEIGHT_TOLERANCE_FT);
+    });
+  });
+});
+
+describe('predictCurve', () => {
+  it('passes through the predicted highs and lows', () => {
+    const curve = predictCurve(model, begin, end, 1);
+    const byTime = new Map(curve.map(p => [p.t, parseFloat(p.v)]));
+
+    predictHiLo(model, begin, end).forEach(p => {
+      expect(byTime.get(p.t)).toBeCloseTo(parseFloat(p.v), 2);
+    });
+  });
+});
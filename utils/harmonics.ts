@@ -0,0 +1,358 @@
+import { formatNoaaTime } from './tideAnalysis';
+import { TidePrediction } from '../types';
+
+/**
+ * Harmonic tide prediction from a station's constituents.
+ *
+ * The astronomy follows Meeus (Astronomical Algorithms) for the mean orbital
+ * elements and Schureman (Manual of Harmonic Analysis and Prediction of Tides,
+ * 1940) for equilibrium arguments and nodal corrections, the same formulation
+ * NOAA uses to publish its constants. Phases are Greenwich epochs (NOAA's
+ * `phase_GMT`), so all arguments are computed in UTC.
+ */
+
+export interface HarmonicConstituent {
+  name: string;
+  amplitude: number; // feet
+  phase: number; // Greenwich epoch, degrees
+  speed: number; // degrees per hour
+}
+
+export interface HarmonicModel {
+  stationId: string;
+  datumOffset: number; // MSL above the prediction datum (MLLW), feet
+  constituents: HarmonicConstituent[];
+}
+
+const d2r = Math.PI / 180;
+const r2d = 180 / Math.PI;
+
+const mod360 = (x: number) => ((x % 360) + 360) % 360;
+const polynomial = (c: number[], x: number) => c.reduce((sum, ci, i) => sum + ci * x ** i, 0);
+const dPolynomial = (c: number[], x: number) => c.reduce((sum, ci, i) => (i ? sum + ci * i * x ** (i - 1) : sum), 0);
+const s2d = (deg: number, min = 0, sec = 0) => deg + min / 60 + sec / 3600;
+
+// Meeus 21.3, rescaled from units of 10,000 years to Julian centuries
+const OBLIQUITY = [
+  s2d(23, 26, 21.448), -s2d(0, 0, 4680.93), -s2d(0, 0, 1.55), s2d(0, 0, 1999.25), -s2d(0, 0, 51.38),
+  -s2d(0, 0, 249.67), -s2d(0, 0, 39.05), s2d(0, 0, 7.12), s2d(0, 0, 27.87), s2d(0, 0, 5.79), s2d(0, 0, 2.45)
+].map((c, i) => c * 1e-2 ** i);
+
+const SOLAR_PERIGEE = [280.46645 - 357.5291, 36000.76932 - 35999.0503, 0.0003032 + 0.0001559, 0.00000048];
+const SOLAR_LONGITUDE = [280.46645, 36000.76983, 0.0003032];
+const LUNAR_INCLINATION = [5.145];
+const LUNAR_LONGITUDE = [218.3164591, 481267.88134236, -0.0013268, 1 / 538841, -1 / 65194000];
+const LUNAR_NODE = [125.044555, -1934.1361849, 0.0020762, 1 / 467410, -1 / 60616000];
+const LUNAR_PERIGEE = [83.353243, 4069.0137111, -0.0103238, -1 / 80053, 1 / 18999000];
+
+const HOURS_PER_CENTURY = 24 * 365.25 * 100;
+
+interface Astro {
+  value: Record<string, number>;
+  speed: Record<string, number>;
+}
+
+const julianDay = (t: Date) => t.getTime() / 86400000 + 2440587.5;
+
+const astro = (t: Date): Astro => {
+  const jd = julianDay(t);
+  const centuries = (jd - 2451545) / 36525;
+  const value: Record<string, number> = {};
+  const speed: Record<string, number> = {};
+
+  const polys: Record<string, number[]> = {
+    s: LUNAR_LONGITUDE,
+    h: SOLAR_LONGITUDE,
+    p: LUNAR_PERIGEE,
+    N: LUNAR_NODE,
+    pp: SOLAR_PERIGEE,
+    90: [90],
+    omega: OBLIQUITY,
+    i: LUNAR_INCLINATION
+  };
+  Object.entries(polys).forEach(([name, c]) => {
+    value[name] = mod360(polynomial(c, centuries));
+    speed[name] = dPolynomial(c, centuries) / HOURS_PER_CENTURY;
+  });
+
+  // Schureman's auxiliary angles for the nodal corrections (Table 6 notes)
+  const N = value.N * d2r;
+  const i = value.i * d2r;
+  const omega = value.omega * d2r;
+  const I = Math.acos(Math.cos(i) * Math.cos(omega) - Math.sin(i) * Math.sin(omega) * Math.cos(N));
+  const e1 = Math.atan(Math.cos(0.5 * (omega - i)) / Math.cos(0.5 * (omega + i)) * Math.tan(0.5 * N)) - 0.5 * N;
+  const e2 = Math.atan(Math.sin(0.5 * (omega - i)) / Math.sin(0.5 * (omega + i)) * Math.tan(0.5 * N)) - 0.5 * N;
+  const xi = -(e1 + e2);
+  const nu = e1 - e2;
+  const nup = Math.atan(Math.sin(2 * I) * Math.sin(nu) / (Math.sin(2 * I) * Math.cos(nu) + 0.3347));
+  const nupp = 0.5 * Math.atan(Math.sin(I) ** 2 * Math.sin(2 * nu) / (Math.sin(I) ** 2 * Math.cos(2 * nu) + 0.0727));
+
+  value.I = mod360(I * r2d);
+  value.xi = mod360(xi * r2d);
+  value.nu = mod360(nu * r2d);
+  value.nup = mod360(nup * r2d);
+  value.nupp = mod360(nupp * r2d);
+  value.P = mod360(value.p - value.xi);
+
+  // Mean solar hour angle, 0° at Greenwich noon and 180° at midnight. The Julian day starts at noon,
+  // so its fraction already carries that half-day (180°) shift from the civil day
+  const hour = (jd - Math.floor(jd)) * 360;
+  value['T+h-s'] = hour + value.h - value.s;
+  speed['T+h-s'] = 15 + speed.h - speed.s;
+  speed[90] = 0;
+
+  return { value, speed };
+};
+
+// Nodal factors (f) and corrections (u), Schureman Table 14
+type Nodal = (a: Astro) => number;
+
+const rad = (a: Astro, key: string) => a.value[key] * d2r;
+const fUnity: Nodal = () => 1;
+const uZero: Nodal = () => 0;
+
+const fMm: Nodal = a => {
+  const mean = (2 / 3 - Math.sin(rad(a, 'omega')) ** 2) * (1 - 1.5 * Math.sin(rad(a, 'i')) ** 2);
+  return (2 / 3 - Math.sin(rad(a, 'I')) ** 2) / mean;
+};
+const fMf: Nodal = a => {
+  const mean = Math.sin(rad(a, 'omega')) ** 2 * Math.cos(0.5 * rad(a, 'i')) ** 4;
+  return Math.sin(rad(a, 'I')) ** 2 / mean;
+};
+const uMf: Nodal = a => -2 * a.value.xi;
+const fO1: Nodal = a => {
+  const omega = rad(a, 'omega');
+  const I = rad(a, 'I');
+  const mean = Math.sin(omega) * Math.cos(0.5 * omega) ** 2 * Math.cos(0.5 * rad(a, 'i')) ** 4;
+  return Math.sin(I) * Math.cos(0.5 * I) ** 2 / mean;
+};
+const uO1: Nodal = a => 2 * a.value.xi - a.value.nu;
+const fJ1: Nodal = a => {
+  const mean = Math.sin(2 * rad(a, 'omega')) * (1 - 1.5 * Math.sin(rad(a, 'i')) ** 2);
+  return Math.sin(2 * rad(a, 'I')) / mean;
+};
+const uJ1: Nodal = a => -a.value.nu;
+const fOO1: Nodal = a => {
+  const omega = rad(a, 'omega');
+  const I = rad(a, 'I');
+  const mean = Math.sin(omega) * Math.sin(0.5 * omega) ** 2 * Math.cos(0.5 * rad(a, 'i')) ** 4;
+  return Math.sin(I) * Math.sin(0.5 * I) ** 2 / mean;
+};
+const uOO1: Nodal = a => -2 * a.value.xi - a.value.nu;
+const fM2: Nodal = a => {
+  const mean = Math.cos(0.5 * rad(a, 'omega')) ** 4 * Math.cos(0.5 * rad(a, 'i')) ** 4;
+  return Math.cos(0.5 * rad(a, 'I')) ** 4 / mean;
+};
+const uM2: Nodal = a => 2 * a.value.xi - 2 * a.value.nu;
+const fK1: Nodal = a => {
+  const I = rad(a, 'I');
+  const mean = 0.5023 * Math.sin(2 * rad(a, 'omega')) * (1 - 1.5 * Math.sin(rad(a, 'i')) ** 2) + 0.1681;
+  return Math.sqrt(0.2523 * Math.sin(2 * I) ** 2 + 0.1689 * Math.sin(2 * I) * Math.cos(rad(a, 'nu')) + 0.0283) / mean;
+};
+const uK1: Nodal = a => -a.value.nup;
+const fL2: Nodal = a => {
+  const P = rad(a, 'P');
+  const I = rad(a, 'I');
+  const rInv = Math.sqrt(1 - 12 * Math.tan(0.5 * I) ** 2 * Math.cos(2 * P) + 36 * Math.tan(0.5 * I) ** 4);
+  return fM2(a) * rInv;
+};
+const uL2: Nodal = a => {
+  const P = rad(a, 'P');
+  const I = rad(a, 'I');
+  const r = r2d * Math.atan(Math.sin(2 * P) / (1 / 6 * Math.tan(0.5 * I) ** -2 - Math.cos(2 * P)));
+  return 2 * a.value.xi - 2 * a.value.nu - r;
+};
+const fK2: Nodal = a => {
+  const I = rad(a, 'I');
+  const mean = 0.5023 * Math.sin(rad(a, 'omega')) ** 2 * (1 - 1.5 * Math.sin(rad(a, 'i')) ** 2) + 0.0365;
+  return Math.sqrt(0.2523 * Math.sin(I) ** 4 + 0.0367 * Math.sin(I) ** 2 * Math.cos(2 * rad(a, 'nu')) + 0.0013) / mean;
+};
+const uK2: Nodal = a => -2 * a.value.nupp;
+const fM1: Nodal = a => {
+  const P = rad(a, 'P');
+  const I = rad(a, 'I');
+  const qInv = Math.sqrt(
+    0.25 + 1.5 * Math.cos(I) * Math.cos(2 * P) * Math.cos(0.5 * I) ** -0.5 + 2.25 * Math.cos(I) ** 2 * Math.cos(0.5 * I) ** -4
+  );
+  return fO1(a) * qInv;
+};
+const uM1: Nodal = a => {
+  const P = rad(a, 'P');
+  const I = rad(a, 'I');
+  const q = r2d * Math.atan((5 * Math.cos(I) - 1) / (7 * Math.cos(I) + 1) * Math.tan(P));
+  return a.value.xi - a.value.nu + q;
+};
+
+interface Constituent {
+  value: Nodal; // equilibrium argument V
+  speed: Nodal;
+  u: Nodal;
+  f: Nodal;
+}
+
+// Coefficients apply to [T+h-s, s, h, p, N, pp, 90]
+const ARGS = ['T+h-s', 's', 'h', 'p', 'N', 'pp', '90'];
+
+const base = (coefficients: number[], u: Nodal, f: Nodal): Constituent => ({
+  value: a => coefficients.reduce((sum, c, k) => sum + c * a.value[ARGS[k]], 0),
+  speed: a => coefficients.reduce((sum, c, k) => sum + c * a.speed[ARGS[k]], 0),
+  u,
+  f
+});
+
+const compound = (members: [Constituent, number][]): Constituent => ({
+  value: a => members.reduce((sum, [c, n]) => sum + n * c.value(a), 0),
+  speed: a => members.reduce((sum, [c, n]) => sum + n * c.speed(a), 0),
+  u: a => members.reduce((sum, [c, n]) => sum + n * c.u(a), 0),
+  f: a => members.reduce((prod, [c, n]) => prod * c.f(a) ** Math.abs(n), 1)
+});
+
+const M2 = base([2, 0, 0, 0, 0, 0, 0], uM2, fM2);
+const S2 = base([2, 2, -2, 0, 0, 0, 0], uZero, fUnity);
+const N2 = base([2, -1, 0, 1, 0, 0, 0], uM2, fM2);
+const NU2 = base([2, -1, 2, -1, 0, 0, 0], uM2, fM2);
+const K1 = base([1, 1, 0, 0, 0, 0, -1], uK1, fK1);
+const O1 = base([1, -1, 0, 0, 0, 0, 1], uO1, fO1);
+const Q1 = base([1, -2, 0, 1, 0, 0, 1], uO1, fO1);
+const J1 = base([1, 2, 0, -1, 0, 0, -1], uJ1, fJ1);
+
+const CONSTITUENTS: Record<string, Constituent> = {
+  // Long period
+  SA: base([0, 0, 1, 0, 0, 0, 0], uZero, fUnity),
+  SSA: base([0, 0, 2, 0, 0, 0, 0], uZero, fUnity),
+  MM: base([0, 1, 0, -1, 0, 0, 0], uZero, fMm),
+  MF: base([0, 2, 0, 0, 0, 0, 0], uMf, fMf),
+  MSF: compound([[S2, 1], [M2, -1]]),
+  // Diurnal
+  Q1,
+  O1,
+  K1,
+  J1,
+  M1: base([1, 0, 0, 0, 0, 0, 1], uM1, fM1),
+  P1: base([1, 1, -2, 0, 0, 0, 1], uZero, fUnity),
+  S1: base([1, 1, -1, 0, 0, 0, 0], uZero, fUnity),
+  OO1: base([1, 3, 0, 0, 0, 0, -1], uOO1, fOO1),
+  '2Q1': compound([[N2, 1], [J1, -1]]),
+  RHO: compound([[NU2, 1], [K1, -1]]),
+  // Semidiurnal
+  M2,
+  S2,
+  N2,
+  NU2,
+  '2N2': base([2, -2, 0, 2, 0, 0, 0], uM2, fM2),
+  LAM2: base([2, 1, -2, 1, 0, 0, 2], uM2, fM2),
+  L2: base([2, 1, 0, -1, 0, 0, 2], uL2, fL2),
+  T2: base([2, 2, -3, 0, 0, 1, 0], uZero, fUnity),
+  R2: base([2, 2, -1, 0, 0, -1, 2], uZero, fUnity),
+  K2: base([2, 2, 0, 0, 0, 0, 0], uK2, fK2),
+  MU2: compound([[M2, 2], [S2, -1]]),
+  '2SM2': compound([[S2, 2], [M2, -1]]),
+  // Higher harmonics
+  M3: base([3, 0, 0, 0, 0, 0, 0], a => 1.5 * uM2(a), a => fM2(a) ** 1.5),
+  MK3: compound([[M2, 1], [K1, 1]]),
+  '2MK3': compound([[M2, 1], [O1, 1]]),
+  M4: compound([[M2, 2]]),
+  MN4: compound([[M2, 1], [N2, 1]]),
+  MS4: compound([[M2, 1], [S2, 1]]),
+  S4: compound([[S2, 2]]),
+  M6: compound([[M2, 3]]),
+  S6: compound([[S2, 3]]),
+  M8: compound([[M2, 4]])
+};
+
+export const isKnownConstituent = (name: string): boolean => name.toUpperCase() in CONSTITUENTS;
+
+// Arguments and nodal corrections drift slowly, so they're evaluated once per chunk of this length
+const CHUNK_MS = 31 * 24 * 3600000;
+const HOUR_MS = 3600000;
+
+interface PreparedTerm {
+  amplitude: number; // f * A
+  phase: number; // V0 + u - G, degrees
+  speed: number; // degrees per hour
+}
+
+const prepare = (model: HarmonicModel, start: Date): PreparedTerm[] => {
+  const a0 = astro(start);
+  const aMid = astro(new Date(start.getTime() + CHUNK_MS / 2));
+  return model.constituents
+    .filter(c => isKnownConstituent(c.name) && c.amplitude)
+    .map(c => {
+      const def = CONSTITUENTS[c.name.toUpperCase()];
+      return {
+        amplitude: def.f(aMid) * c.amplitude,
+        phase: def.value(a0) + def.u(aMid) - c.phase,
+        speed: def.speed(a0)
+      };
+    });
+};
+
+// Hands out the prepared terms covering an instant plus its offset into their chunk, in hours
+const termCursor = (model: HarmonicModel) => {
+  let chunkStart = Number.NEGATIVE_INFINITY;
+  let terms: PreparedTerm[] = [];
+  return (ms: number) => {
+    if (ms < chunkStart || ms - chunkStart >= CHUNK_MS) {
+      chunkStart = ms;
+      terms = prepare(model, new Date(ms));
+    }
+    return { terms, hours: (ms - chunkStart) / HOUR_MS };
+  };
+};
+
+const heightAt = (terms: PreparedTerm[], offset: number, hours: number) =>
+  terms.reduce((sum, t) => sum + t.amplitude * Math.cos(d2r * (t.phase + t.speed * hours)), offset);
+
+const slopeAt = (terms: PreparedTerm[], hours: number) =>
+  terms.reduce((sum, t) => sum - t.amplitude * t.speed * d2r * Math.sin(d2r * (t.phase + t.speed * hours)), 0);
+
+// Stamped in GMT, like the predictions requested from NOAA
+const toPrediction = (time: Date, height: number, type?: 'H' | 'L'): TidePrediction => ({
+  t: formatNoaaTime(time),
+  v: height.toFixed(3),
+  ...(type ? { type } : {})
+});
+
+/**
+ * Continuous water level between `begin` and `end` at a fixed step, in the
+ * same shape as NOAA's interval predictions.
+ */
+export const predictCurve = (model: HarmonicModel, begin: Date, end: Date, stepMinutes = 6): TidePrediction[] => {
+  const out: TidePrediction[] = [];
+  const cursor = termCursor(model);
+  for (let ms = begin.getTime(); ms <= end.getTime(); ms += stepMinutes * 60000) {
+    const { terms, hours } = cursor(ms);
+    out.push(toPrediction(new Date(ms), heightAt(terms, model.datumOffset, hours)));
+  }
+  return out;
+};
+
+/**
+ * Highs and lows between `begin` and `end`, found where the curve's slope
+ * changes sign and refined by bisection to well under a minute.
+ */
+export const predictHiLo = (model: HarmonicModel, begin: Date, end: Date): TidePrediction[] => {
+  const out: TidePrediction[] = [];
+  const cursor = termCursor(model);
+  const step = 0.25; // hours; far shorter than the spacing of any real extremum
+
+  for (let ms = begin.getTime() + step * HOUR_MS; ms <= end.getTime(); ms += step * HOUR_MS) {
+    const { terms, hours } = cursor(ms);
+    const prevSlope = slopeAt(terms, hours - step);
+    if (Math.sign(slopeAt(terms, hours)) === Math.sign(prevSlope)) continue;
+
+    let lo = hours - step;
+    let hi = hours;
+    for (let k = 0; k < 20; k++) {
+      const mid = (lo + hi) / 2;
+      if (Math.sign(slopeAt(terms, mid)) === Math.sign(prevSlope)) lo = mid; else hi = mid;
+    }
+    const at = (lo + hi) / 2;
+    out.push(toPrediction(
+      new Date(ms + (at - hours) * HOUR_MS),
+      heightAt(terms, model.datumOffset, at),
+      prevSlope > 0 ? 'H' : 'L'
+    ));
+  }
+  return out;
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ThresholdWindow, TideTarget } from '../types';
+import { buildTideCalendar, CalendarOptions, windowUid } from './ical';
+
+const TARGET: TideTarget = { mode: 'low', high: 5, low: 0 };
+
+const tideWindow = (peakIso: string, startIso: string, endIso: string): ThresholdWindow => ({
+  start: new Date(startIso),
+  end: new Date(endIso),
+  durationMinutes: (new Date(endIso).getTime() - new Date(startIso).getTime()) / 60000,
+  peak: { time: new Date(peakIso), height: -1.2, isPeak: true, type: 'L' }
+});
+
+const LOW = tideWindow('2026-11-10T19:42:00.000Z', '2026-11-10T18:30:00.000Z', '2026-11-10T21:05:00.000Z');
+
+const OPTIONS: CalendarOptions = {
+  station: { id: '9413450', name: 'Monterey, CA' },
+  target: TARGET,
+  unit: 'ft',
+  datum: 'MLLW',
+  alarmDays: null,
+  timeZone: 'America/Los_Angeles',
+  generatedAt: new Date('2026-11-01T12:00:00.000Z')
+};
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+const property = (ics: string, name: string) => unfold(ics).split('\r\n').filter(l => l.startsWith(`${name}:`));
+
+describe('buildTideCalendar', () => {
+  it('writes times as UTC stamps in the basic format', () => {
+    const ics = buildTideCalendar([LOW], OPTIONS);
+
+    expect(property(ics, 'DTSTART')).toEqual(['DTSTART:20261110T183000Z']);
+    expect(property(ics, 'DTEND')).toEqual(['DTEND:20261110T210500Z']);
+    expect(property(ics, 'DTSTAMP')).toEqual(['DTSTAMP:20261101T120000Z']);
+  });
+
+  it('gives the station\'s local time in the description', () => {
+    const [description] = property(buildTideCalendar([LOW], OPTIONS), 'DESCRIPTION');
+
+    expect(description).toBe('DESCRIPTION:Low -1.20ft MLLW at 11:42 AM PST\\n2h 35m meeting target (Low below 0ft)\\nNOAA station 9413450');
+  });
+
+  it('escapes commas, semicolons and backslashes in text', () => {
+    const ics = buildTideCalendar([LOW], { ...OPTIONS, station: { id: '9413450', name: 'Monterey; Wharf \\2, CA' } });
+
+    expect(property(ics, 'X-WR-CALNAME')).toEqual(['X-WR-CALNAME:TideWatch · Monterey\\; Wharf \\\\2\\, CA']);
+  });
+
+  it('folds long lines at 75 octets without splitting a character', () => {
+    const name = `Port ${'Très Long '.repeat(12)}Harbor`;
+    const ics = buildTideCalendar([LOW], { ...OPTIONS, station: { id: '9413450', name } });
+    const lines = ics.split('\r\n');
+
+    lines.forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+    expect(lines.filter(l => l.startsWith(' ')).length).toBeGreaterThan(2);
+    // A split surrogate pair wouldn't survive encoding
+    lines.forEach(line => expect(new TextDecoder().decode(new TextEncoder().encode(line))).toBe(line));
+    // Unfolding gives back the whole summary, emoji and accents included
+    expect(property(ics, 'SUMMARY')).toEqual([`SUMMARY:🌊 ${name.replace(/,/g, '\\,')}: Low -1.20ft`]);
+  });
+
+  it('ends every line with CRLF', () => {
+    const ics = buildTideCalendar([LOW], OPTIONS);
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('adds an alarm days ahead, or an hour ahead for the same day', () => {
+    expect(property(buildTideCalendar([LOW], { ...OPTIONS, alarmDays: 2 }), 'TRIGGER')).toEqual(['TRIGGER:-P2D']);
+    expect(property(buildTideCalendar([LOW], { ...OPTIONS, alarmDays: 0 }), 'TRIGGER')).toEqual(['TRIGGER:-PT1H']);
+    expect(property(buildTideCalendar([LOW], OPTIONS), 'TRIGGER')).toEqual([]);
+  });
+});
+
+describe('windowUid', () => {
+  it('stays the same for the same peak when the window or export time changes', () => {
+    const wider = tideWindow('2026-11-10T19:42:00.000Z', '2026-11-10T18:10:00.000Z', '2026-11-10T21:20:00.000Z');
+    const first = property(buildTideCalendar([LOW], OPTIONS), 'UID');
+    const later = property(buildTideCalendar([wider], { ...OPTIONS, target: { ...TARGET, low: 0.5 }, generatedAt: new Date() }), 'UID');
+
+    expect(first).toEqual(['UID:9413450-low-20261110T194200Z@tidewatch']);
+    expect(later).toEqual(first);
+  });
+
+  it('differs between peaks, stations and target modes', () => {
+    const next = tideWindow('2026-11-11T20:21:00.000Z', '2026-11-11T19:00:00.000Z', '2026-11-11T21:40:00.000Z');
+    const uids = [
+      windowUid('9413450', TARGET, LOW),
+      windowUid('9413450', TARGET, next),
+      windowUid('9414290', TARGET, LOW),
+      windowUid('9413450', { ...TARGET, mode: 'high' }, LOW)
+    ];
+
+    expect(new Set(uids).size).toBe(4);
+  });
+});
@@ -0,0 +1,102 @@
+import { Datum, LengthUnit, SavedStation, ThresholdWindow, TideTarget } from '../types';
+import { describeTarget } from './targets';
+import { formatDuration } from './tideAnalysis';
+import { datumLabel, formatHeight } from './units';
+import { formatInZone, zoneAbbreviation } from './timeZones';
+
+export interface CalendarOptions {
+  station: SavedStation;
+  target: TideTarget;
+  unit: LengthUnit;
+  datum: Datum;
+  // Days before each window to remind, null for no alarm
+  alarmDays: number | null;
+  // The station's zone, for the local times written into descriptions
+  timeZone: string;
+  generatedAt?: Date;
+}
+
+// iCalendar wants UTC stamps in the basic format, e.g. 20250314T061200Z
+const utcStamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 caps content lines at 75 octets; longer ones continue on lines starting with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * The UID only depends on the station, the target mode and the predicted
+ * peak, so re-importing after a refresh or a small target tweak updates the
+ * existing events instead of adding copies.
+ */
+export const windowUid = (stationId: string, target: TideTarget, w: ThresholdWindow): string =>
+  `${stationId}-${target.mode}-${utcStamp(w.peak.time)}@tidewatch`;
+
+export const buildTideCalendar = (windows: ThresholdWindow[], options: CalendarOptions): string => {
+  const { station, target, unit, datum, alarmDays, timeZone } = options;
+  const stamp = utcStamp(options.generatedAt ?? new Date());
+  // Calendars only replace an event when the sequence moves forward
+  const sequence = Math.floor((options.generatedAt ?? new Date()).getTime() / 1000);
+
+  const events = windows.flatMap(w => {
+    const peakLabel = w.peak.type === 'L' ? 'Low' : w.peak.type === 'H' ? 'High' : 'Peak';
+    const description = [
+      `${peakLabel} ${formatHeight(w.peak.height, unit)} ${datumLabel(datum)} at ${formatInZone(w.peak.time, timeZone, 'h:mm a')} ${zoneAbbreviation(w.peak.time, timeZone)}`,
+      `${formatDuration(w.durationMinutes)} meeting target (${describeTarget(target, unit)})`,
+      `NOAA station ${station.id}`
+    ].join('\n');
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${windowUid(station.id, target, w)}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART:${utcStamp(w.start)}`,
+      `DTEND:${utcStamp(w.end)}`,
+      `SUMMARY:${escapeText(`🌊 ${station.name}: ${peakLabel} ${formatHeight(w.peak.height, unit)}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'TRANSP:TRANSPARENT'
+    ];
+    if (alarmDays !== null) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(`Tide window at ${station.name}`)}`,
+        // A same-day alarm fires an hour ahead rather than at the start
+        `TRIGGER:-${alarmDays > 0 ? `P${alarmDays}D` : 'PT1H'}`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+    return lines;
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TideWatch//Tide Windows//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`TideWatch · ${station.name}`)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { daySky, moonPhase, tideCycle } from './moon';
+
+// Principal phases of April 2024, from the published lunar phase tables (UTC)
+const PHASES = [
+  ['2024-04-08T18:21:00Z', 0, 'New Moon'],
+  ['2024-04-15T19:13:00Z', 0.25, 'First Quarter'],
+  ['2024-04-23T23:49:00Z', 0.5, 'Full Moon'],
+  ['2024-05-01T11:27:00Z', 0.75, 'Last Quarter']
+] as const;
+
+// The phase runs 0 to 1 over a synodic month, about 0.034 a day
+const PHASE_PER_DAY = 1 / 29.53;
+
+describe('moonPhase', () => {
+  it.each(PHASES)('puts %s at phase %s, named %s', (time, expected, name) => {
+    const moon = moonPhase(new Date(time));
+    const error = Math.abs(((moon.phase - expected + 1.5) % 1) - 0.5);
+
+    expect(error).toBeLessThan(0.25 * PHASE_PER_DAY);
+    expect(moon.name).toBe(name);
+  });
+
+  it('lights the disc fully at full moon and not at all at new moon', () => {
+    expect(moonPhase(new Date('2024-04-23T23:49:00Z')).illumination).toBeGreaterThan(0.99);
+    expect(moonPhase(new Date('2024-04-08T18:21:00Z')).illumination).toBeLessThan(0.01);
+    expect(moonPhase(new Date('2024-04-15T19:13:00Z')).illumination).toBeCloseTo(0.5, 1);
+  });
+
+  it('names the phases in between', () => {
+    expect(moonPhase(new Date('2024-04-12T00:00:00Z')).name).toBe('Waxing Crescent');
+    expect(moonPhase(new Date('2024-04-19T00:00:00Z')).name).toBe('Waxing Gibbous');
+    expect(moonPhase(new Date('2024-04-27T00:00:00Z')).name).toBe('Waning Gibbous');
+    expect(moonPhase(new Date('2024-05-05T00:00:00Z')).name).toBe('Waning Crescent');
+  });
+});
+
+describe('tideCycle', () => {
+  it('has springs the day after new and full moon and neaps the day after the quarters', () => {
+    expect(tideCycle(new Date('2024-04-09T18:00:00Z'))).toBe('spring');
+    expect(tideCycle(new Date('2024-04-24T23:00:00Z'))).toBe('spring');
+    expect(tideCycle(new Date('2024-04-16T19:00:00Z'))).toBe('neap');
+  });
+
+  it('is neither in between', () => {
+    expect(tideCycle(new Date('2024-04-12T12:00:00Z'))).toBeNull();
+  });
+});
+
+describe('daySky', () => {
+  it('returns the sun times on the station clock for a local day', () => {
+    const sky = daySky(new Date(2024, 5, 20), { lat: 37.7749, lng: -122.4194 }, 'America/Los_Angeles');
+
+    // 5:48 am and 8:35 pm on the wall clock
+    expect(sky.sun!.sunrise!.getHours()).toBe(5);
+    expect(sky.sun!.sunset!.getHours()).toBe(20);
+    expect(sky.moon.name).toBe('Waxing Gibbous');
+  });
+});
@@ -0,0 +1,97 @@
+import { DaySky, MoonPhase, SunTimes, TideCycle } from '../types';
+import { DAY_MS, OBLIQUITY, RAD, solarLongitude, sunTimes, toDays } from './sun';
+import { fromZonedTime, toZonedTime } from './timeZones';
+
+const SYNODIC_MONTH = 29.530588853;
+// Tides answer the moon a day or so late, the "age of the tide"
+const TIDE_LAG_DAYS = 1;
+const CYCLE_HALF_WIDTH_DAYS = 2;
+const SUN_DISTANCE_KM = 149598000;
+
+const rightAscension = (l: number, b: number) =>
+  Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY) - Math.tan(b) * Math.sin(OBLIQUITY), Math.cos(l));
+const declination = (l: number, b: number) =>
+  Math.asin(Math.sin(b) * Math.cos(OBLIQUITY) + Math.cos(b) * Math.sin(OBLIQUITY) * Math.sin(l));
+
+// Low-precision geocentric moon position, good to a fraction of a degree
+const moonCoords = (d: number) => {
+  const L = RAD * (218.316 + 13.176396 * d);
+  const M = RAD * (134.963 + 13.064993 * d);
+  const F = RAD * (93.272 + 13.22935 * d);
+  const l = L + RAD * 6.289 * Math.sin(M);
+  const b = RAD * 5.128 * Math.sin(F);
+  return { ra: rightAscension(l, b), dec: declination(l, b), dist: 385001 - 20905 * Math.cos(M) };
+};
+
+const PHASE_NAMES: [number, string][] = [
+  [0.0339, 'New Moon'],
+  [0.2161, 'Waxing Crescent'],
+  [0.2839, 'First Quarter'],
+  [0.4661, 'Waxing Gibbous'],
+  [0.5339, 'Full Moon'],
+  [0.7161, 'Waning Gibbous'],
+  [0.7839, 'Last Quarter'],
+  [0.9661, 'Waning Crescent'],
+  [1, 'New Moon']
+];
+
+export const moonPhase = (date: Date): MoonPhase => {
+  const d = toDays(date);
+  const { lambda } = solarLongitude(d);
+  const sun = { ra: rightAscension(lambda, 0), dec: declination(lambda, 0) };
+  const moon = moonCoords(d);
+
+  const elongation = Math.acos(
+    Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const inc = Math.atan2(SUN_DISTANCE_KM * Math.sin(elongation), moon.dist - SUN_DISTANCE_KM * Math.cos(elongation));
+  const angle = Math.atan2(
+    Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+    Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+
+  const phase = 0.5 + (0.5 * inc * (angle < 0 ? -1 : 1)) / Math.PI;
+  return {
+    phase,
+    illumination: (1 + Math.cos(inc)) / 2,
+    name: PHASE_NAMES.find(([limit]) => phase < limit)?.[1] ?? 'New Moon'
+  };
+};
+
+/**
+ * Spring tides within a couple of days of new and full moon, neaps around
+ * the quarters, both shifted by the usual one-day lag. Days in between are
+ * neither.
+ */
+export const tideCycle = (date: Date): TideCycle | null => {
+  const { phase } = moonPhase(new Date(date.getTime() - TIDE_LAG_DAYS * DAY_MS));
+  // Distance in days from the nearest new or full moon, 0 to a quarter month
+  const fromSyzygy = Math.abs(((phase + 0.25) % 0.5) - 0.25) * SYNODIC_MONTH;
+  if (fromSyzygy <= CYCLE_HALF_WIDTH_DAYS) return 'spring';
+  if (SYNODIC_MONTH / 4 - fromSyzygy <= CYCLE_HALF_WIDTH_DAYS) return 'neap';
+  return null;
+};
+
+const MOON_EMOJI = ['🌑', '🌒', '🌓', '🌔', '🌕', '🌖', '🌗', '🌘'];
+
+export const moonEmoji = (phase: number): string => MOON_EMOJI[Math.round(phase * 8) % 8];
+
+const zonedSun = (sun: SunTimes, timeZone: string): SunTimes => {
+  const zoned = (d: Date | null) => (d ? toZonedTime(d, timeZone) : null);
+  return { ...sun, sunrise: zoned(sun.sunrise), sunset: zoned(sun.sunset), dawn: zoned(sun.dawn), dusk: zoned(sun.dusk), solarNoon: toZonedTime(sun.solarNoon, timeZone) };
+};
+
+/**
+ * Everything the calendar shows about the sky on a day. With `timeZone`,
+ * `date` is a day on that zone's clock and the sun times come back on it too.
+ */
+export const daySky = (date: Date, location?: { lat: number; lng: number }, timeZone?: string): DaySky => {
+  const localNoon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+  const noon = timeZone ? fromZonedTime(localNoon, timeZone) : localNoon;
+  const sun = location ? sunTimes(noon, location.lat, location.lng) : undefined;
+  return {
+    sun: sun && timeZone ? zonedSun(sun, timeZone) : sun,
+    moon: moonPhase(noon),
+    cycle: tideCycle(noon)
+  };
+};
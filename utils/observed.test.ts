@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { computeResiduals, summarizeObservedDay } from './observed';
+import { DailyTideData, TideEvent, TideTarget } from '../types';
+
+const at = (hhmm: string) => new Date(`2026-03-02T${hhmm}:00Z`);
+const sample = (hhmm: string, height: number): TideEvent => ({ time: at(hhmm), height, isPeak: false });
+
+// Predicted rising a foot an hour from 4ft at 06:00
+const PREDICTED = [sample('06:00', 4), sample('07:00', 5), sample('08:00', 6)];
+
+const day = (meetsThreshold: boolean): DailyTideData => ({
+  date: at('00:00'),
+  events: [],
+  curve: PREDICTED,
+  windows: [],
+  maxHeight: 6,
+  minHeight: 4,
+  meetsThreshold
+});
+
+const HIGH: TideTarget = { mode: 'high', high: 6.2, low: 0 };
+
+describe('computeResiduals', () => {
+  it('compares each observation with the prediction interpolated to its instant', () => {
+    const residuals = computeResiduals(PREDICTED, [sample('06:30', 4.9), sample('07:30', 5.2)]);
+
+    expect(residuals).toHaveLength(2);
+    expect(residuals[0]).toMatchObject({ observed: 4.9, predicted: 4.5 });
+    expect(residuals[0].residual).toBeCloseTo(0.4);
+    expect(residuals[1].residual).toBeCloseTo(-0.3);
+  });
+
+  it('skips observations outside the predicted span', () => {
+    expect(computeResiduals(PREDICTED, [sample('05:00', 3), sample('09:00', 7)])).toEqual([]);
+  });
+});
+
+describe('summarizeObservedDay', () => {
+  it('is undefined without observations', () => {
+    expect(summarizeObservedDay(day(false), [], HIGH)).toBeUndefined();
+  });
+
+  it('flags a surge that met the target the prediction missed', () => {
+    const summary = summarizeObservedDay(day(false), [sample('07:00', 5.4), sample('08:00', 6.5)], HIGH)!;
+
+    expect(summary).toMatchObject({ maxHeight: 6.5, minHeight: 5.4, meetsThreshold: true, surpriseHit: true });
+    expect(summary.maxResidual).toBeCloseTo(0.5);
+    expect(summary.minResidual).toBeCloseTo(0.4);
+  });
+
+  it('is no surprise when the prediction already met the target', () => {
+    const summary = summarizeObservedDay(day(true), [sample('08:00', 6.5)], HIGH)!;
+    expect(summary).toMatchObject({ meetsThreshold: true, surpriseHit: false });
+  });
+});
@@ -0,0 +1,35 @@
+import { DailyTideData, ObservedDay, TideEvent, TideTarget } from '../types';
+import { interpolateHeight } from './tideAnalysis';
+import { isWithinTarget } from './targets';
+
+export interface ResidualPoint {
+  time: Date;
+  observed: number;
+  predicted: number;
+  residual: number;
+}
+
+// Pairs each observation with the prediction at the same instant
+export const computeResiduals = (predicted: TideEvent[], observed: TideEvent[]): ResidualPoint[] =>
+  observed.flatMap(o => {
+    const p = interpolateHeight(predicted, o.time);
+    return p === null ? [] : [{ time: o.time, observed: o.height, predicted: p, residual: o.height - p }];
+  });
+
+export const summarizeObservedDay = (day: DailyTideData, observed: TideEvent[], target: TideTarget): ObservedDay | undefined => {
+  if (!observed.length) return undefined;
+
+  const heights = observed.map(o => o.height);
+  const residuals = computeResiduals(day.curve, observed).map(r => r.residual);
+  const meetsThreshold = observed.some(o => isWithinTarget(o.height, target));
+
+  return {
+    curve: observed,
+    maxHeight: Math.max(...heights),
+    minHeight: Math.min(...heights),
+    maxResidual: residuals.length ? Math.max(...residuals) : 0,
+    minResidual: residuals.length ? Math.min(...residuals) : 0,
+    meetsThreshold,
+    surpriseHit: meetsThreshold && !day.meetsThreshold
+  };
+};
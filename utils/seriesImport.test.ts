@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { columnsOf, extractExtremes, guessMapping, isImportedStationId, readRows, SeriesImportError, SeriesPoint, toSeries } from './seriesImport';
+
+const MINUTE_MS = 60000;
+const START = Date.UTC(2026, 6, 1);
+const M2_MINUTES = 745.2;
+
+// Six-minute readings of a 3ft semidiurnal tide over three days, plus whatever `noise` adds
+const tide = (noise: (i: number) => number = () => 0): SeriesPoint[] =>
+  Array.from({ length: 3 * 240 }, (_, i) => ({
+    time: START + i * 6 * MINUTE_MS,
+    height: 3 * Math.sin((2 * Math.PI * i * 6) / M2_MINUTES) + noise(i)
+  }));
+
+const CSV = `# Exported from the dock logger
+"Date Time";"Level (m)"
+2026-07-01 00:00;0,512
+2026-07-01 00:06;0,530
+2026-07-01 00:12;
+2026-07-01 00:18;0,561
+2026-07-01 00:24;0,575
+2026-07-01 00:30;0,590
+2026-07-01 00:36;0,603
+2026-07-01 00:42;0,614
+2026-07-01 00:48;0,624
+2026-07-01 00:54;0,631
+2026-07-01 01:00;0,637
+`;
+
+describe('readRows', () => {
+  it('reads a semicolon CSV with quoted headers, skipping comments', () => {
+    const rows = readRows(CSV, 'dock.csv');
+
+    expect(columnsOf(rows)).toEqual(['Date Time', 'Level (m)']);
+    expect(rows).toHaveLength(11);
+    expect(rows[0]).toEqual({ 'Date Time': '2026-07-01 00:00', 'Level (m)': '0,512' });
+  });
+
+  it('finds the readings in a NOAA-style JSON answer', () => {
+    const rows = readRows(JSON.stringify({ metadata: { id: '9413450' }, data: [{ t: '2026-07-01 00:00', v: '1.2' }] }), 'export.json');
+
+    expect(rows).toEqual([{ t: '2026-07-01 00:00', v: '1.2' }]);
+    expect(guessMapping(columnsOf(rows))).toEqual({ time: 't', height: 'v' });
+  });
+
+  it('rejects JSON without a list of readings', () => {
+    expect(() => readRows('{"station": "9413450"}', 'x.json')).toThrow(SeriesImportError);
+  });
+});
+
+describe('toSeries', () => {
+  const rows = readRows(CSV, 'dock.csv');
+  const format = { mapping: guessMapping(columnsOf(rows)), unit: 'm' as const, timeZone: 'America/Los_Angeles' };
+
+  it('reads wall-clock times in the given zone and converts heights to feet', () => {
+    const points = toSeries(rows, format);
+
+    expect(format.mapping).toEqual({ time: 'Date Time', height: 'Level (m)' });
+    expect(points).toHaveLength(10); // the blank reading is skipped
+    expect(new Date(points[0].time).toISOString()).toBe('2026-07-01T07:00:00.000Z');
+    expect(points[0].height).toBeCloseTo(0.512 / 0.3048, 6);
+  });
+
+  it('sorts readings and drops repeated times', () => {
+    const shuffled = Array.from({ length: 12 }, (_, i) => ({ t: String(1782864000 + ((i * 5) % 12) * 360), v: String(i) }));
+    const points = toSeries([...shuffled, shuffled[0]], { mapping: { time: 't', height: 'v' }, unit: 'ft', timeZone: 'UTC' });
+
+    expect(points).toHaveLength(12);
+    points.slice(1).forEach((p, i) => expect(p.time).toBeGreaterThan(points[i].time));
+  });
+
+  it('rejects a mapping that leaves most rows unreadable', () => {
+    expect(() => toSeries(rows, { ...format, mapping: { time: 'Date Time', height: 'Date Time' } })).toThrow(/Only 0 of 11 rows/);
+  });
+});
+
+describe('extractExtremes', () => {
+  it('finds alternating highs and lows at the tide\'s turns', () => {
+    const extremes = extractExtremes(tide());
+
+    // Three days of a 12.42-hour tide turn eleven or twelve times
+    expect(extremes.length).toBeGreaterThanOrEqual(11);
+    extremes.slice(1).forEach((e, i) => expect(e.type).not.toBe(extremes[i].type));
+    extremes.forEach(e => {
+      // Highs and lows fall at odd quarters of the cycle
+      const quarter = ((e.time - START) / MINUTE_MS / M2_MINUTES) * 4;
+      expect(Math.round(quarter) % 2).toBe(1);
+      expect(Math.abs(quarter - Math.round(quarter))).toBeLessThan(0.05);
+    });
+  });
+
+  it('reports the heights as read, not as smoothed', () => {
+    const extremes = extractExtremes(tide());
+
+    extremes.forEach(e => expect(Math.abs(e.height)).toBeCloseTo(3, 2));
+  });
+
+  it('reports the highest reading near a noisy high, and ignores chop as a turn', () => {
+    const points = tide(i => 0.08 * Math.sin(i * 2.1));
+    const extremes = extractExtremes(points);
+    const window = 30 * MINUTE_MS;
+
+    expect(extremes.length).toBeLessThanOrEqual(12);
+    extremes.forEach(e => {
+      const near = points.filter(p => Math.abs(p.time - e.time) <= window).map(p => p.height);
+      expect(e.height).toBe(e.type === 'H' ? Math.max(...near) : Math.min(...near));
+      expect(points.some(p => p.time === e.time && p.height === e.height)).toBe(true);
+    });
+  });
+});
+
+describe('isImportedStationId', () => {
+  it('tells imported stations from NOAA ones', () => {
+    expect(isImportedStationId('import-mrz1k2')).toBe(true);
+    expect(isImportedStationId('9413450')).toBe(false);
+  });
+});
@@ -0,0 +1,225 @@
+import { LengthUnit } from '../types';
+import { fromZonedTime } from './timeZones';
+import { fromUnit } from './units';
+
+/**
+ * Turns a user's own water-level time series, from a CSV or JSON export of a
+ * logger or a foreign agency, into points the app can treat like NOAA
+ * predictions. Highs and lows are found here since the files rarely say.
+ */
+
+export const IMPORTED_PREFIX = 'import-';
+export const isImportedStationId = (id: string): boolean => /^import-[a-z0-9]+$/.test(id);
+
+export class SeriesImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeriesImportError';
+  }
+}
+
+export interface ColumnMapping {
+  time: string; // CSV header or JSON key
+  height: string;
+}
+
+export interface SeriesFormat {
+  mapping: ColumnMapping;
+  unit: LengthUnit;
+  // The zone times without an offset are on
+  timeZone: string;
+}
+
+export interface SeriesPoint {
+  time: number; // epoch ms
+  height: number; // feet
+}
+
+export interface SeriesExtreme extends SeriesPoint {
+  type: 'H' | 'L';
+}
+
+type Row = Record<string, unknown>;
+
+// Splits one CSV line, honouring double-quoted cells
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseCsv = (text: string): Row[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() && !l.startsWith('#'));
+  if (lines.length < 2) throw new SeriesImportError('The CSV needs a header row and at least one row of data.');
+  // Semicolons are common where the decimal separator is a comma
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (lines[0].split(d).length > lines[0].split(best).length ? d : best), ',');
+  const header = splitCsvLine(lines[0], delimiter);
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, delimiter);
+    return Object.fromEntries(header.map((h, i) => [h, cells[i]]));
+  });
+};
+
+const parseJson = (text: string): Row[] => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new SeriesImportError('That file is not valid JSON.');
+  }
+  // A bare array, or the first array-valued property, such as NOAA's `predictions` or `data`
+  const rows = Array.isArray(doc)
+    ? doc
+    : Object.values((doc ?? {}) as Record<string, unknown>).find(Array.isArray);
+  if (!rows || !rows.length || typeof rows[0] !== 'object') throw new SeriesImportError('No list of readings was found in the JSON.');
+  return rows as Row[];
+};
+
+export const readRows = (text: string, fileName: string): Row[] =>
+  /\.json$/i.test(fileName) || /^\s*[[{]/.test(text) ? parseJson(text) : parseCsv(text);
+
+export const columnsOf = (rows: Row[]): string[] => Object.keys(rows[0] ?? {});
+
+// Best guesses for the mapping form
+export const guessMapping = (columns: string[]): ColumnMapping => ({
+  time: columns.find(c => /^(t|time|date|datetime|timestamp)$/i.test(c)) ?? columns.find(c => /time|date/i.test(c)) ?? columns[0] ?? '',
+  height: columns.find(c => /^(v|value|height|level|water_?level)$/i.test(c)) ?? columns.find(c => /height|level|value|depth/i.test(c)) ?? columns[1] ?? ''
+});
+
+const WALL_CLOCK = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+const parseTime = (value: unknown, timeZone: string): number | null => {
+  if (typeof value === 'number') return value > 1e11 ? value : value * 1000; // epoch ms or seconds
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return parseTime(parseFloat(text), timeZone);
+  const wall = WALL_CLOCK.exec(text);
+  if (wall) {
+    const [, y, mo, d, h, mi, s] = wall.map(Number);
+    return fromZonedTime(new Date(y, mo - 1, d, h, mi, s || 0), timeZone).getTime();
+  }
+  // Anything else has to carry its own offset, like ISO 8601 with Z or +hh:mm
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const parseHeight = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const parsed = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Points sorted by time with heights in feet. Rows with a blank or
+ * unreadable value are skipped, as loggers leave gaps; a file where most rows
+ * can't be read is rejected, since the mapping is probably wrong.
+ */
+export const toSeries = (rows: Row[], format: SeriesFormat): SeriesPoint[] => {
+  const { mapping, unit, timeZone } = format;
+  const points: SeriesPoint[] = [];
+  rows.forEach(row => {
+    const time = parseTime(row[mapping.time], timeZone);
+    const height = parseHeight(row[mapping.height]);
+    if (time !== null && height !== null) points.push({ time, height: fromUnit(height, unit) });
+  });
+  if (points.length < rows.length / 2) {
+    throw new SeriesImportError(`Only ${points.length} of ${rows.length} rows had a readable time and height. Check the column mapping.`);
+  }
+  if (points.length < 10) throw new SeriesImportError('The file needs at least 10 readings.');
+  points.sort((a, b) => a.time - b.time);
+  return points.filter((p, i) => i === 0 || p.time !== points[i - 1].time);
+};
+
+// Turns closer together or smaller than this are noise, not tides
+const MIN_TURN_MS = 2 * 60 * 60 * 1000;
+const MIN_TURN_FEET = 0.15;
+const SMOOTHING_MS = 30 * 60 * 1000;
+
+// Index of the first point at or after `time`
+const firstAtOrAfter = (points: SeriesPoint[], time: number): number => {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].time < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Highs and lows of a series. The series is smoothed over half an hour
+ * either side first, so sensor noise and wave chop don't register as turns,
+ * then turns that are too close together or too small are dropped in pairs
+ * until highs and lows alternate. Each turn is reported as the highest or
+ * lowest reading within that half hour of it, since smoothing flattens peaks.
+ */
+export const extractExtremes = (points: SeriesPoint[]): SeriesExtreme[] => {
+  let lo = 0;
+  let hi = 0;
+  let sum = 0;
+  const smoothed = points.map(p => {
+    while (hi < points.length && points[hi].time <= p.time + SMOOTHING_MS) sum += points[hi++].height;
+    while (points[lo].time < p.time - SMOOTHING_MS) sum -= points[lo++].height;
+    return { time: p.time, height: sum / (hi - lo) };
+  });
+
+  let turns: SeriesExtreme[] = [];
+  for (let i = 1; i < smoothed.length - 1; i++) {
+    const [prev, cur, next] = [smoothed[i - 1], smoothed[i], smoothed[i + 1]];
+    if (cur.height > prev.height && cur.height >= next.height) turns.push({ ...cur, type: 'H' });
+    else if (cur.height < prev.height && cur.height <= next.height) turns.push({ ...cur, type: 'L' });
+  }
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    const merged: SeriesExtreme[] = [];
+    for (const t of turns) {
+      const last = merged[merged.length - 1];
+      if (last && last.type === t.type) {
+        // Two highs in a row: keep the higher, and likewise for lows
+        if (t.type === 'H' ? t.height > last.height : t.height < last.height) merged[merged.length - 1] = t;
+        changed = true;
+      } else if (last && (t.time - last.time < MIN_TURN_MS || Math.abs(t.height - last.height) < MIN_TURN_FEET)) {
+        merged.pop();
+        changed = true;
+      } else {
+        merged.push(t);
+      }
+    }
+    turns = merged;
+  }
+
+  return turns.map(turn => {
+    // The turn sits on a reading, so the window always holds at least that one
+    const first = firstAtOrAfter(points, turn.time - SMOOTHING_MS);
+    let best = points[first];
+    for (let i = first + 1; i < points.length && points[i].time <= turn.time + SMOOTHING_MS; i++) {
+      if (turn.type === 'H' ? points[i].height > best.height : points[i].height < best.height) best = points[i];
+    }
+    return { time: best.time, height: best.height, type: turn.type };
+  });
+};
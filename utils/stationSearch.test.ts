@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { NOAAStation } from '../types';
+import { formatCoordinates, isAmbiguous, nearestStations, parseCoordinates, searchStations } from './stationSearch';
+
+const CATALOG: NOAAStation[] = [
+  { id: '9410170', name: 'San Diego', state: 'CA', lat: 32.7142, lng: -117.1736 },
+  { id: '9413450', name: 'Monterey', state: 'CA', lat: 36.6089, lng: -121.8914 },
+  { id: '9414290', name: 'San Francisco', state: 'CA', lat: 37.8063, lng: -122.4659 },
+  { id: '9414750', name: 'Alameda', state: 'CA', lat: 37.7717, lng: -122.3 },
+  { id: '8518750', name: 'The Battery', state: 'NY', lat: 40.7006, lng: -74.0142 },
+  { id: '8443970', name: 'Boston', state: 'MA', lat: 42.3539, lng: -71.0503 }
+];
+
+const ids = (query: string) => searchStations(query, CATALOG).map(m => m.station.id);
+
+describe('searchStations', () => {
+  it('puts an exact station ID first and alone', () => {
+    expect(searchStations(' 9414290 ', CATALOG)).toEqual([{ station: CATALOG[2], score: 100 }]);
+  });
+
+  it('matches whole words, prefixes and small typos in names', () => {
+    expect(ids('monterey')).toEqual(['9413450']);
+    expect(ids('fran')).toEqual(['9414290']);
+    expect(ids('Montery')).toEqual(['9413450']);
+    expect(ids('Bostn')).toEqual(['8443970']);
+  });
+
+  it('needs every word to match', () => {
+    expect(ids('san')).toEqual(['9410170', '9414290']);
+    expect(ids('san diego')).toEqual(['9410170']);
+    expect(ids('san boston')).toEqual([]);
+  });
+
+  it('narrows by state code or name without outranking a name match', () => {
+    expect(ids('battery ny')).toEqual(['8518750']);
+    expect(ids('massachusetts')).toEqual(['8443970']);
+    expect(ids('california alameda')).toEqual(['9414750']);
+  });
+
+  it('finds nothing for an empty query or short gibberish', () => {
+    expect(ids('  ')).toEqual([]);
+    expect(ids('xq')).toEqual([]);
+  });
+
+  it('calls a tie ambiguous and a clear winner not', () => {
+    expect(isAmbiguous(searchStations('san', CATALOG))).toBe(true);
+    expect(isAmbiguous(searchStations('san diego', CATALOG))).toBe(false);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads signed decimal degrees split by a comma or a space', () => {
+    expect(parseCoordinates('37.8, -122.46')).toEqual({ lat: 37.8, lng: -122.46 });
+    expect(parseCoordinates('-33.86 151.21')).toEqual({ lat: -33.86, lng: 151.21 });
+  });
+
+  it('reads hemisphere letters in place of signs', () => {
+    expect(parseCoordinates('37.8063° N, 122.4659° W')).toEqual({ lat: 37.8063, lng: -122.4659 });
+    expect(parseCoordinates('33.86s 151.21e')).toEqual({ lat: -33.86, lng: 151.21 });
+  });
+
+  it('reads back what formatCoordinates writes', () => {
+    const point = { lat: -12.4634, lng: 130.8456 };
+    expect(parseCoordinates(formatCoordinates(point))).toEqual(point);
+  });
+
+  it.each([
+    ['a name', 'Monterey'],
+    ['a single number', '37.8'],
+    ['a latitude past the pole', '91, 0'],
+    ['a longitude past the antimeridian', '0, -180.5'],
+    ['hemispheres on the wrong axis', '122.46 W, 37.8 N'],
+    ['a sign and a hemisphere together', '-37.8 S, 122.46 W']
+  ])('rejects %s', (_, query) => {
+    expect(parseCoordinates(query)).toBeNull();
+  });
+});
+
+describe('nearestStations', () => {
+  it('orders stations by great-circle distance', () => {
+    const nearby = nearestStations({ lat: 37.8, lng: -122.4 }, CATALOG, 3);
+
+    expect(nearby.map(n => n.station.id)).toEqual(['9414290', '9414750', '9413450']);
+    expect(nearby[0].distanceKm).toBeCloseTo(5.9, 0);
+    expect(nearby[2].distanceKm).toBeCloseTo(137, -1);
+  });
+
+  it('returns the whole catalog when it holds fewer than asked for', () => {
+    expect(nearestStations({ lat: 40.7, lng: -74 }, CATALOG, 10)).toHaveLength(CATALOG.length);
+  });
+});
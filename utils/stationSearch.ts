@@ -0,0 +1,115 @@
+import { NOAAStation } from '../types';
+import { STATE_NAMES } from '../data/stationCatalog';
+
+export interface StationMatch {
+  station: NOAAStation;
+  score: number;
+}
+
+export interface NearbyStation {
+  station: NOAAStation;
+  distanceKm: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z0-9]+/).filter(Boolean);
+
+const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// How well one query word fits one station word, 0 when it doesn't
+const tokenScore = (query: string, word: string): number => {
+  if (word === query) return 3;
+  if (word.startsWith(query)) return 2;
+  // Allow a typo in longer words, two in long ones
+  const allowed = query.length >= 7 ? 2 : query.length >= 4 ? 1 : 0;
+  if (allowed && Math.min(editDistance(query, word), editDistance(query, word.slice(0, query.length))) <= allowed) return 1;
+  return 0;
+};
+
+/**
+ * Deterministic name, state and ID search. Every query word has to match
+ * something about the station; better matches score higher. An exact
+ * station ID always wins.
+ */
+export const searchStations = (query: string, catalog: NOAAStation[], limit = 8): StationMatch[] => {
+  const trimmed = query.trim();
+  const exact = catalog.find(s => s.id === trimmed);
+  if (exact) return [{ station: exact, score: 100 }];
+
+  const words = tokenize(trimmed);
+  if (!words.length) return [];
+
+  return catalog
+    .map(station => {
+      const nameWords = [...tokenize(station.name), station.id];
+      const stateWords = [station.state.toLowerCase(), ...tokenize(STATE_NAMES[station.state] ?? '')];
+      let score = 0;
+      for (const word of words) {
+        // The state narrows a search down but shouldn't outrank a name match
+        const best = Math.max(...nameWords.map(h => tokenScore(word, h)), ...stateWords.map(h => Math.min(tokenScore(word, h), 2)));
+        if (!best) return null;
+        score += best;
+      }
+      return { station, score };
+    })
+    .filter((m): m is StationMatch => m !== null)
+    .sort((a, b) => b.score - a.score || a.station.name.localeCompare(b.station.name))
+    .slice(0, limit);
+};
+
+// A single clear winner can be picked without asking
+export const isAmbiguous = (matches: StationMatch[]): boolean =>
+  matches.length > 1 && matches[0].score === matches[1].score;
+
+// A signed number, or an unsigned one followed by its hemisphere
+const COORDINATE = String.raw`(-?\d+(?:\.\d+)?)\s*°?\s*([NSEW])?`;
+const COORDINATE_PAIR = new RegExp(`^${COORDINATE}\\s*[, ]\\s*${COORDINATE}$`, 'i');
+
+const signed = (value: string, hemisphere: string | undefined, axis: RegExp): number | null => {
+  if (!hemisphere) return parseFloat(value);
+  if (!axis.test(hemisphere) || value.startsWith('-')) return null;
+  return /[SW]/i.test(hemisphere) ? -parseFloat(value) : parseFloat(value);
+};
+
+// "37.8, -122.46", "37.8063° N, 122.4659° W" and similar
+export const parseCoordinates = (query: string): { lat: number; lng: number } | null => {
+  const match = query.trim().match(COORDINATE_PAIR);
+  if (!match) return null;
+  const lat = signed(match[1], match[2], /[NS]/i);
+  const lng = signed(match[3], match[4], /[EW]/i);
+  return lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+};
+
+// "37.8063° N, 122.4659° W"
+export const formatCoordinates = ({ lat, lng }: { lat: number; lng: number }): string =>
+  `${Math.abs(lat).toFixed(4)}° ${lat >= 0 ? 'N' : 'S'}, ${Math.abs(lng).toFixed(4)}° ${lng >= 0 ? 'E' : 'W'}`;
+
+// Great-circle distance by the haversine formula
+export const distanceKm = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const nearestStations = (point: { lat: number; lng: number }, catalog: NOAAStation[], count = 5): NearbyStation[] =>
+  catalog
+    .map(station => ({ station, distanceKm: distanceKm(point, station) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, count);
+
+export const stationLabel = (station: NOAAStation): string =>
+  station.state ? `${station.name}, ${station.state}` : station.name;
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { TideEvent, TideOffsets } from '../types';
+import { applyOffsets, cosineCurve, describeOffset, toPredictionRows } from './subordinate';
+
+const at = (iso: string) => new Date(`${iso}:00Z`);
+const event = (iso: string, height: number, type?: 'H' | 'L'): TideEvent => ({ time: at(iso), height, isPeak: !!type, type });
+
+const REFERENCE: TideEvent[] = [
+  event('2026-11-10T06:00', 5, 'H'),
+  event('2026-11-10T12:10', -0.5, 'L'),
+  event('2026-11-10T18:20', 4, 'H'),
+  event('2026-11-11T00:40', 1, 'L')
+];
+
+const offsets = (fields: Partial<TideOffsets>): TideOffsets => ({
+  referenceId: '9414290',
+  highMinutes: 0,
+  lowMinutes: 0,
+  highHeight: 1,
+  lowHeight: 1,
+  heightType: 'ratio',
+  ...fields
+});
+
+const summary = (events: TideEvent[]) => events.map(e => [e.time.toISOString().slice(11, 16), +e.height.toFixed(3), e.type]);
+
+describe('applyOffsets', () => {
+  it('shifts highs and lows by their own time offsets', () => {
+    const shifted = applyOffsets(REFERENCE, offsets({ highMinutes: 25, lowMinutes: -40 }));
+
+    expect(summary(shifted)).toEqual([['06:25', 5, 'H'], ['11:30', -0.5, 'L'], ['18:45', 4, 'H'], ['00:00', 1, 'L']]);
+  });
+
+  it('scales heights by a ratio', () => {
+    const scaled = applyOffsets(REFERENCE, offsets({ highHeight: 0.9, lowHeight: 1.2 }));
+
+    expect(scaled.map(e => +e.height.toFixed(3))).toEqual([4.5, -0.6, 3.6, 1.2]);
+  });
+
+  it('raises heights by a fixed offset', () => {
+    const raised = applyOffsets(REFERENCE, offsets({ heightType: 'fixed', highHeight: 0.3, lowHeight: -0.2 }));
+
+    expect(raised.map(e => +e.height.toFixed(3))).toEqual([5.3, -0.7, 4.3, 0.8]);
+  });
+
+  it('keeps the result in time order when the offsets swap a close pair', () => {
+    const close = [event('2026-11-10T06:00', 5, 'H'), event('2026-11-10T06:30', 4.8, 'L')];
+    const swapped = applyOffsets(close, offsets({ highMinutes: 45 }));
+
+    expect(summary(swapped)).toEqual([['06:30', 4.8, 'L'], ['06:45', 5, 'H']]);
+  });
+
+  it('ignores interval rows, which have no type', () => {
+    expect(applyOffsets([...REFERENCE, event('2026-11-10T09:00', 2)], offsets({}))).toHaveLength(REFERENCE.length);
+  });
+});
+
+describe('cosineCurve', () => {
+  const curve = cosineCurve(REFERENCE, at('2026-11-10T06:00'), at('2026-11-11T00:40'), 5);
+
+  it('passes exactly through every high and low', () => {
+    REFERENCE.forEach(e => {
+      expect(curve.find(p => p.time.getTime() === e.time.getTime())?.height).toBe(e.height);
+    });
+  });
+
+  it('crosses the midpoint halfway between a high and a low', () => {
+    expect(curve.find(p => p.time.getTime() === at('2026-11-10T09:05').getTime())?.height).toBeCloseTo(2.25, 10);
+  });
+
+  it('stays between the extremes it joins', () => {
+    curve.forEach(p => {
+      expect(p.height).toBeLessThanOrEqual(5);
+      expect(p.height).toBeGreaterThanOrEqual(-0.5);
+    });
+  });
+
+  it('leaves out times before the first extreme and after the last', () => {
+    const wide = cosineCurve(REFERENCE, at('2026-11-10T05:00'), at('2026-11-11T02:00'), 10);
+
+    expect(wide[0].time).toEqual(at('2026-11-10T06:00'));
+    expect(wide[wide.length - 1].time).toEqual(at('2026-11-11T00:40'));
+  });
+});
+
+describe('toPredictionRows', () => {
+  it('writes GMT stamps and keeps the type only where there is one', () => {
+    expect(toPredictionRows([REFERENCE[0], event('2026-11-10T09:05', 2.25)])).toEqual([
+      { t: '2026-11-10 06:00', v: '5.000', type: 'H' },
+      { t: '2026-11-10 09:05', v: '2.250' }
+    ]);
+  });
+});
+
+describe('describeOffset', () => {
+  it('shows signed minutes with a ratio or a fixed height', () => {
+    expect(describeOffset(offsets({ highMinutes: 12, highHeight: 1.02 }), 'H', 'ft')).toBe('+12 min, ×1.02');
+    expect(describeOffset(offsets({ lowMinutes: -5, lowHeight: 0.3, heightType: 'fixed' }), 'L', 'ft')).toBe('−5 min, +0.30ft');
+  });
+});
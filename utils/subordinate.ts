@@ -0,0 +1,63 @@
+import { LengthUnit, TideEvent, TideOffsets, TidePrediction } from '../types';
+import { formatNoaaTime } from './tideAnalysis';
+import { formatHeight } from './units';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A subordinate station's highs and lows from its reference station's, as
+ * NOAA derives them: each high or low is shifted by its time offset and its
+ * height scaled by the ratio or raised by the fixed offset.
+ */
+export const applyOffsets = (reference: TideEvent[], offsets: TideOffsets): TideEvent[] =>
+  reference
+    .filter(e => e.type === 'H' || e.type === 'L')
+    .map(e => {
+      const high = e.type === 'H';
+      const minutes = high ? offsets.highMinutes : offsets.lowMinutes;
+      const adjust = high ? offsets.highHeight : offsets.lowHeight;
+      return {
+        ...e,
+        time: new Date(e.time.getTime() + minutes * MINUTE_MS),
+        height: offsets.heightType === 'ratio' ? e.height * adjust : e.height + adjust
+      };
+    })
+    // Different high and low offsets can, rarely, swap a close pair
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+/**
+ * Water level between highs and lows by cosine interpolation, the usual
+ * stand-in for a subordinate station that has no harmonic constants of its
+ * own. Only covers the span between the first and last extreme.
+ */
+export const cosineCurve = (extremes: TideEvent[], begin: Date, end: Date, stepMinutes = 6): TideEvent[] => {
+  const out: TideEvent[] = [];
+  let i = 0;
+  for (let ms = begin.getTime(); ms <= end.getTime(); ms += stepMinutes * MINUTE_MS) {
+    while (i < extremes.length - 2 && extremes[i + 1].time.getTime() < ms) i++;
+    const [a, b] = [extremes[i], extremes[i + 1]];
+    if (!b || ms < a.time.getTime() || ms > b.time.getTime()) continue;
+    const phase = (ms - a.time.getTime()) / (b.time.getTime() - a.time.getTime());
+    out.push({ time: new Date(ms), height: (a.height + b.height) / 2 + ((a.height - b.height) / 2) * Math.cos(Math.PI * phase), isPeak: false });
+  }
+  return out;
+};
+
+export const toPredictionRows = (events: TideEvent[]): TidePrediction[] =>
+  events.map(e => ({
+    t: formatNoaaTime(e.time),
+    v: e.height.toFixed(3),
+    ...(e.type ? { type: e.type } : {})
+  }));
+
+const signedMinutes = (minutes: number): string => `${minutes >= 0 ? '+' : '−'}${Math.abs(minutes)} min`;
+
+// e.g. "+12 min, ×1.02" or "−5 min, +0.30ft"
+export const describeOffset = (offsets: TideOffsets, type: 'H' | 'L', unit: LengthUnit): string => {
+  const minutes = type === 'H' ? offsets.highMinutes : offsets.lowMinutes;
+  const height = type === 'H' ? offsets.highHeight : offsets.lowHeight;
+  const heightText = offsets.heightType === 'ratio'
+    ? `×${height.toFixed(2)}`
+    : `${height >= 0 ? '+' : '−'}${formatHeight(Math.abs(height), unit)}`;
+  return `${signedMinutes(minutes)}, ${heightText}`;
+};
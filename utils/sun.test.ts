@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { overlapsDaylight, sunTimes } from './sun';
+
+const MINUTE_MS = 60000;
+const SAN_FRANCISCO = { lat: 37.7749, lng: -122.4194 };
+const NEW_YORK = { lat: 40.7128, lng: -74.006 };
+const TROMSO = { lat: 69.65, lng: 18.96 };
+
+// Published almanac times are rounded to the minute; the formulas here are good to a minute or two
+const expectNear = (actual: Date | null, expected: string, minutes = 3) => {
+  expect(actual).not.toBeNull();
+  expect(Math.abs(actual!.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(minutes * MINUTE_MS);
+};
+
+describe('sunTimes', () => {
+  it('matches the almanac for San Francisco at the June solstice', () => {
+    // 5:48 am and 8:35 pm PDT
+    const sun = sunTimes(new Date('2024-06-20T19:00:00Z'), SAN_FRANCISCO.lat, SAN_FRANCISCO.lng);
+    expectNear(sun.sunrise, '2024-06-20T12:48:00Z');
+    expectNear(sun.sunset, '2024-06-21T03:35:00Z');
+    expect(sun.dawn! < sun.sunrise!).toBe(true);
+    expect(sun.dusk! > sun.sunset!).toBe(true);
+  });
+
+  it('matches the almanac for New York at the December solstice', () => {
+    // 7:16 am and 4:32 pm EST
+    const sun = sunTimes(new Date('2024-12-21T17:00:00Z'), NEW_YORK.lat, NEW_YORK.lng);
+    expectNear(sun.sunrise, '2024-12-21T12:16:00Z');
+    expectNear(sun.sunset, '2024-12-21T21:32:00Z');
+  });
+
+  it('reports midnight sun and polar night above the Arctic Circle', () => {
+    expect(sunTimes(new Date('2024-06-21T12:00:00Z'), TROMSO.lat, TROMSO.lng)).toMatchObject({ sunrise: null, sunset: null, polar: 'day' });
+    const winter = sunTimes(new Date('2024-12-21T12:00:00Z'), TROMSO.lat, TROMSO.lng);
+    expect(winter).toMatchObject({ sunrise: null, sunset: null, polar: 'night' });
+    // Civil twilight still comes around midday
+    expect(winter.dawn).not.toBeNull();
+  });
+});
+
+describe('overlapsDaylight', () => {
+  it('tells a midday window from one in the middle of the night', () => {
+    const { lat, lng } = SAN_FRANCISCO;
+    expect(overlapsDaylight(new Date('2024-06-20T19:00:00Z'), new Date('2024-06-20T21:00:00Z'), lat, lng)).toBe(true);
+    expect(overlapsDaylight(new Date('2024-06-21T07:00:00Z'), new Date('2024-06-21T09:00:00Z'), lat, lng)).toBe(false);
+  });
+
+  it('counts a window that straddles sunrise', () => {
+    const { lat, lng } = SAN_FRANCISCO;
+    expect(overlapsDaylight(new Date('2024-06-20T12:00:00Z'), new Date('2024-06-20T13:00:00Z'), lat, lng)).toBe(true);
+  });
+
+  it('is all day under the midnight sun and never in polar night', () => {
+    const { lat, lng } = TROMSO;
+    expect(overlapsDaylight(new Date('2024-06-21T23:00:00Z'), new Date('2024-06-22T00:00:00Z'), lat, lng)).toBe(true);
+    expect(overlapsDaylight(new Date('2024-12-21T10:00:00Z'), new Date('2024-12-21T11:00:00Z'), lat, lng)).toBe(false);
+  });
+});
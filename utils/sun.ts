@@ -0,0 +1,61 @@
+import { SunTimes } from '../types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440587.5;
+const J2000 = 2451545;
+const J0 = 0.0009;
+export const RAD = Math.PI / 180;
+export const OBLIQUITY = 23.4397 * RAD;
+// Sun's upper limb on the horizon, with standard refraction
+const HORIZON = -0.833 * RAD;
+// Centre of the sun six degrees down, the end of civil twilight
+const CIVIL_TWILIGHT = -6 * RAD;
+
+// Days since J2000, the epoch the low-precision formulas here are expressed in
+export const toDays = (date: Date): number => date.getTime() / DAY_MS + J1970 - J2000;
+const fromJulian = (j: number): Date => new Date((j - J1970) * DAY_MS);
+
+// Sun's mean anomaly and ecliptic longitude, `d` days after J2000
+export const solarLongitude = (d: number): { M: number; lambda: number } => {
+  const M = RAD * (357.5291 + 0.98560028 * d);
+  const C = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M));
+  return { M, lambda: M + C + RAD * 102.9372 + Math.PI };
+};
+
+/**
+ * Sunrise, sunset and civil twilight around the solar noon nearest `date`,
+ * following the standard sunrise equation. Accurate to a minute or two,
+ * which is plenty for deciding whether a tide happens in daylight.
+ */
+export const sunTimes = (date: Date, lat: number, lng: number): SunTimes => {
+  const lw = -lng * RAD;
+  const phi = lat * RAD;
+  const n = Math.round(toDays(date) - J0 - lw / (2 * Math.PI));
+  const approxTransit = J0 + lw / (2 * Math.PI) + n;
+
+  const { M, lambda } = solarLongitude(approxTransit);
+  const transit = J2000 + approxTransit + 0.0053 * Math.sin(M) - 0.0069 * Math.sin(2 * lambda);
+  const declination = Math.asin(Math.sin(lambda) * Math.sin(OBLIQUITY));
+
+  // Half the time the sun spends above `altitude`, as a fraction of a day; NaN when it never crosses
+  const halfArc = (altitude: number) =>
+    Math.acos((Math.sin(altitude) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination))) / (2 * Math.PI);
+  const around = (half: number) => (Number.isNaN(half) ? [null, null] : [fromJulian(transit - half), fromJulian(transit + half)]);
+
+  const [sunrise, sunset] = around(halfArc(HORIZON));
+  const [dawn, dusk] = around(halfArc(CIVIL_TWILIGHT));
+  const times: SunTimes = { sunrise, sunset, dawn, dusk, solarNoon: fromJulian(transit) };
+  if (!sunrise) times.polar = declination * phi > 0 ? 'day' : 'night';
+  return times;
+};
+
+// Whether any part of [start, end] falls between sunrise and sunset
+export const overlapsDaylight = (start: Date, end: Date, lat: number, lng: number): boolean => {
+  const mid = new Date((start.getTime() + end.getTime()) / 2);
+  // A long window can touch two days, so check the solar days either side too
+  return [-1, 0, 1].some(offset => {
+    const sun = sunTimes(new Date(mid.getTime() + offset * DAY_MS), lat, lng);
+    if (sun.polar) return sun.polar === 'day' && Math.abs(mid.getTime() - sun.solarNoon.getTime()) <= DAY_MS / 2;
+    return start < sun.sunset! && end > sun.sunrise!;
+  });
+};
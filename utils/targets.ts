@@ -0,0 +1,71 @@
+import { DailyTideData, LengthUnit, SavedStation, TideEvent, TideTarget } from '../types';
+import { roundedHeight } from './units';
+
+export const DEFAULT_TARGET: TideTarget = { mode: 'high', high: 6.0, low: -1.0 };
+
+export const isWithinTarget = (height: number, target: TideTarget): boolean => {
+  switch (target.mode) {
+    case 'high':
+      return height >= target.high;
+    case 'low':
+      return height <= target.low;
+    case 'range':
+      return height >= target.low && height <= target.high;
+  }
+};
+
+// High/low extremes only count toward the target in the direction it cares about
+export const eventMeetsTarget = (event: TideEvent, target: TideTarget): boolean => {
+  if (target.mode === 'high') return event.type === 'H' && event.height >= target.high;
+  if (target.mode === 'low') return event.type === 'L' && event.height <= target.low;
+  return isWithinTarget(event.height, target);
+};
+
+// Levels worth drawing as reference lines on a chart
+export const targetLevels = (target: TideTarget): number[] => {
+  if (target.mode === 'high') return [target.high];
+  if (target.mode === 'low') return [target.low];
+  return [target.low, target.high];
+};
+
+// The day's headline height for a target: its lowest low for low targets, otherwise its highest high
+export const targetHeight = (day: DailyTideData, target: TideTarget): number =>
+  target.mode === 'low' ? day.minHeight : day.maxHeight;
+
+/**
+ * How far the day's best extreme clears the target, negative when it falls
+ * short. Null when the day has no extreme the target looks at.
+ */
+export const targetMargin = (day: DailyTideData, target: TideTarget): number | null => {
+  const margins = day.events.flatMap(e => {
+    if (target.mode === 'high') return e.type === 'H' ? [e.height - target.high] : [];
+    if (target.mode === 'low') return e.type === 'L' ? [target.low - e.height] : [];
+    return [Math.min(e.height - target.low, target.high - e.height)];
+  });
+  return margins.length ? Math.max(...margins) : null;
+};
+
+// The target a station is judged by: its favorite profile's when it has one
+export const profileTarget = (stationId: string, favorites: SavedStation[], fallback: TideTarget = DEFAULT_TARGET): TideTarget =>
+  favorites.find(f => f.id === stationId)?.target ?? fallback;
+
+// Re-expresses a target measured from one datum against another datum `offset` feet higher
+export const shiftTarget = (target: TideTarget, offset: number): TideTarget => ({
+  ...target,
+  high: target.high - offset,
+  low: target.low - offset
+});
+
+const h = (feet: number, unit: LengthUnit) => `${roundedHeight(feet, unit)}${unit}`;
+
+export const targetBadge = (target: TideTarget, unit: LengthUnit = 'ft'): string => {
+  if (target.mode === 'high') return `${h(target.high, unit)}+`;
+  if (target.mode === 'low') return `≤${h(target.low, unit)}`;
+  return `${roundedHeight(target.low, unit)}–${h(target.high, unit)}`;
+};
+
+export const describeTarget = (target: TideTarget, unit: LengthUnit = 'ft'): string => {
+  if (target.mode === 'high') return `High above ${h(target.high, unit)}`;
+  if (target.mode === 'low') return `Low below ${h(target.low, unit)}`;
+  return `Water between ${h(target.low, unit)} and ${h(target.high, unit)}`;
+};
@@ -0,0 +1,73 @@
+import { format, isSameDay } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { formatNoaaTime, parseNoaaTime, toTideEvents } from './tideAnalysis';
+import { analyzePredictions } from './tideScan';
+import { formatInZone } from './timeZones';
+import { TidePrediction } from '../types';
+
+const ZONE = 'America/Los_Angeles';
+const MINUTE_MS = 60000;
+
+// GMT rows every `step` minutes from `from`, the way NOAA answers with time_zone=gmt
+const rows = (from: string, count: number, step: number, height: (i: number) => number): TidePrediction[] =>
+  Array.from({ length: count }, (_, i) => ({
+    t: formatNoaaTime(new Date(new Date(from).getTime() + i * step * MINUTE_MS)),
+    v: height(i).toFixed(3)
+  }));
+
+describe('parseNoaaTime', () => {
+  it('reads stamps as GMT whatever the browser clock', () => {
+    expect(parseNoaaTime('2026-03-08 10:00').toISOString()).toBe('2026-03-08T10:00:00.000Z');
+    expect(formatNoaaTime(new Date('2026-11-01T09:30:00Z'))).toBe('2026-11-01 09:30');
+  });
+});
+
+describe('toTideEvents across DST changes', () => {
+  it('keeps the hour repeated when clocks fall back as two distinct hours', () => {
+    // 00:00 to 03:00 PDT/PST on Nov 1 2026, when 1am comes round twice
+    const events = toTideEvents(rows('2026-11-01T07:00:00Z', 9, 30, () => 3), false);
+    const local = events.map(e => formatInZone(e.time, ZONE, 'HH:mm'));
+
+    expect(local).toEqual(['00:00', '00:30', '01:00', '01:30', '01:00', '01:30', '02:00', '02:30', '03:00']);
+    events.slice(1).forEach((e, i) => expect(e.time.getTime() - events[i].time.getTime()).toBe(30 * MINUTE_MS));
+  });
+
+  it('skips nothing when clocks spring forward', () => {
+    // 00:00 PST to 04:00 PDT on Mar 8 2026; there is no 2am
+    const events = toTideEvents(rows('2026-03-08T08:00:00Z', 7, 30, () => 3), false);
+    const local = events.map(e => formatInZone(e.time, ZONE, 'HH:mm'));
+
+    expect(local).toEqual(['00:00', '00:30', '01:00', '01:30', '03:00', '03:30', '04:00']);
+    events.slice(1).forEach((e, i) => expect(e.time.getTime() - events[i].time.getTime()).toBe(30 * MINUTE_MS));
+  });
+});
+
+describe('analyzePredictions across DST changes', () => {
+  const dayCurve = (month: Date, day: Date, from: string, hours: number) => {
+    const curve = rows(from, hours + 1, 60, () => 3);
+    const { days } = analyzePredictions({ hilo: [], curve }, { mode: 'high', high: 5, low: 0 }, { fromMonth: month, displayZone: ZONE });
+    return days.find(d => isSameDay(d.date, day))!.curve;
+  };
+
+  it('gives the spring-forward day 23 hours and the fall-back day 25', () => {
+    // Hourly from local midnight to the next local midnight, which is in the next day
+    expect(dayCurve(new Date(2026, 2, 1), new Date(2026, 2, 8), '2026-03-08T08:00:00Z', 23)).toHaveLength(23);
+    expect(dayCurve(new Date(2026, 10, 1), new Date(2026, 10, 1), '2026-11-01T07:00:00Z', 25)).toHaveLength(25);
+  });
+
+  it('measures a window over the missing hour in real minutes', () => {
+    // Above 5ft from 01:00 PST to 04:00 PDT, which is two hours, not three
+    const curve = rows('2026-03-08T08:00:00Z', 61, 6, i => (i >= 10 && i <= 30 ? 6 : 3));
+    const { windows } = analyzePredictions(
+      { hilo: [{ t: '2026-03-08 10:00', v: '6.000', type: 'H' }], curve },
+      { mode: 'high', high: 5, low: 0 },
+      { fromMonth: new Date(2026, 2, 1), displayZone: ZONE }
+    );
+
+    expect(windows).toHaveLength(1);
+    // Crossings are interpolated between samples, a few minutes either side of the hours
+    expect(format(windows[0].start, 'HH:mm')).toBe('00:58');
+    expect(format(windows[0].end, 'HH:mm')).toBe('04:02');
+    expect(windows[0].durationMinutes).toBe(124);
+  });
+});
@@ -0,0 +1,210 @@
+import {
+  differenceInMinutes,
+  areIntervalsOverlapping,
+  startOfDay,
+  endOfDay,
+  eachDayOfInterval,
+  format
+} from 'date-fns';
+import { TidePrediction, TideEvent, ThresholdWindow, TideTarget, DailyTideData } from '../types';
+import { isWithinTarget, eventMeetsTarget } from './targets';
+import { toZonedTime } from './timeZones';
+
+/**
+ * Prediction rows are stamped "yyyy-MM-dd HH:mm" in GMT, as NOAA answers with
+ * `time_zone=gmt`, so every stamp names one real instant, even across a DST
+ * change. They're read as ISO strings rather than through the browser's clock,
+ * which skips an hour of its own each spring.
+ */
+export const parseNoaaTime = (t: string): Date => new Date(`${t.replace(' ', 'T')}:00Z`);
+
+export const formatNoaaTime = (instant: Date): string => instant.toISOString().slice(0, 16).replace('T', ' ');
+
+export const toTideEvents = (predictions: TidePrediction[], isPeak: boolean): TideEvent[] =>
+  predictions.map(p => ({
+    time: parseNoaaTime(p.t),
+    height: parseFloat(p.v),
+    isPeak,
+    type: p.type as 'H' | 'L' | undefined
+  }));
+
+const zonedEvent = (e: TideEvent, timeZone: string): TideEvent => ({ ...e, time: toZonedTime(e.time, timeZone) });
+
+// Re-expresses a window on `timeZone`'s clock, keeping the duration measured between the real instants
+export const zonedWindow = (w: ThresholdWindow, timeZone: string): ThresholdWindow => ({
+  ...w,
+  start: toZonedTime(w.start, timeZone),
+  end: toZonedTime(w.end, timeZone),
+  peak: zonedEvent(w.peak, timeZone)
+});
+
+// Linear interpolation of the moment the water passes `level` between two samples
+const crossingTime = (a: TideEvent, b: TideEvent, level: number): Date => {
+  const span = b.height - a.height;
+  const ratio = span === 0 ? 0 : (level - a.height) / span;
+  return new Date(a.time.getTime() + ratio * (b.time.getTime() - a.time.getTime()));
+};
+
+// The bound an out-of-target sample sits beyond, i.e. the level the curve crosses next to it
+const violatedBound = (height: number, target: TideTarget): number => {
+  if (target.mode === 'high') return target.high;
+  if (target.mode === 'low') return target.low;
+  return height > target.high ? target.high : target.low;
+};
+
+const buildWindow = (
+  start: Date,
+  end: Date,
+  samples: TideEvent[],
+  peaks: TideEvent[],
+  target: TideTarget
+): ThresholdWindow => {
+  // Low targets care about the deepest point, everything else about the highest
+  const wantLow = target.mode === 'low';
+  const peakType = wantLow ? 'L' : 'H';
+  const better = (a: TideEvent, b: TideEvent) => (wantLow ? a.height < b.height : a.height > b.height);
+
+  // Prefer the predicted extreme inside the window, the curve samples only approximate it
+  const hiloPeak = peaks
+    .filter(p => p.type === peakType && p.time >= start && p.time <= end)
+    .reduce<TideEvent | undefined>((best, p) => (!best || better(p, best) ? p : best), undefined);
+  const curvePeak = samples.reduce((best, s) => (better(s, best) ? s : best), samples[0]);
+
+  return {
+    start,
+    end,
+    durationMinutes: differenceInMinutes(end, start),
+    peak: hiloPeak ?? curvePeak
+  };
+};
+
+/**
+ * Walks a continuous tide curve and returns every span where the water level
+ * satisfies `target`. Crossing times are interpolated between samples; windows
+ * that are already open at the first sample or still open at the last one are
+ * clipped to the curve's range.
+ */
+export const findTargetWindows = (
+  curve: TideEvent[],
+  target: TideTarget,
+  peaks: TideEvent[] = []
+): ThresholdWindow[] => {
+  const windows: ThresholdWindow[] = [];
+  let openStart: Date | null = null;
+  let samples: TideEvent[] = [];
+
+  curve.forEach((point, idx) => {
+    const inside = isWithinTarget(point.height, target);
+    const prev = curve[idx - 1];
+
+    if (inside && openStart === null) {
+      openStart = prev ? crossingTime(prev, point, violatedBound(prev.height, target)) : point.time;
+      samples = [];
+    }
+
+    if (!inside && openStart !== null) {
+      const end = crossingTime(prev, point, violatedBound(point.height, target));
+      windows.push(buildWindow(openStart, end, samples, peaks, target));
+      openStart = null;
+    }
+
+    if (inside) samples.push(point);
+  });
+
+  if (openStart !== null && samples.length) {
+    windows.push(buildWindow(openStart, curve[curve.length - 1].time, samples, peaks, target));
+  }
+
+  return windows;
+};
+
+export const windowsOnDay = (windows: ThresholdWindow[], day: Date): ThresholdWindow[] =>
+  windows.filter(w =>
+    areIntervalsOverlapping({ start: w.start, end: w.end }, { start: startOfDay(day), end: endOfDay(day) }, { inclusive: true })
+  );
+
+const dayKey = (time: Date) => format(time, 'yyyy-MM-dd');
+
+const groupByDay = <T>(items: T[], daysOf: (item: T) => Date[]): Map<string, T[]> => {
+  const byDay = new Map<string, T[]>();
+  items.forEach(item =>
+    daysOf(item).forEach(day => {
+      const key = dayKey(day);
+      (byDay.get(key) ?? byDay.set(key, []).get(key)!).push(item);
+    })
+  );
+  return byDay;
+};
+
+/**
+ * Buckets predictions into the calendar days from `start` to `end`. `curve` may
+ * be empty when only hilo data was fetched, in which case days qualify on their
+ * extremes alone. Windows are found once across the whole input, so one that
+ * runs past midnight at either end of a month is still whole.
+ * With `timeZone`, windows are measured on the real instants and everything
+ * returned is on that zone's clock, so days are that zone's days.
+ */
+export const buildDayData = (
+  start: Date,
+  end: Date,
+  instantPeaks: TideEvent[],
+  instantCurve: TideEvent[],
+  target: TideTarget,
+  timeZone?: string
+): { days: DailyTideData[]; windows: ThresholdWindow[] } => {
+  const instantWindows = findTargetWindows(instantCurve, target, instantPeaks);
+  const windows = timeZone ? instantWindows.map(w => zonedWindow(w, timeZone)) : instantWindows;
+  const peaks = timeZone ? instantPeaks.map(e => zonedEvent(e, timeZone)) : instantPeaks;
+  const curve = timeZone ? instantCurve.map(e => zonedEvent(e, timeZone)) : instantCurve;
+
+  const peaksByDay = groupByDay(peaks, e => [e.time]);
+  const curveByDay = groupByDay(curve, e => [e.time]);
+  // Inclusive at both ends, like windowsOnDay, so a window ending at midnight shows on both days
+  const windowsByDay = groupByDay(windows, w => eachDayOfInterval({ start: w.start, end: w.end }));
+
+  const days = eachDayOfInterval({ start: startOfDay(start), end: endOfDay(end) }).map(day => {
+    const key = dayKey(day);
+    const events = peaksByDay.get(key) ?? [];
+    const dayWindows = windowsByDay.get(key) ?? [];
+
+    const heights = events.filter(e => e.type === 'H').map(e => e.height);
+    const maxHeight = heights.length ? Math.max(...heights) : 0;
+    const minHeight = events.length ? Math.min(...events.map(e => e.height)) : 0;
+
+    return {
+      date: day,
+      events,
+      curve: curveByDay.get(key) ?? [],
+      windows: dayWindows,
+      maxHeight,
+      minHeight,
+      meetsThreshold: events.some(e => eventMeetsTarget(e, target)) || dayWindows.length > 0
+    };
+  });
+
+  return { days, windows };
+};
+
+// Height of a sampled curve at an arbitrary instant, or null outside its range
+export const interpolateHeight = (curve: TideEvent[], time: Date): number | null => {
+  const t = time.getTime();
+  if (!curve.length || t < curve[0].time.getTime() || t > curve[curve.length - 1].time.getTime()) return null;
+
+  let lo = 0;
+  let hi = curve.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (curve[mid].time.getTime() <= t) lo = mid; else hi = mid;
+  }
+  const a = curve[lo];
+  const b = curve[hi];
+  const span = b.time.getTime() - a.time.getTime();
+  return span ? a.height + ((t - a.time.getTime()) / span) * (b.height - a.height) : a.height;
+};
+
+export const formatDuration = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+};
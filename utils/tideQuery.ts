@@ -0,0 +1,148 @@
+import { addDays, differenceInCalendarDays, format, isValid, parse } from 'date-fns';
+import { LengthUnit, QueryRank, TideEvent, TideQuery, TideTarget, TargetMode } from '../types';
+import { ALL_WEEKDAYS } from './alertRules';
+import { describeTarget, eventMeetsTarget } from './targets';
+import { overlapsDaylight } from './sun';
+import { toZonedTime } from './timeZones';
+
+const DAY_FORMAT = 'yyyy-MM-dd';
+export const MAX_QUERY_DAYS = 366;
+export const MAX_QUERY_RESULTS = 50;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export class QueryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryValidationError';
+  }
+}
+
+export const defaultQuery = (today: Date): TideQuery => ({
+  place: '',
+  from: format(today, DAY_FORMAT),
+  to: format(addDays(today, 30), DAY_FORMAT),
+  rank: 'date',
+  target: null,
+  fromHour: 0,
+  toHour: 24,
+  weekdays: ALL_WEEKDAYS,
+  daylightOnly: false,
+  limit: 10
+});
+
+export const parseQueryDay = (day: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return null;
+  const parsed = parse(day, DAY_FORMAT, new Date());
+  return isValid(parsed) ? parsed : null;
+};
+
+const isHour = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 24;
+const isHeight = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= 60;
+
+/**
+ * Turns the model's flat answer into a `TideQuery`, or explains why it
+ * can't. Anything missing falls back to `defaultQuery`; anything present
+ * but out of range is an error rather than being quietly fixed.
+ */
+export const toTideQuery = (raw: unknown, today: Date): TideQuery => {
+  if (typeof raw !== 'object' || raw === null) throw new QueryValidationError('The question could not be turned into a search.');
+  const r = raw as Record<string, unknown>;
+  const query = defaultQuery(today);
+
+  if (typeof r.place === 'string') query.place = r.place.trim();
+  if (typeof r.from === 'string' && r.from) query.from = r.from;
+  if (typeof r.to === 'string' && r.to) query.to = r.to;
+  if (r.rank !== undefined) {
+    if (!['lowest', 'highest', 'date'].includes(r.rank as string)) throw new QueryValidationError(`Unknown ordering "${r.rank}".`);
+    query.rank = r.rank as QueryRank;
+  }
+
+  const mode = r.targetMode ?? 'none';
+  if (mode !== 'none') {
+    if (!['high', 'low', 'range'].includes(mode as string)) throw new QueryValidationError(`Unknown target "${mode}".`);
+    const high = r.targetHigh ?? r.targetLow;
+    const low = r.targetLow ?? r.targetHigh;
+    if (!isHeight(high) || !isHeight(low)) throw new QueryValidationError('The target needs a height in feet.');
+    query.target = { mode: mode as TargetMode, high, low };
+  }
+
+  if (r.fromHour !== undefined) query.fromHour = r.fromHour as number;
+  if (r.toHour !== undefined) query.toHour = r.toHour as number;
+  if (Array.isArray(r.weekdays) && r.weekdays.length) query.weekdays = [...new Set(r.weekdays as number[])].sort();
+  if (r.daylightOnly !== undefined) query.daylightOnly = r.daylightOnly === true;
+  if (r.limit !== undefined) query.limit = r.limit as number;
+
+  return validateTideQuery(query);
+};
+
+// Checks a query, whether it came from the model or the edit form
+export const validateTideQuery = (query: TideQuery): TideQuery => {
+  const from = parseQueryDay(query.from);
+  const to = parseQueryDay(query.to);
+  if (!from || !to) throw new QueryValidationError('Dates must be real days written as yyyy-MM-dd.');
+  const days = differenceInCalendarDays(to, from) + 1;
+  if (days < 1) throw new QueryValidationError('The end date comes before the start date.');
+  if (days > MAX_QUERY_DAYS) throw new QueryValidationError(`Searches can cover at most ${MAX_QUERY_DAYS} days.`);
+  if (!isHour(query.fromHour) || !isHour(query.toHour) || query.fromHour >= query.toHour) {
+    throw new QueryValidationError('The time of day must run from an earlier hour to a later one.');
+  }
+  if (!query.weekdays.length || query.weekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+    throw new QueryValidationError('Weekdays must be numbers from 0 (Sunday) to 6.');
+  }
+  if (query.target && query.target.mode === 'range' && query.target.low > query.target.high) {
+    throw new QueryValidationError('The target range is upside down.');
+  }
+  if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_QUERY_RESULTS) {
+    throw new QueryValidationError(`Ask for between 1 and ${MAX_QUERY_RESULTS} results.`);
+  }
+  return query;
+};
+
+/**
+ * Applies the query to real predicted extremes, given as instants. Hours,
+ * weekdays and dates are read on the station's clock. The ranking decides
+ * which extremes count: lows for "lowest", highs for "highest", both by date.
+ * A daylight-only query needs `location` to know when the sun is up.
+ */
+export const runTideQuery = (
+  query: TideQuery,
+  events: TideEvent[],
+  timeZone: string,
+  location?: { lat: number; lng: number }
+): TideEvent[] => {
+  if (query.daylightOnly && !location) {
+    throw new QueryValidationError('Daylight-only searches need the station\'s location, which could not be loaded.');
+  }
+  const matches = events.filter(e => {
+    if (query.rank === 'lowest' && e.type !== 'L') return false;
+    if (query.rank === 'highest' && e.type !== 'H') return false;
+    const local = toZonedTime(e.time, timeZone);
+    const day = format(local, DAY_FORMAT);
+    if (day < query.from || day > query.to) return false;
+    if (!query.weekdays.includes(local.getDay())) return false;
+    const hour = local.getHours() + local.getMinutes() / 60;
+    if (hour < query.fromHour || hour >= query.toHour) return false;
+    if (query.target && !eventMeetsTarget(e, query.target)) return false;
+    if (query.daylightOnly && !overlapsDaylight(e.time, e.time, location!.lat, location!.lng)) return false;
+    return true;
+  });
+
+  if (query.rank === 'lowest') matches.sort((a, b) => a.height - b.height);
+  if (query.rank === 'highest') matches.sort((a, b) => b.height - a.height);
+  return matches.slice(0, query.limit);
+};
+
+const hourName = (h: number) => (h === 24 ? 'midnight' : format(new Date(2000, 0, 1, h), 'ha').toLowerCase());
+
+export const describeQuery = (query: TideQuery, stationName: string, unit: LengthUnit): string => {
+  const parts = [
+    query.rank === 'lowest' ? `Lowest ${query.limit} lows` : query.rank === 'highest' ? `Highest ${query.limit} highs` : `First ${query.limit} tides`,
+    `at ${stationName}`,
+    `${query.from} to ${query.to}`
+  ];
+  if (query.target) parts.push(`${describeTarget(query.target as TideTarget, unit)} MLLW`);
+  if (query.fromHour > 0 || query.toHour < 24) parts.push(`${hourName(query.fromHour)}–${hourName(query.toHour)}`);
+  if (query.weekdays.length < 7) parts.push(query.weekdays.map(d => WEEKDAY_NAMES[d]).join(', '));
+  if (query.daylightOnly) parts.push('daylight only');
+  return parts.join(' · ');
+};
@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import { format } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { TidePrediction, TideTarget } from '../types';
+import { analyzePredictions, qualifyingDays } from './tideScan';
+
+const ZONE = 'America/Los_Angeles';
+
+// Synthetic Monterey (9413450) predictions, computed from fixtures/harcon rather than recorded from NOAA, and laid
+// out the way `tidewatch scan --fixtures` reads them. The six-minute files only cover Jul 31 and Aug 1, the two
+// days either side of the month end.
+const fixture = (name: string): TidePrediction[] =>
+  JSON.parse(readFileSync(new URL(`../fixtures/synthetic/predictions/9413450/${name}.json`, import.meta.url), 'utf8'));
+
+const input = {
+  hilo: [...fixture('2026-07-hilo-MLLW'), ...fixture('2026-08-hilo-MLLW')],
+  curve: [...fixture('2026-07-6-MLLW'), ...fixture('2026-08-6-MLLW')]
+};
+const target: TideTarget = { mode: 'high', high: 5, low: 5 };
+const options = { fromMonth: new Date(2026, 6, 1), months: 2, displayZone: ZONE };
+
+// Days and windows come back on the station's clock
+const local = (day: { date: Date }) => format(day.date, 'yyyy-MM-dd');
+
+describe('analyzePredictions', () => {
+  it('returns every station day of the months scanned, with that day\'s highs and lows', () => {
+    const { days } = analyzePredictions(input, target, options);
+
+    expect(days).toHaveLength(62);
+    expect(local(days[0])).toBe('2026-07-01');
+    expect(local(days[61])).toBe('2026-08-31');
+    expect(days.reduce((n, d) => n + d.events.length, 0)).toBe(input.hilo.length);
+    days.forEach(d => d.events.forEach(e => expect(e.time.getDate()).toBe(d.date.getDate())));
+  });
+
+  it('keeps a window that crosses the month end whole, on both of its days', () => {
+    const { days, windows } = analyzePredictions(input, target, options);
+    const jul31 = days.find(d => local(d) === '2026-07-31')!;
+    const aug1 = days.find(d => local(d) === '2026-08-01')!;
+
+    // The high just after midnight on Aug 1 is the only one over 5ft near the month end
+    const crossing = windows.find(w => w.start.getMonth() === 6 && w.end.getMonth() === 7)!;
+    expect(crossing).toBeDefined();
+    expect(crossing.peak.height).toBeCloseTo(5.232, 3);
+    expect(jul31.windows).toContain(crossing);
+    expect(aug1.windows).toContain(crossing);
+    expect(crossing.durationMinutes).toBeGreaterThan(60);
+  });
+
+  it('qualifies a day on a window alone when none of its extremes reach the target', () => {
+    const { days } = analyzePredictions(input, target, options);
+    const jul31 = days.find(d => local(d) === '2026-07-31')!;
+
+    expect(jul31.events.some(e => e.type === 'H' && e.height >= 5)).toBe(false);
+    expect(qualifyingDays(days)).toContain(jul31);
+  });
+
+  it('qualifies days on their extremes where there are no six-minute samples', () => {
+    const { days } = analyzePredictions({ hilo: input.hilo }, target, options);
+
+    expect(days.every(d => d.windows.length === 0)).toBe(true);
+    expect(qualifyingDays(days).map(local)).toEqual(
+      days.filter(d => d.events.some(e => e.type === 'H' && e.height >= 5)).map(local)
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { addMonths, endOfMonth, startOfMonth } from 'date-fns';
+import { DailyTideData, ThresholdWindow, TideEvent, TidePrediction, TideTarget } from '../types';
+import { eventMeetsTarget } from './targets';
+import { buildDayData, toTideEvents } from './tideAnalysis';
+
+export interface ScanInput {
+  hilo: TidePrediction[];
+  // Interval samples; without them there are no windows and days qualify on their extremes
+  curve?: TidePrediction[];
+}
+
+export interface ScanOptions {
+  fromMonth: Date;
+  months?: number;
+  // The zone whose days the results are grouped into; real instants when left out
+  displayZone?: string;
+}
+
+/**
+ * The analysis behind every view, free of React, storage and network: NOAA
+ * predictions and a target in, calendar days and target windows out. Windows
+ * are measured across the whole input, so one that runs past midnight at the
+ * end of a month is still whole.
+ */
+export const analyzePredictions = (
+  input: ScanInput,
+  target: TideTarget,
+  options: ScanOptions
+): { days: DailyTideData[]; windows: ThresholdWindow[] } => {
+  const { fromMonth, months = 1, displayZone } = options;
+  const peaks = toTideEvents(input.hilo, true);
+  const curve = toTideEvents(input.curve ?? [], false);
+
+  const first = startOfMonth(fromMonth);
+  return buildDayData(first, endOfMonth(addMonths(first, months - 1)), peaks, curve, target, displayZone);
+};
+
+// The day's highs or lows that count toward the target on their own
+export const qualifyingEvents = (day: DailyTideData, target: TideTarget): TideEvent[] =>
+  day.events.filter(e => eventMeetsTarget(e, target));
+
+export const qualifyingDays = (days: DailyTideData[]): DailyTideData[] => days.filter(d => d.meetsThreshold);
@@ -0,0 +1,87 @@
+import { format } from 'date-fns';
+
+/**
+ * Dates in the data layer are real instants. The calendar and list views work
+ * on a "zoned clock" instead: a Date whose local fields read the wall-clock
+ * time in some other zone, so date-fns grouping and formatting show station
+ * days and station times without knowing about zones.
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const wallClock = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone).formatToParts(instant).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  });
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+};
+
+export const browserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes `timeZone` is ahead of UTC at `instant`
+export const zoneOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const c = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+// The instant shown as a zoned clock for `timeZone`
+export const toZonedTime = (instant: Date, timeZone: string): Date => {
+  const c = wallClock(instant, timeZone);
+  return new Date(c.year, c.month - 1, c.day, c.hour, c.minute, c.second, instant.getMilliseconds());
+};
+
+/**
+ * The instant at which `timeZone`'s clocks read the wall-clock fields of
+ * `zoned`. A time repeated by a fall-back transition resolves to its first,
+ * daylight-time occurrence.
+ */
+export const fromZonedTime = (zoned: Date, timeZone: string): Date => {
+  const asUtc = Date.UTC(
+    zoned.getFullYear(), zoned.getMonth(), zoned.getDate(),
+    zoned.getHours(), zoned.getMinutes(), zoned.getSeconds(), zoned.getMilliseconds()
+  );
+  // The offset at the first guess can be an hour out near a transition, so settle it twice
+  let guess = asUtc - zoneOffsetMinutes(new Date(asUtc), timeZone) * 60000;
+  guess = asUtc - zoneOffsetMinutes(new Date(guess), timeZone) * 60000;
+  return new Date(guess);
+};
+
+export const formatInZone = (instant: Date, timeZone: string, pattern: string): string =>
+  format(toZonedTime(instant, timeZone), pattern);
+
+// Short name like PDT or HST for the zone at `instant`, falling back to the UTC offset
+export const zoneAbbreviation = (instant: Date, timeZone: string): string => {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(instant)
+    .find(p => p.type === 'timeZoneName')?.value;
+  return name ?? timeZone;
+};
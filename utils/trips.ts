@@ -0,0 +1,122 @@
+import { LengthUnit, TideEvent, TideStage, TideTarget, Trip, TripConditions } from '../types';
+import { csvCell } from './dataExport';
+import { interpolateHeight } from './tideAnalysis';
+import { formatInZone } from './timeZones';
+import { roundedHeight, toUnit } from './units';
+
+const MINUTE_MS = 60 * 1000;
+// How close to a high or low still counts as being at the turn
+const TURN_MINUTES = 60;
+
+export const TIDE_STAGES: { id: TideStage; label: string }[] = [
+  { id: 'low', label: 'Around low' },
+  { id: 'rising', label: 'Rising' },
+  { id: 'high', label: 'Around high' },
+  { id: 'falling', label: 'Falling' }
+];
+
+export const stageLabel = (stage: TideStage): string => TIDE_STAGES.find(s => s.id === stage)!.label;
+
+export const newestFirst = (trips: Trip[]): Trip[] => [...trips].sort((a, b) => b.start.localeCompare(a.start));
+
+/**
+ * Tide conditions at the start of a trip, from hilo extremes and the
+ * six-minute curve, all as instants in feet above MLLW. `dayMetTarget` comes
+ * from the month analysis the calendar uses, so a trip agrees with the
+ * calendar about its day.
+ */
+export const tripConditions = (
+  start: Date,
+  extremes: TideEvent[],
+  curve: TideEvent[],
+  dayMetTarget: boolean | null,
+  target: TideTarget
+): TripConditions => {
+  const turns = extremes.filter(e => e.type === 'H' || e.type === 'L');
+  const next = turns.find(e => e.time > start);
+  const nearest = turns.reduce<TideEvent | null>(
+    (best, e) => (!best || Math.abs(e.time.getTime() - start.getTime()) < Math.abs(best.time.getTime() - start.getTime()) ? e : best),
+    null
+  );
+
+  const trend = next ? (next.type === 'H' ? 'rising' : 'falling') : null;
+  const minutesFromStart = nearest ? Math.round((nearest.time.getTime() - start.getTime()) / MINUTE_MS) : null;
+  let stage: TideStage | null = trend;
+  if (nearest && Math.abs(minutesFromStart!) <= TURN_MINUTES) stage = nearest.type === 'H' ? 'high' : 'low';
+
+  return {
+    startHeight: interpolateHeight(curve, start),
+    trend,
+    stage,
+    nearestEvent: nearest
+      ? { type: nearest.type as 'H' | 'L', time: nearest.time.toISOString(), height: nearest.height, minutesFromStart: minutesFromStart! }
+      : null,
+    metTarget: dayMetTarget,
+    target
+  };
+};
+
+export interface TripBucket {
+  label: string;
+  trips: number;
+  averageRating: number;
+}
+
+const summarize = (label: string, trips: Trip[]): TripBucket => ({
+  label,
+  trips: trips.length,
+  averageRating: trips.reduce((sum, t) => sum + t.rating, 0) / trips.length
+});
+
+export const statsByStage = (trips: Trip[]): TripBucket[] =>
+  TIDE_STAGES
+    .map(s => ({ label: s.label, trips: trips.filter(t => t.conditions?.stage === s.id) }))
+    .filter(b => b.trips.length)
+    .map(b => summarize(b.label, b.trips));
+
+/**
+ * Groups trips by starting height in whole feet, or half meters, so a
+ * handful of trips still land in shared buckets.
+ */
+export const statsByHeight = (trips: Trip[], unit: LengthUnit): TripBucket[] => {
+  const band = unit === 'm' ? 0.5 : 1;
+  const groups = new Map<number, Trip[]>();
+  trips.forEach(t => {
+    const height = t.conditions?.startHeight;
+    if (height === null || height === undefined) return;
+    const floor = Math.floor(toUnit(height, unit) / band) * band;
+    groups.set(floor, [...(groups.get(floor) ?? []), t]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([floor, group]) => summarize(`${floor} to ${floor + band} ${unit}`, group));
+};
+
+export const statsByTarget = (trips: Trip[]): TripBucket[] =>
+  [
+    summarize('Target days', trips.filter(t => t.conditions?.metTarget === true)),
+    summarize('Other days', trips.filter(t => t.conditions?.metTarget === false))
+  ].filter(b => b.trips);
+
+export const tripsToCsv = (trips: Trip[], unit: LengthUnit): string => {
+  const columns = ['station', 'station_id', 'start', 'end', 'rating', 'tags', `start_height_${unit}`, 'trend', 'stage', 'nearest_turn', 'minutes_to_turn', 'met_target', 'notes'];
+  const rows = trips.map(t => {
+    const c = t.conditions;
+    return [
+      t.station.name,
+      t.station.id,
+      formatInZone(new Date(t.start), t.timeZone, "yyyy-MM-dd'T'HH:mm"),
+      formatInZone(new Date(t.end), t.timeZone, "yyyy-MM-dd'T'HH:mm"),
+      t.rating,
+      t.tags.join(' '),
+      c?.startHeight != null ? roundedHeight(c.startHeight, unit) : '',
+      c?.trend ?? '',
+      c?.stage ?? '',
+      c?.nearestEvent ? (c.nearestEvent.type === 'H' ? 'high' : 'low') : '',
+      c?.nearestEvent?.minutesFromStart ?? '',
+      c?.metTarget == null ? '' : c.metTarget ? 'yes' : 'no',
+      t.notes
+    ];
+  });
+  return [columns, ...rows].map(line => line.map(csvCell).join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,29 @@
+import { Datum, LengthUnit } from '../types';
+
+export const FEET_PER_METER = 3.28084;
+
+export const DATUMS: { id: Datum; label: string }[] = [
+  { id: 'MLLW', label: 'MLLW' },
+  { id: 'MLW', label: 'MLW' },
+  { id: 'MSL', label: 'MSL' },
+  { id: 'MHW', label: 'MHW' },
+  { id: 'MHHW', label: 'MHHW' },
+  { id: 'NAVD', label: 'NAVD88' }
+];
+
+export const datumLabel = (datum: Datum): string => DATUMS.find(d => d.id === datum)?.label ?? datum;
+
+// Heights are handled in feet internally; these convert at the display edges
+export const toUnit = (feet: number, unit: LengthUnit): number => (unit === 'm' ? feet / FEET_PER_METER : feet);
+export const fromUnit = (value: number, unit: LengthUnit): number => (unit === 'm' ? value * FEET_PER_METER : value);
+
+export const formatHeight = (feet: number, unit: LengthUnit, digits = 2): string =>
+  `${toUnit(feet, unit).toFixed(digits)}${unit}`;
+
+// Compact form for calendar pills, keeping the familiar 6.1' for feet
+export const shortHeight = (feet: number, unit: LengthUnit): string =>
+  unit === 'm' ? `${toUnit(feet, 'm').toFixed(2)}m` : `${feet.toFixed(1)}'`;
+
+// Rounded for labels, so a target entered as 1.8m doesn't read back as 1.7999m
+export const roundedHeight = (feet: number, unit: LengthUnit): number =>
+  Math.round(toUnit(feet, unit) * 100) / 100;